@@ -0,0 +1,143 @@
+export interface ScoreTrendPoint {
+  farming_score: number;
+  risk_level: "low" | "moderate" | "high";
+  analysis_version: string;
+  analyzed_at: string;
+}
+
+interface ScoreTrendChartProps {
+  history: ScoreTrendPoint[];
+  width?: number;
+  height?: number;
+}
+
+const RISK_COLORS = {
+  low: "#4ade80",
+  moderate: "#facc15",
+  high: "#f87171",
+};
+
+// R4R score over time as an SVG line chart, with the 40/70 risk thresholds
+// shaded behind it
+export function ScoreTrendChart(
+  { history, width = 640, height = 180 }: ScoreTrendChartProps,
+) {
+  const padding = { top: 10, right: 12, bottom: 24, left: 32 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const times = history.map((point) => new Date(point.analyzed_at).getTime());
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const timeRange = maxTime - minTime;
+
+  // A single analysis is drawn in the middle of the chart
+  const x = (time: number) =>
+    padding.left +
+    (timeRange > 0
+      ? ((time - minTime) / timeRange) * plotWidth
+      : plotWidth / 2);
+  const y = (score: number) =>
+    padding.top + plotHeight - (Math.min(Math.max(score, 0), 100) / 100) *
+      plotHeight;
+
+  const line = history
+    .map((point, i) =>
+      `${i === 0 ? "M" : "L"}${x(times[i]).toFixed(1)},${
+        y(point.farming_score).toFixed(1)
+      }`
+    )
+    .join(" ");
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    });
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      class="w-full h-auto"
+      role="img"
+      aria-label="R4R score history"
+    >
+      <rect
+        x={padding.left}
+        y={y(100)}
+        width={plotWidth}
+        height={y(70) - y(100)}
+        fill={RISK_COLORS.high}
+        fill-opacity="0.08"
+      />
+      <rect
+        x={padding.left}
+        y={y(70)}
+        width={plotWidth}
+        height={y(40) - y(70)}
+        fill={RISK_COLORS.moderate}
+        fill-opacity="0.06"
+      />
+
+      {[0, 40, 70, 100].map((score) => (
+        <g key={score}>
+          <line
+            x1={padding.left}
+            x2={width - padding.right}
+            y1={y(score)}
+            y2={y(score)}
+            stroke="#4b5563"
+            stroke-dasharray={score === 0 || score === 100 ? undefined : "3 3"}
+          />
+          <text
+            x={padding.left - 6}
+            y={y(score) + 3}
+            text-anchor="end"
+            font-size="10"
+            fill="#9ca3af"
+          >
+            {score}
+          </text>
+        </g>
+      ))}
+
+      <text
+        x={padding.left}
+        y={height - 6}
+        font-size="10"
+        fill="#9ca3af"
+      >
+        {formatDate(minTime)}
+      </text>
+      {timeRange > 0 && (
+        <text
+          x={width - padding.right}
+          y={height - 6}
+          text-anchor="end"
+          font-size="10"
+          fill="#9ca3af"
+        >
+          {formatDate(maxTime)}
+        </text>
+      )}
+
+      <path d={line} fill="none" stroke="#60a5fa" stroke-width="2" />
+
+      {history.map((point, i) => (
+        <circle
+          key={i}
+          cx={x(times[i])}
+          cy={y(point.farming_score)}
+          r="3.5"
+          fill={RISK_COLORS[point.risk_level]}
+        >
+          <title>
+            {`${
+              new Date(times[i]).toLocaleString()
+            }: ${point.farming_score}% (${point.risk_level} risk, ${point.analysis_version})`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
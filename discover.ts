@@ -0,0 +1,73 @@
+#!/usr/bin/env -S deno run -A
+
+// Run profile discovery from the command line. Discovered profiles go into the
+// profiles table, where the scheduled R4R batch job picks them up.
+//
+//   deno task discover                          # one pass over every source
+//   deno task discover --rounds 10 --crawl 50   # crawl deeper
+//   deno task discover --seed-file discovered_all_users_20250627_152151.txt
+//
+// Seed files hold one userkey per line (address:0x..., profileId:123, ...),
+// e.g. the discovered_all_users_*.txt lists written by the old shell scripts.
+
+import { parseArgs } from "$std/cli/parse_args.ts";
+import { getProfileStats, upsertProfiles } from "./utils/database.ts";
+import { runDiscovery } from "./utils/discovery.ts";
+
+const args = parseArgs(Deno.args, {
+  string: ["rounds", "feed-pages", "crawl", "search-terms", "seed-file"],
+  collect: ["seed-file"],
+  boolean: ["help"],
+  default: {
+    rounds: "1",
+    "feed-pages": "5",
+    crawl: "25",
+    "search-terms": "20",
+  },
+});
+
+if (args.help) {
+  console.log(`Usage: deno task discover [options]
+
+  --rounds <n>         discovery passes to run (default 1)
+  --feed-pages <n>     pages of 100 recent reviews per pass (default 5)
+  --crawl <n>          profiles to expand through their reviews per pass (default 25)
+  --search-terms <n>   search prefixes to sweep per pass (default 20)
+  --seed-file <path>   add the userkeys listed in a file before discovering (repeatable)`);
+  Deno.exit(0);
+}
+
+for (const path of args["seed-file"] as string[]) {
+  const lines = (await Deno.readTextFile(path)).split("\n")
+    .map((line) => line.split(",")[0].trim())
+    .filter(Boolean);
+  // Bare usernames can't be turned into a userkey without a lookup
+  const userkeys = lines.filter((line) => line.includes(":"));
+
+  const added = await upsertProfiles(
+    userkeys.map((userkey) => ({ userkey })),
+    "seed",
+  );
+  console.log(
+    `🌱 ${path}: ${added} new profiles (${userkeys.length} userkeys, ${
+      lines.length - userkeys.length
+    } lines skipped)`,
+  );
+}
+
+const rounds = parseInt(args.rounds);
+for (let round = 1; round <= rounds; round++) {
+  console.log(`\n🔎 Discovery pass ${round}/${rounds}`);
+  const result = await runDiscovery({
+    feedPages: parseInt(args["feed-pages"]),
+    crawlProfiles: parseInt(args.crawl),
+    searchTerms: parseInt(args["search-terms"]),
+  });
+  console.log(`✅ Pass ${round}: ${result.added} new profiles`);
+}
+
+const stats = await getProfileStats();
+console.log(
+  `\n📊 ${stats.total} profiles known (${stats.crawled} crawled, ${stats.analyzed} analyzed, ${stats.discoveredLastDay} found in the last day)`,
+);
+Deno.exit(0);
@@ -0,0 +1,241 @@
+#!/usr/bin/env -S deno run -A
+
+// Local stand-in for the Ethos API, served from JSON fixtures so the app,
+// scoring and batch jobs can run without network access.
+//
+//   deno task mock:ethos                 # serve fixtures on :8001
+//   deno task mock:ethos:record          # proxy to the live API and save responses
+//   ETHOS_API_BASE_URL=http://localhost:8001 deno task start
+//
+// Fixture layout (fixtures/ethos by default):
+//   users.json                           v1 search results, filtered by query
+//   scores.json / xp.json                v2 score and XP keyed by userkey
+//   activities/<userkey>.<direction>.json  full review list, paged by offset
+
+import { parseArgs } from "$std/cli/parse_args.ts";
+import { ETHOS_API_URL } from "./utils/ethos-client.ts";
+
+const args = parseArgs(Deno.args, {
+  boolean: ["record"],
+  string: ["port", "fixtures", "upstream"],
+  default: {
+    port: "8001",
+    fixtures: "fixtures/ethos",
+    upstream: ETHOS_API_URL,
+  },
+});
+
+const fixturesDir = args.fixtures;
+const record = args.record;
+
+interface ActivitiesFixture {
+  values: unknown[];
+  total: number;
+}
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const notFound = (what: string) =>
+  json({ ok: false, error: `No fixture for ${what}` }, 404);
+
+// Userkeys contain ":" (profileId:123, address:0x..), keep filenames portable
+const fixtureKey = (userkey: string) => userkey.replace(/[^\w.-]/g, "_");
+
+async function readFixture<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(`${fixturesDir}/${path}`));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+async function writeFixture(path: string, data: unknown) {
+  const fullPath = `${fixturesDir}/${path}`;
+  await Deno.mkdir(fullPath.substring(0, fullPath.lastIndexOf("/")), {
+    recursive: true,
+  });
+  await Deno.writeTextFile(fullPath, JSON.stringify(data, null, 2) + "\n");
+  console.log(`💾 Recorded ${fullPath}`);
+}
+
+async function proxy(req: Request, url: URL, body: string | null) {
+  return await fetch(`${args.upstream}${url.pathname}${url.search}`, {
+    method: req.method,
+    headers: {
+      "Accept": "application/json",
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body,
+  });
+}
+
+// --- v1 search ---
+
+async function recordSearch(data: { data?: { values?: unknown[] } }) {
+  const users = await readFixture<Array<{ userkey: string }>>("users.json") ||
+    [];
+  const byUserkey = new Map(users.map((u) => [u.userkey, u]));
+  for (const user of (data.data?.values || []) as Array<{ userkey: string }>) {
+    byUserkey.set(user.userkey, user);
+  }
+  await writeFixture("users.json", Array.from(byUserkey.values()));
+}
+
+async function serveSearch(url: URL) {
+  const query = (url.searchParams.get("query") || "").toLowerCase();
+  const limit = parseInt(url.searchParams.get("limit") || "10");
+  const offset = parseInt(url.searchParams.get("offset") || "0");
+
+  const users = await readFixture<
+    Array<{ username?: string; name?: string; userkey: string }>
+  >("users.json") || [];
+  const matches = users.filter((u) =>
+    [u.username, u.name, u.userkey].some((field) =>
+      field?.toLowerCase().includes(query)
+    )
+  );
+
+  return json({
+    ok: true,
+    data: {
+      values: matches.slice(offset, offset + limit),
+      limit,
+      offset,
+      total: matches.length,
+    },
+  });
+}
+
+// --- v2 activities ---
+
+// Pages are written into place so recording a full walk yields the full list
+async function recordActivities(
+  path: string,
+  offset: number,
+  page: ActivitiesFixture,
+) {
+  const fixture = await readFixture<ActivitiesFixture>(path) ||
+    { values: [], total: 0 };
+  fixture.values.splice(offset, page.values.length, ...page.values);
+  fixture.total = page.total;
+  await writeFixture(path, fixture);
+}
+
+async function serveActivities(path: string, userkey: string, body: {
+  limit?: number;
+  offset?: number;
+}) {
+  const fixture = await readFixture<ActivitiesFixture>(path);
+  if (!fixture) return notFound(`activities of ${userkey}`);
+
+  const limit = body.limit ?? 50;
+  const offset = body.offset ?? 0;
+  return json({
+    values: fixture.values.slice(offset, offset + limit),
+    total: fixture.values.length,
+    limit,
+    offset,
+  });
+}
+
+// --- v2 score / XP ---
+
+async function recordKeyed(file: string, userkey: string, data: unknown) {
+  const fixture = await readFixture<Record<string, unknown>>(file) || {};
+  fixture[userkey] = data;
+  await writeFixture(file, fixture);
+}
+
+async function serveKeyed(file: string, userkey: string) {
+  const fixture = await readFixture<Record<string, unknown>>(file) || {};
+  return userkey in fixture
+    ? json(fixture[userkey])
+    : notFound(`${file} entry ${userkey}`);
+}
+
+// Exported so tests can serve the fixtures on a port of their own
+export async function handle(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const body = req.method === "POST" ? await req.text() : null;
+  const parsedBody = body ? JSON.parse(body) : {};
+
+  let serve: () => Promise<Response>;
+  let save: (data: unknown) => Promise<void>;
+
+  const activitiesMatch = url.pathname.match(
+    /^\/api\/v2\/activities\/profile\/(given|received)$/,
+  );
+  const scoreMatch = url.pathname.match(/^\/api\/v2\/score\/(.+)$/);
+  const xpMatch = url.pathname.match(/^\/api\/v2\/xp\/user\/(.+)$/);
+
+  if (url.pathname === "/api/v1/search" && req.method === "GET") {
+    serve = () => serveSearch(url);
+    save = (data) => recordSearch(data as { data?: { values?: unknown[] } });
+  } else if (activitiesMatch && req.method === "POST") {
+    const userkey: string = parsedBody.userkey || "";
+    const path = `activities/${fixtureKey(userkey)}.${activitiesMatch[1]}.json`;
+    serve = () => serveActivities(path, userkey, parsedBody);
+    save = (data) =>
+      recordActivities(
+        path,
+        parsedBody.offset ?? 0,
+        data as ActivitiesFixture,
+      );
+  } else if (scoreMatch && req.method === "GET") {
+    const userkey = decodeURIComponent(scoreMatch[1]);
+    serve = () => serveKeyed("scores.json", userkey);
+    save = (data) => recordKeyed("scores.json", userkey, data);
+  } else if (xpMatch && req.method === "GET") {
+    const userkey = decodeURIComponent(xpMatch[1]);
+    serve = () => serveKeyed("xp.json", userkey);
+    save = (data) => recordKeyed("xp.json", userkey, data);
+  } else {
+    return json(
+      { ok: false, error: `Not mocked: ${req.method} ${url.pathname}` },
+      404,
+    );
+  }
+
+  if (!record) return await serve();
+
+  const response = await proxy(req, url, body);
+  const text = await response.text();
+  if (response.ok) {
+    await save(JSON.parse(text));
+  } else {
+    console.warn(`⚠️ Upstream ${response.status} for ${url.pathname}`);
+  }
+  return new Response(text, {
+    status: response.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+if (import.meta.main) {
+  Deno.serve({
+    port: parseInt(args.port),
+    onListen({ port }) {
+      console.log(
+        `🧪 Ethos mock ${
+          record ? `recording from ${args.upstream}` : "serving fixtures"
+        } (${fixturesDir}) on http://localhost:${port}`,
+      );
+    },
+  }, async (req) => {
+    try {
+      const response = await handle(req);
+      console.log(
+        `${req.method} ${new URL(req.url).pathname} → ${response.status}`,
+      );
+      return response;
+    } catch (error) {
+      console.error("Mock error:", error);
+      return json({ ok: false, error: String(error) }, 500);
+    }
+  });
+}
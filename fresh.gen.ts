@@ -4,24 +4,42 @@
 
 import * as $_404 from "./routes/_404.tsx";
 import * as $_app from "./routes/_app.tsx";
+import * as $_middleware from "./routes/_middleware.ts";
 import * as $admin from "./routes/admin.tsx";
+import * as $api_analysis_priority from "./routes/api/analysis-priority.ts";
+import * as $api_api_keys from "./routes/api/api-keys.ts";
 import * as $api_calculate_r4r_batch from "./routes/api/calculate-r4r-batch.ts";
+import * as $api_clusters_id_ from "./routes/api/clusters/[id].ts";
+import * as $api_clusters_index from "./routes/api/clusters/index.ts";
+import * as $api_discovery from "./routes/api/discovery.ts";
 import * as $api_ethos_activities_given from "./routes/api/ethos-activities-given.ts";
 import * as $api_ethos_activities_received from "./routes/api/ethos-activities-received.ts";
 import * as $api_ethos_score from "./routes/api/ethos-score.ts";
 import * as $api_ethos_search from "./routes/api/ethos-search.ts";
 import * as $api_ethos_xp from "./routes/api/ethos-xp.ts";
-import * as $api_job_status from "./routes/api/job-status.ts";
+import * as $api_import_batch_results from "./routes/api/import-batch-results.ts";
+import * as $api_job_status_jobId_runs from "./routes/api/job-status/[jobId]/runs.ts";
+import * as $api_job_status_jobId_stream from "./routes/api/job-status/[jobId]/stream.ts";
+import * as $api_job_status_index from "./routes/api/job-status/index.ts";
+import * as $api_jobs from "./routes/api/jobs.ts";
 import * as $api_joke from "./routes/api/joke.ts";
 import * as $api_leaderboard from "./routes/api/leaderboard.ts";
+import * as $api_leaderboard_export from "./routes/api/leaderboard/export.ts";
+import * as $api_r4r_explain from "./routes/api/r4r-explain.ts";
+import * as $api_recompute_scores from "./routes/api/recompute-scores.ts";
+import * as $api_review_rings from "./routes/api/review-rings.ts";
 import * as $api_save_analysis from "./routes/api/save-analysis.ts";
 import * as $api_schedule_r4r_jobs from "./routes/api/schedule-r4r-jobs.ts";
+import * as $api_score_history from "./routes/api/score-history.ts";
 import * as $api_simple_test from "./routes/api/simple-test.ts";
 import * as $api_test_batch_simple from "./routes/api/test-batch-simple.ts";
 import * as $api_update_high_risk_r4rs from "./routes/api/update-high-risk-r4rs.ts";
+import * as $api_users from "./routes/api/users.ts";
 import * as $greet_name_ from "./routes/greet/[name].tsx";
 import * as $index from "./routes/index.tsx";
 import * as $leaderboard from "./routes/leaderboard.tsx";
+import * as $login from "./routes/login.tsx";
+import * as $logout from "./routes/logout.ts";
 import * as $profile_xhandle_ from "./routes/profile/[xhandle].tsx";
 import * as $AppWrapper from "./islands/AppWrapper.tsx";
 import * as $Counter from "./islands/Counter.tsx";
@@ -36,24 +54,42 @@ const manifest = {
   routes: {
     "./routes/_404.tsx": $_404,
     "./routes/_app.tsx": $_app,
+    "./routes/_middleware.ts": $_middleware,
     "./routes/admin.tsx": $admin,
+    "./routes/api/analysis-priority.ts": $api_analysis_priority,
+    "./routes/api/api-keys.ts": $api_api_keys,
     "./routes/api/calculate-r4r-batch.ts": $api_calculate_r4r_batch,
+    "./routes/api/clusters/[id].ts": $api_clusters_id_,
+    "./routes/api/clusters/index.ts": $api_clusters_index,
+    "./routes/api/discovery.ts": $api_discovery,
     "./routes/api/ethos-activities-given.ts": $api_ethos_activities_given,
     "./routes/api/ethos-activities-received.ts": $api_ethos_activities_received,
     "./routes/api/ethos-score.ts": $api_ethos_score,
     "./routes/api/ethos-search.ts": $api_ethos_search,
     "./routes/api/ethos-xp.ts": $api_ethos_xp,
-    "./routes/api/job-status.ts": $api_job_status,
+    "./routes/api/import-batch-results.ts": $api_import_batch_results,
+    "./routes/api/job-status/[jobId]/runs.ts": $api_job_status_jobId_runs,
+    "./routes/api/job-status/[jobId]/stream.ts": $api_job_status_jobId_stream,
+    "./routes/api/job-status/index.ts": $api_job_status_index,
+    "./routes/api/jobs.ts": $api_jobs,
     "./routes/api/joke.ts": $api_joke,
     "./routes/api/leaderboard.ts": $api_leaderboard,
+    "./routes/api/leaderboard/export.ts": $api_leaderboard_export,
+    "./routes/api/r4r-explain.ts": $api_r4r_explain,
+    "./routes/api/recompute-scores.ts": $api_recompute_scores,
+    "./routes/api/review-rings.ts": $api_review_rings,
     "./routes/api/save-analysis.ts": $api_save_analysis,
     "./routes/api/schedule-r4r-jobs.ts": $api_schedule_r4r_jobs,
+    "./routes/api/score-history.ts": $api_score_history,
     "./routes/api/simple-test.ts": $api_simple_test,
     "./routes/api/test-batch-simple.ts": $api_test_batch_simple,
     "./routes/api/update-high-risk-r4rs.ts": $api_update_high_risk_r4rs,
+    "./routes/api/users.ts": $api_users,
     "./routes/greet/[name].tsx": $greet_name_,
     "./routes/index.tsx": $index,
     "./routes/leaderboard.tsx": $leaderboard,
+    "./routes/login.tsx": $login,
+    "./routes/logout.ts": $logout,
     "./routes/profile/[xhandle].tsx": $profile_xhandle_,
   },
   islands: {
@@ -0,0 +1,95 @@
+#!/usr/bin/env -S deno run -A
+
+// Import the CSV results written by the old shell batch processors into the
+// database as historical analyses. Directories are searched for *.csv files.
+//
+//   deno task import-batch-results                   # the repo's result files
+//   deno task import-batch-results batch-results-20250627.csv
+//   deno task import-batch-results activity-batch-results --dry-run
+//
+// See utils/batch-import.ts for the formats and how rows are recorded.
+
+import { parseArgs } from "$std/cli/parse_args.ts";
+import { countSkipReasons, importBatchCsv } from "./utils/batch-import.ts";
+
+const DEFAULT_PATHS = [
+  ".",
+  "activity-batch-results",
+  "all-users-results",
+];
+
+const args = parseArgs(Deno.args, {
+  boolean: ["help", "dry-run", "verbose"],
+});
+
+if (args.help) {
+  console.log(
+    `Usage: deno task import-batch-results [options] [files or directories...]
+
+  --dry-run   parse and report without writing anything
+  --verbose   list every skipped row instead of a count per reason
+
+Without paths, imports batch-results-*.csv from the repo root and the CSVs in
+${DEFAULT_PATHS.slice(1).join(" and ")}.`,
+  );
+  Deno.exit(0);
+}
+
+async function csvFiles(path: string, rootOnly: boolean): Promise<string[]> {
+  const info = await Deno.stat(path);
+  if (info.isFile) return [path];
+
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(path)) {
+    if (!entry.isFile || !entry.name.endsWith(".csv")) continue;
+    // The repo root holds other CSVs; only take the batch results there
+    if (rootOnly && !entry.name.startsWith("batch-results-")) continue;
+    files.push(`${path}/${entry.name}`);
+  }
+  return files.sort();
+}
+
+const paths = args._.length > 0 ? args._.map(String) : DEFAULT_PATHS;
+const files: string[] = [];
+for (const path of paths) {
+  try {
+    files.push(...await csvFiles(path, args._.length === 0 && path === "."));
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    console.warn(`⚠️ ${path} not found`);
+  }
+}
+
+let imported = 0;
+let skipped = 0;
+for (const file of files) {
+  const report = await importBatchCsv(file, await Deno.readTextFile(file), {
+    dryRun: args["dry-run"],
+  });
+  imported += report.imported;
+  skipped += report.skipped.length;
+
+  console.log(
+    `\n📄 ${file} (${
+      report.format ?? "unknown format"
+    }): ${report.rows} rows, ${report.imported} imported, ${report.leaderboardUpdated} leaderboard entries updated, ${report.skipped.length} skipped`,
+  );
+  if (args.verbose) {
+    for (const { line, reason } of report.skipped) {
+      console.log(`   line ${line}: ${JSON.stringify(reason)}`);
+    }
+  } else {
+    for (
+      const [reason, count] of Object.entries(countSkipReasons(report.skipped))
+    ) {
+      console.log(`   ${count} × ${JSON.stringify(reason)}`);
+    }
+  }
+}
+
+console.log(
+  `\n${
+    args["dry-run"] ? "🧪 Dry run: would import" : "✅ Imported"
+  } ${imported} analyses from ${files.length} files, ${skipped} rows skipped`,
+);
+Deno.exit(0);
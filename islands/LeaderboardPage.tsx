@@ -20,8 +20,52 @@ interface LeaderboardEntry {
   ethos_score?: number;
   ethos_xp?: number;
   high_risk_r4rs?: number;
+  ring_count?: number;
+  cluster_id?: string | null;
+  rank?: number;
 }
 
+interface ClusterDetail {
+  cluster: {
+    cluster_id: string;
+    size: number;
+    internal_reviews: number;
+    reciprocal_pairs: number;
+    reciprocity_density: number;
+    internal_ratio: number;
+    avg_farming_score: number | null;
+  };
+  members: Array<{
+    userkey: string;
+    username: string;
+    name: string | null;
+    farming_score: number | null;
+    risk_level: string | null;
+  }>;
+}
+
+interface Filters {
+  riskLevel: 'all' | 'high' | 'moderate' | 'low';
+  timeRange: 'all' | '30d' | '90d';
+  minReviews: string;
+  minFarmingScore: string;
+  maxFarmingScore: string;
+  minHighRiskR4rs: string;
+  analyzedAfter: string;
+  analyzedBefore: string;
+}
+
+const NO_FILTERS: Filters = {
+  riskLevel: 'all',
+  timeRange: 'all',
+  minReviews: '',
+  minFarmingScore: '',
+  maxFarmingScore: '',
+  minHighRiskR4rs: '',
+  analyzedAfter: '',
+  analyzedBefore: '',
+};
+
 interface LeaderboardStats {
   totalEntries: number;
   highRisk: number;
@@ -39,10 +83,43 @@ export default function LeaderboardPage() {
   const itemsPerPage = useSignal(100);
   const sortBy = useSignal('farming_score');
   const sortOrder = useSignal<'asc' | 'desc'>('desc');
+  const selectedCluster = useSignal<ClusterDetail | null>(null);
+  const filters = useSignal<Filters>(NO_FILTERS);
+  const searchQuery = useSignal('');
+  const searchResults = useSignal<LeaderboardEntry[] | null>(null);
+  // Entry jumped to from a search result
+  const highlighted = useSignal<string | null>(null);
+  // Entries matching the filters
+  const total = useSignal(0);
   const totalPages = useComputed(() => {
-    if (!stats.value) return 1;
-    return Math.ceil(stats.value.totalEntries / itemsPerPage.value);
+    return Math.max(1, Math.ceil(total.value / itemsPerPage.value));
   });
+  const hasFilters = useComputed(() =>
+    Object.entries(filters.value).some(([key, value]) => value !== NO_FILTERS[key as keyof Filters])
+  );
+
+  // Current sort and filters, for a page or a search
+  const leaderboardParams = (limit: number, offset: number) => {
+    const params = new URLSearchParams({
+      limit: limit.toString(),
+      offset: offset.toString(),
+      sortBy: sortBy.value,
+      sortOrder: sortOrder.value
+    });
+    for (const [key, value] of Object.entries(filters.value)) {
+      if (value !== NO_FILTERS[key as keyof Filters]) params.set(key, value);
+    }
+    return params;
+  };
+
+  // The whole leaderboard under the current sort and filters
+  const exportUrl = (format: 'csv' | 'json' | 'ndjson') => {
+    const params = leaderboardParams(0, 0);
+    params.delete('limit');
+    params.delete('offset');
+    params.set('format', format);
+    return `/api/leaderboard/export?${params}`;
+  };
 
   const loadLeaderboard = async () => {
     try {
@@ -50,12 +127,7 @@ export default function LeaderboardPage() {
       error.value = null;
 
       const offset = (currentPage.value - 1) * itemsPerPage.value;
-      const params = new URLSearchParams({
-        limit: itemsPerPage.value.toString(),
-        offset: offset.toString(),
-        sortBy: sortBy.value,
-        sortOrder: sortOrder.value
-      });
+      const params = leaderboardParams(itemsPerPage.value, offset);
 
       const response = await fetch(`/api/leaderboard?${params}`);
       const data = await response.json();
@@ -63,6 +135,7 @@ export default function LeaderboardPage() {
       if (data.ok) {
         entries.value = data.entries;
         stats.value = data.stats;
+        total.value = data.pagination.total;
         
         // Show helpful message if database isn't configured
         if (data.message && data.entries.length === 0) {
@@ -81,7 +154,56 @@ export default function LeaderboardPage() {
 
   useEffect(() => {
     loadLeaderboard();
-  }, [currentPage.value, itemsPerPage.value, sortBy.value, sortOrder.value]);
+  }, [currentPage.value, itemsPerPage.value, sortBy.value, sortOrder.value, filters.value]);
+
+  // Debounced search as the user types
+  useEffect(() => {
+    const query = searchQuery.value.trim();
+    if (!query) {
+      searchResults.value = null;
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const params = leaderboardParams(8, 0);
+        params.set('search', query);
+        const response = await fetch(`/api/leaderboard?${params}`);
+        const data = await response.json();
+        searchResults.value = data.ok ? data.entries : [];
+      } catch (err) {
+        console.error('Error searching leaderboard:', err);
+        searchResults.value = [];
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery.value]);
+
+  // Bring the entry jumped to into view once its page has loaded
+  useEffect(() => {
+    if (!highlighted.value) return;
+    document.getElementById(`entry-${highlighted.value}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [entries.value, highlighted.value]);
+
+  const jumpToEntry = (entry: LeaderboardEntry) => {
+    if (!entry.rank) return;
+    highlighted.value = entry.userkey;
+    searchQuery.value = '';
+    currentPage.value = Math.ceil(entry.rank / itemsPerPage.value);
+  };
+
+  const showCluster = async (clusterId: string) => {
+    try {
+      const response = await fetch(`/api/clusters/${encodeURIComponent(clusterId)}`);
+      const data = await response.json();
+      if (data.ok) {
+        selectedCluster.value = data;
+      }
+    } catch (err) {
+      console.error('Error loading cluster:', err);
+    }
+  };
 
   const handleSort = (column: string) => {
     if (sortBy.value === column) {
@@ -95,6 +217,11 @@ export default function LeaderboardPage() {
     currentPage.value = 1; // Reset to first page when sorting
   };
 
+  const setFilter = (name: keyof Filters, value: string) => {
+    filters.value = { ...filters.value, [name]: value };
+    currentPage.value = 1; // Reset to first page when filtering
+  };
+
   const handlePageChange = (page: number) => {
     currentPage.value = page;
   };
@@ -125,6 +252,8 @@ export default function LeaderboardPage() {
     }
   };
 
+  const filterInputClass = "mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white";
+
   if (isLoading.value) {
     return (
       <div class="text-center py-12">
@@ -139,6 +268,7 @@ export default function LeaderboardPage() {
       <div class="bg-red-900/30 border border-red-500/50 rounded-lg p-6 text-center">
         <p class="text-red-400 mb-4">{error.value}</p>
         <button
+          type="button"
           onClick={loadLeaderboard}
           class="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
         >
@@ -185,8 +315,178 @@ export default function LeaderboardPage() {
         </p>
       </div>
 
+      {/* Filters */}
+      <div class="bg-gray-800 rounded-lg p-4 mb-6 border border-gray-700">
+        <div class="relative mb-4">
+          <input
+            type="search"
+            placeholder="🔍 Find an analyzed user by username or name..."
+            value={searchQuery.value}
+            onInput={(e) => searchQuery.value = (e.target as HTMLInputElement).value}
+            class="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {searchResults.value && (
+            <div class="absolute z-10 mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg shadow-lg overflow-hidden">
+              {searchResults.value.length === 0 ? (
+                <div class="px-4 py-2 text-sm text-gray-400">
+                  No analyzed users match{hasFilters.value && ' with these filters'}
+                </div>
+              ) : searchResults.value.map((entry) => (
+                <button
+                  type="button"
+                  key={entry.userkey}
+                  onClick={() => jumpToEntry(entry)}
+                  class="w-full flex items-center justify-between px-4 py-2 text-left hover:bg-gray-700"
+                >
+                  <span>
+                    <span class="text-white">{entry.name}</span>
+                    <span class="text-gray-400 ml-2">@{entry.username}</span>
+                  </span>
+                  <span class="text-sm text-gray-300">
+                    #{entry.rank} · {entry.farming_score}%
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div class="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3 text-sm">
+          <label class="text-gray-400">
+            Risk level
+            <select
+              value={filters.value.riskLevel}
+              onChange={(e) => setFilter('riskLevel', (e.target as HTMLSelectElement).value)}
+              class={filterInputClass}
+            >
+              <option value="all">All</option>
+              <option value="high">High</option>
+              <option value="moderate">Moderate</option>
+              <option value="low">Low</option>
+            </select>
+          </label>
+          <label class="text-gray-400">
+            Analyzed
+            <select
+              value={filters.value.timeRange}
+              onChange={(e) => setFilter('timeRange', (e.target as HTMLSelectElement).value)}
+              class={filterInputClass}
+            >
+              <option value="all">Any time</option>
+              <option value="30d">Last 30 days</option>
+              <option value="90d">Last 90 days</option>
+            </select>
+          </label>
+          {([
+            ['minFarmingScore', 'Min R4R score'],
+            ['maxFarmingScore', 'Max R4R score'],
+            ['minReviews', 'Min reviews'],
+            ['minHighRiskR4rs', 'Min high-risk R4Rs'],
+          ] as const).map(([name, label]) => (
+            <label key={name} class="text-gray-400">
+              {label}
+              <input
+                type="number"
+                min="0"
+                value={filters.value[name]}
+                onChange={(e) => setFilter(name, (e.target as HTMLInputElement).value)}
+                class={filterInputClass}
+              />
+            </label>
+          ))}
+          <label class="text-gray-400">
+            Analyzed after
+            <input
+              type="date"
+              value={filters.value.analyzedAfter}
+              onChange={(e) => setFilter('analyzedAfter', (e.target as HTMLInputElement).value)}
+              class={filterInputClass}
+            />
+          </label>
+          <label class="text-gray-400">
+            Analyzed before
+            <input
+              type="date"
+              value={filters.value.analyzedBefore}
+              onChange={(e) => setFilter('analyzedBefore', (e.target as HTMLInputElement).value)}
+              class={filterInputClass}
+            />
+          </label>
+        </div>
+        <div class="mt-3 flex justify-between items-center text-sm">
+          {hasFilters.value ? (
+            <button
+              type="button"
+              onClick={() => {
+                filters.value = NO_FILTERS;
+                currentPage.value = 1;
+              }}
+              class="text-blue-400 hover:text-blue-300 hover:underline"
+            >
+              ✕ Clear filters
+            </button>
+          ) : <span />}
+          <div class="text-gray-400 space-x-2">
+            <span>⬇️ Download{hasFilters.value && ' matching'} profiles:</span>
+            {(['csv', 'json', 'ndjson'] as const).map((format) => (
+              <a
+                key={format}
+                href={exportUrl(format)}
+                class="text-blue-400 hover:text-blue-300 hover:underline"
+              >
+                {format.toUpperCase()}
+              </a>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Selected Cluster */}
+      {selectedCluster.value && (
+        <div class="bg-orange-900/10 border border-orange-500/30 rounded-lg p-4 mb-6">
+          <div class="flex justify-between items-start mb-3">
+            <div>
+              <h3 class="text-lg font-semibold text-orange-400">
+                🕸️ Cluster of {selectedCluster.value.cluster.size} profiles
+              </h3>
+              <p class="text-xs text-gray-400 mt-1">
+                {selectedCluster.value.cluster.reciprocal_pairs} reciprocal pairs
+                ({(selectedCluster.value.cluster.reciprocity_density * 100).toFixed(0)}% of possible pairs)
+                {` • ${(selectedCluster.value.cluster.internal_ratio * 100).toFixed(0)}% `}
+                of members' positive reviews stay inside
+                {selectedCluster.value.cluster.avg_farming_score !== null && (
+                  <span> • avg R4R score {selectedCluster.value.cluster.avg_farming_score}%</span>
+                )}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => selectedCluster.value = null}
+              class="text-gray-400 hover:text-white text-sm"
+            >
+              ✕
+            </button>
+          </div>
+          <div class="flex flex-wrap gap-2">
+            {selectedCluster.value.members.map((member) => (
+              <a
+                key={member.userkey}
+                href={`/profile/${member.username}`}
+                class={`text-xs px-2 py-1 rounded-full border ${getRiskBadgeColor(member.risk_level || '')}`}
+              >
+                @{member.username}
+                {member.farming_score !== null && ` · ${member.farming_score}%`}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Leaderboard Table */}
-      {entries.value.length === 0 ? (
+      {entries.value.length === 0 && hasFilters.value ? (
+        <div class="bg-gray-800 rounded-lg p-8 text-center border border-gray-700">
+          <p class="text-gray-400">No profiles match these filters.</p>
+        </div>
+      ) : entries.value.length === 0 ? (
         <div class="bg-gray-800 rounded-lg p-8 text-center border border-gray-700">
           <p class="text-gray-400 mb-4">No profiles analyzed yet!</p>
           <p class="text-sm text-gray-500 mb-4">
@@ -253,6 +553,13 @@ export default function LeaderboardPage() {
                   >
                     Quick Recips {getSortIcon('quick_reciprocations')}
                   </th>
+                  <th 
+                    class="px-6 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer hover:bg-gray-600 transition-colors"
+                    onClick={() => handleSort('ring_count')}
+                    title="Review rings (A→B→C→A) through this profile"
+                  >
+                    Rings {getSortIcon('ring_count')}
+                  </th>
                   <th 
                     class="px-6 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer hover:bg-gray-600 transition-colors"
                     onClick={() => handleSort('last_analyzed')}
@@ -263,9 +570,15 @@ export default function LeaderboardPage() {
               </thead>
               <tbody class="bg-gray-800 divide-y divide-gray-700">
                 {entries.value.map((entry, index) => (
-                  <tr key={entry.userkey} class={index % 2 === 0 ? "bg-gray-800" : "bg-gray-750"}>
+                  <tr
+                    key={entry.userkey}
+                    id={`entry-${entry.userkey}`}
+                    class={entry.userkey === highlighted.value
+                      ? "bg-blue-900/40 ring-2 ring-inset ring-blue-500"
+                      : index % 2 === 0 ? "bg-gray-800" : "bg-gray-750"}
+                  >
                     <td class="px-6 py-4 whitespace-nowrap text-center">
-                      <div class="text-lg font-bold text-white">#{(currentPage.value - 1) * itemsPerPage.value + index + 1}</div>
+                      <div class="text-lg font-bold text-white">#{entry.rank ?? (currentPage.value - 1) * itemsPerPage.value + index + 1}</div>
                     </td>
                     <td class="px-6 py-4 whitespace-nowrap">
                       <div class="flex items-center">
@@ -285,6 +598,15 @@ export default function LeaderboardPage() {
                             {entry.name}
                           </a>
                           <div class="text-sm text-gray-400">@{entry.username}</div>
+                          {entry.cluster_id && (
+                            <button
+                              type="button"
+                              onClick={() => showCluster(entry.cluster_id!)}
+                              class="text-xs text-orange-400 hover:text-orange-300 hover:underline"
+                            >
+                              🕸️ View cluster
+                            </button>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -325,6 +647,11 @@ export default function LeaderboardPage() {
                         {entry.quick_reciprocations}
                       </div>
                     </td>
+                    <td class="px-6 py-4 text-center">
+                      <div class={`text-lg font-semibold ${entry.ring_count ? 'text-orange-400' : 'text-gray-500'}`}>
+                        {entry.ring_count ?? 0}
+                      </div>
+                    </td>
                     <td class="px-6 py-4 text-center">
                       <div class="text-xs text-gray-400">
                         {formatDate(entry.last_analyzed)}
@@ -342,6 +669,7 @@ export default function LeaderboardPage() {
       {entries.value.length > 0 && totalPages.value > 1 && (
         <div class="mt-6 flex justify-center items-center space-x-2">
           <button
+            type="button"
             onClick={() => handlePageChange(currentPage.value - 1)}
             disabled={currentPage.value === 1}
             class="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
@@ -357,6 +685,7 @@ export default function LeaderboardPage() {
               
               return (
                 <button
+                  type="button"
                   key={pageNumber}
                   onClick={() => handlePageChange(pageNumber)}
                   class={`px-3 py-2 rounded-lg transition-colors ${
@@ -372,6 +701,7 @@ export default function LeaderboardPage() {
           </div>
           
           <button
+            type="button"
             onClick={() => handlePageChange(currentPage.value + 1)}
             disabled={currentPage.value === totalPages.value}
             class="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
@@ -385,11 +715,13 @@ export default function LeaderboardPage() {
       <div class="mt-6 text-center">
         {stats.value && (
           <p class="text-gray-400 text-sm mb-4">
-            Showing {Math.min((currentPage.value - 1) * itemsPerPage.value + 1, stats.value.totalEntries)} - {Math.min(currentPage.value * itemsPerPage.value, stats.value.totalEntries)} of {stats.value.totalEntries} profiles
+            Showing {Math.min((currentPage.value - 1) * itemsPerPage.value + 1, total.value)} - {Math.min(currentPage.value * itemsPerPage.value, total.value)} of {total.value} profiles
+            {hasFilters.value && ` matching filters (${stats.value.totalEntries} total)`}
             {totalPages.value > 1 && ` (Page ${currentPage.value} of ${totalPages.value})`}
           </p>
         )}
         <button
+          type="button"
           onClick={loadLeaderboard}
           class="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
         >
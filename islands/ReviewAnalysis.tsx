@@ -1,6 +1,12 @@
 import { useSignal, useComputed } from "@preact/signals";
 import { useEffect } from "preact/hooks";
 import NetworkGraph from "./NetworkGraph.tsx";
+import { ScoreTrendChart, type ScoreTrendPoint } from "../components/ScoreTrendChart.tsx";
+import {
+  calculateR4rScore,
+  getActivityRating,
+  parseActivityTimestamp as parseTimestamp,
+} from "../utils/r4r-score.ts";
 
 // TypeScript interfaces for Ethos API v2 Activities
 interface EthosActivity {
@@ -37,6 +43,14 @@ interface EthosActivitiesResponse {
   total: number;
   limit: number;
   offset: number;
+  truncated?: boolean;
+}
+
+interface ReviewRing {
+  members: Array<{ userkey: string; username: string }>;
+  length: number;
+  spanHours: number;
+  score: number;
 }
 
 interface ReviewPair {
@@ -69,197 +83,21 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
   const isLoading = useSignal(true);
   const error = useSignal<string | null>(null);
   const userR4rScores = useSignal<Map<string, number>>(new Map()); // Cache R4R scores by username
+  const reviewRings = useSignal<ReviewRing[]>([]);
+  const scoreHistory = useSignal<ScoreTrendPoint[]>([]);
 
   // Computed R4R Score Details
-  const r4rScoreDetails = useComputed(() => {
-    const given = givenReviews.value.filter(r => !r.archived);
-    const received = receivedReviews.value.filter(r => !r.archived);
-    
-    // Count reciprocal reviews - only positive-positive pairs count as true R4R
-    let reciprocalCount = 0;
-    
-    given.forEach(givenReview => {
-      const targetUsername = givenReview.subject.username;
-      const matchingReceived = received.find(r => r.author.username === targetUsername);
-      
-      if (matchingReceived) {
-        // Only count as R4R if BOTH reviews are positive
-        const givenRating = givenReview.data?.score || givenReview.content?.rating;
-        const receivedRating = matchingReceived.data?.score || matchingReceived.content?.rating;
-        
-        if (givenRating === 'positive' && receivedRating === 'positive') {
-          reciprocalCount++;
-        }
-      }
-    });
-
-    // Calculate R4R Score with improved algorithm
-    return received.length > 0 
-      ? (() => {
-          // Base reciprocal percentage (capped at 65% to allow multipliers to reach 100%)
-          const baseScore = Math.min((reciprocalCount / received.length) * 100, 65);
-          
-          // Count suspicious quick reciprocations (under 30 minutes = 0.0208 days)
-          let quickReciprocations = 0;
-          
-          given.forEach(givenReview => {
-            const targetUsername = givenReview.subject.username;
-            const matchingReceived = received.find(r => r.author.username === targetUsername);
-            
-            if (matchingReceived) {
-              // Only analyze timing for positive-positive pairs (true R4R)
-              const givenRating = givenReview.data?.score || givenReview.content?.rating;
-              const receivedRating = matchingReceived.data?.score || matchingReceived.content?.rating;
-              
-              if (givenRating === 'positive' && receivedRating === 'positive') {
-                const givenDate = parseTimestamp(givenReview.timestamp);
-                const receivedDate = parseTimestamp(matchingReceived.timestamp);
-                const timeDiff = Math.abs(givenDate.getTime() - receivedDate.getTime()) / (1000 * 60 * 60 * 24);
-                
-                if (timeDiff < 0.0208) { // Under 30 minutes
-                  quickReciprocations++;
-                }
-              }
-            }
-          });
-          
-          // Calculate suspicious ratio
-          const suspiciousRatio = reciprocalCount > 0 ? quickReciprocations / reciprocalCount : 0;
-          
-          // NEW: Volume-based scoring - higher volume of reciprocals is more suspicious
-          const totalReviews = given.length + received.length;
-          let volumeMultiplier = 1;
-          let volumeReason = "Low volume (<10 reciprocals)";
-          
-          if (reciprocalCount >= 50) {
-            volumeMultiplier = 1.2; // 20% increase for high volume
-            volumeReason = "Very high volume (≥50 reciprocals)";
-          } else if (reciprocalCount >= 20) {
-            volumeMultiplier = 1.15; // 15% increase for medium volume
-            volumeReason = "High volume (20-49 reciprocals)";
-          } else if (reciprocalCount >= 10) {
-            volumeMultiplier = 1.05; // 5% increase for moderate volume
-            volumeReason = "Moderate volume (10-19 reciprocals)";
-          }
-          
-          // NEW: Account for user's time on platform (estimate based on earliest review)
-          let accountAgeMultiplier = 1;
-          let accountAgeReason = "Normal activity rate";
-          let accountAgeDays = 0;
-          let reviewsPerDay = 0;
-          
-          const allReviews = [...given, ...received];
-          if (allReviews.length > 0) {
-            const timestamps = allReviews.map(r => parseTimestamp(r.timestamp).getTime());
-            const earliestReview = Math.min(...timestamps);
-            accountAgeDays = (Date.now() - earliestReview) / (1000 * 60 * 60 * 24);
-            
-            // High activity in short time is suspicious
-            reviewsPerDay = totalReviews / Math.max(accountAgeDays, 1);
-            
-            if (reviewsPerDay > 10 && accountAgeDays < 30) {
-              accountAgeMultiplier = 1.4; // Reduced from 2.0: Major red flag: >10 reviews/day on new account
-              accountAgeReason = `Very high activity: ${reviewsPerDay.toFixed(1)} reviews/day on ${accountAgeDays.toFixed(0)}-day account`;
-            } else if (reviewsPerDay > 5 && accountAgeDays < 60) {
-              accountAgeMultiplier = 1.25; // Reduced from 1.5: High activity on relatively new account
-              accountAgeReason = `High activity: ${reviewsPerDay.toFixed(1)} reviews/day on ${accountAgeDays.toFixed(0)}-day account`;
-            } else if (reviewsPerDay > 2 && accountAgeDays < 90) {
-              accountAgeMultiplier = 1.1; // Reduced from 1.2: Moderate activity on new account
-              accountAgeReason = `Moderate activity: ${reviewsPerDay.toFixed(1)} reviews/day on ${accountAgeDays.toFixed(0)}-day account`;
-            }
-          }
-          
-          // Apply all multipliers to base score
-          let adjustedScore = baseScore * volumeMultiplier * accountAgeMultiplier;
-          
-          // Apply time-based penalties (now on top of multiplied score)
-          let timePenalty = 0;
-          let timePenaltyReason = "No time penalty";
-          
-          if (suspiciousRatio >= 0.8 && quickReciprocations >= 3) {
-            // 80%+ of reciprocals are quick: major red flag, add 10-15 points (reduced from 20-30)
-            timePenalty = 10 + (suspiciousRatio * 5);
-            timePenaltyReason = `Major penalty: ${(suspiciousRatio * 100).toFixed(0)}% quick reciprocals (≥80%)`;
-          } else if (suspiciousRatio >= 0.6 && quickReciprocations >= 3) {
-            // 60-79% of reciprocals are quick: high penalty, add 8-12 points (reduced from 15-25)
-            timePenalty = 8 + (suspiciousRatio * 4);
-            timePenaltyReason = `High penalty: ${(suspiciousRatio * 100).toFixed(0)}% quick reciprocals (60-79%)`;
-          } else if (suspiciousRatio >= 0.4 && quickReciprocations >= 2) {
-            // 40-59% of reciprocals are quick: moderate penalty, add 5-8 points (reduced from 10-20)
-            timePenalty = 5 + (suspiciousRatio * 3);
-            timePenaltyReason = `Moderate penalty: ${(suspiciousRatio * 100).toFixed(0)}% quick reciprocals (40-59%)`;
-          } else if (suspiciousRatio >= 0.2 && quickReciprocations >= 2) {
-            // 20-39% of reciprocals are quick: small penalty, add 2-4 points (reduced from 5-10)
-            timePenalty = 2 + (suspiciousRatio * 2);
-            timePenaltyReason = `Small penalty: ${(suspiciousRatio * 100).toFixed(0)}% quick reciprocals (20-39%)`;
-          }
-          
-          adjustedScore += timePenalty;
-          const finalScore = Math.min(Math.round(adjustedScore), 100);
-          
-          return {
-            baseScore: baseScore,
-            volumeMultiplier: volumeMultiplier,
-            volumeReason: volumeReason,
-            accountAgeMultiplier: accountAgeMultiplier,
-            accountAgeReason: accountAgeReason,
-            accountAgeDays: accountAgeDays,
-            reviewsPerDay: reviewsPerDay,
-            scoreAfterMultipliers: adjustedScore - timePenalty,
-            timePenalty: timePenalty,
-            timePenaltyReason: timePenaltyReason,
-            quickReciprocations: quickReciprocations,
-            suspiciousRatio: suspiciousRatio,
-            finalScore: finalScore
-          };
-        })()
-      : {
-          baseScore: 0,
-          volumeMultiplier: 1,
-          volumeReason: "No reviews received",
-          accountAgeMultiplier: 1,
-          accountAgeReason: "No reviews to analyze",
-          accountAgeDays: 0,
-          reviewsPerDay: 0,
-          scoreAfterMultipliers: 0,
-          timePenalty: 0,
-          timePenaltyReason: "No time penalty",
-          quickReciprocations: 0,
-          suspiciousRatio: 0,
-          finalScore: 0
-        };
-  });
+  const r4rScoreDetails = useComputed(() =>
+    calculateR4rScore(givenReviews.value, receivedReviews.value)
+  );
 
   // Computed statistics
-  const stats = useComputed(() => {
-    const given = givenReviews.value.filter(r => !r.archived);
-    const received = receivedReviews.value.filter(r => !r.archived);
-    
-    // Count reciprocal reviews - only positive-positive pairs count as true R4R
-    let reciprocalCount = 0;
-    
-    given.forEach(givenReview => {
-      const targetUsername = givenReview.subject.username;
-      const matchingReceived = received.find(r => r.author.username === targetUsername);
-      
-      if (matchingReceived) {
-        // Only count as R4R if BOTH reviews are positive
-        const givenRating = givenReview.data?.score || givenReview.content?.rating;
-        const receivedRating = matchingReceived.data?.score || matchingReceived.content?.rating;
-        
-        if (givenRating === 'positive' && receivedRating === 'positive') {
-          reciprocalCount++;
-        }
-      }
-    });
-
-    return {
-      given: given.length,
-      received: received.length,
-      reciprocal: reciprocalCount,
-      r4rScore: r4rScoreDetails.value.finalScore
-    };
-  });
+  const stats = useComputed(() => ({
+    given: r4rScoreDetails.value.reviewsGiven,
+    received: r4rScoreDetails.value.reviewsReceived,
+    reciprocal: r4rScoreDetails.value.reciprocalReviews,
+    r4rScore: r4rScoreDetails.value.finalScore
+  }));
 
   // Function to fetch R4R score for a user
   const fetchR4rScore = async (username: string): Promise<number | undefined> => {
@@ -322,9 +160,9 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
         existing.receivedReview = receivedReview;
         
         // Only count as reciprocal R4R if BOTH reviews are positive
-        const givenRating = existing.givenReview?.data?.score || existing.givenReview?.content?.rating;
-        const receivedRating = receivedReview.data?.score || receivedReview.content?.rating;
-        existing.isReciprocal = (givenRating === 'positive' && receivedRating === 'positive');
+        existing.isReciprocal = !!existing.givenReview &&
+          getActivityRating(existing.givenReview) === 'positive' &&
+          getActivityRating(receivedReview) === 'positive';
         
         // Calculate time difference in days
         if (existing.givenReview && receivedReview) {
@@ -378,17 +216,8 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
   // Save analysis results to database
   const saveAnalysisToDatabase = async () => {
     try {
-      // Calculate quick reciprocations and average time
-      const reciprocalPairs = reviewPairs.value.filter(pair => pair.isReciprocal);
-      const quickReciprocations = reciprocalPairs.filter(pair => 
-        pair.timeDifference !== undefined && pair.timeDifference < 0.0208 // Under 30 minutes
-      ).length;
-      
-      const avgReciprocalTime = reciprocalPairs.length > 0 
-        ? reciprocalPairs.reduce((sum, pair) => sum + (pair.timeDifference || 0), 0) / reciprocalPairs.length
-        : 0;
-
-
+      // Quick reciprocations and average time (hours) from the scoring engine
+      const { quickReciprocations, avgReciprocalTime } = r4rScoreDetails.value;
 
       // Fetch Ethos score and XP
       let ethosScore = 0;
@@ -433,6 +262,7 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
         ethosScore,
         ethosXp,
         highRiskR4rs,
+        analysisVersion: r4rScoreDetails.value.version,
         processingTime: 0 // We can add timing later if needed
       };
 
@@ -445,12 +275,30 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
       if (response.ok) {
         const result = await response.json();
         console.log('✅ Analysis saved to leaderboard:', result);
+      } else if (response.status === 401 || response.status === 403) {
+        // Only analysts can write to the leaderboard
+        console.log('ℹ️ Not saved to leaderboard: sign in as an analyst to save analyses');
       } else {
         console.warn('⚠️ Failed to save analysis to database');
       }
     } catch (error) {
       console.error('❌ Error saving analysis:', error);
     }
+
+    // Load history after saving so this analysis shows up as the latest point
+    await loadScoreHistory();
+  };
+
+  const loadScoreHistory = async () => {
+    try {
+      const response = await fetch(`/api/score-history?userkey=${encodeURIComponent(selectedUser.userkey)}`);
+      if (response.ok) {
+        const data = await response.json();
+        scoreHistory.value = data.history || [];
+      }
+    } catch (historyError) {
+      console.warn('⚠️ Failed to load score history:', historyError);
+    }
   };
 
   // Fetch review data
@@ -465,12 +313,12 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
           fetch("/api/ethos-activities-given", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ userkey: selectedUser.userkey, limit: 500 })
+            body: JSON.stringify({ userkey: selectedUser.userkey, all: true })
           }),
           fetch("/api/ethos-activities-received", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ userkey: selectedUser.userkey, limit: 500 })
+            body: JSON.stringify({ userkey: selectedUser.userkey, all: true })
           })
         ]);
 
@@ -484,6 +332,10 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
         givenReviews.value = givenData.values || [];
         receivedReviews.value = receivedData.values || [];
 
+        if (givenData.truncated || receivedData.truncated) {
+          console.warn(`⚠️ Review history for ${selectedUser.username} was truncated (${givenData.total} given, ${receivedData.total} received)`);
+        }
+
         // Save analysis to database after data is loaded
         // We need to wait a bit for the computed values to update
         setTimeout(() => {
@@ -493,6 +345,9 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
         // Load R4R scores for all users after reviews are loaded
         loadR4rScores();
 
+        // Rings come from the stored review graph, which the fetch above just updated
+        loadReviewRings();
+
       } catch (err) {
         console.error("Error fetching reviews:", err);
         error.value = "Failed to load review data. Please try again.";
@@ -501,6 +356,18 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
       }
     };
 
+    const loadReviewRings = async () => {
+      try {
+        const response = await fetch(`/api/review-rings?userkey=${encodeURIComponent(selectedUser.userkey)}`);
+        if (response.ok) {
+          const data = await response.json();
+          reviewRings.value = data.rings || [];
+        }
+      } catch (ringError) {
+        console.warn('⚠️ Failed to load review rings:', ringError);
+      }
+    };
+
     // Function to load R4R scores for all users in the review pairs
     const loadR4rScores = async () => {
       try {
@@ -561,31 +428,6 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
     }
   };
 
-  const parseTimestamp = (timestamp: string | number): Date => {
-    // Handle different timestamp formats
-    let date: Date;
-    
-    // Convert to string if it's a number
-    const timestampStr = timestamp.toString();
-    
-    // Try parsing as ISO string first
-    if (timestampStr.includes('T') || timestampStr.includes('-')) {
-      date = new Date(timestamp);
-    } else {
-      // Assume it's a Unix timestamp
-      const numTimestamp = typeof timestamp === 'number' ? timestamp : parseInt(timestampStr);
-      // If it's in seconds (10 digits), convert to milliseconds
-      if (numTimestamp.toString().length === 10) {
-        date = new Date(numTimestamp * 1000);
-      } else {
-        // Assume it's already in milliseconds
-        date = new Date(numTimestamp);
-      }
-    }
-    
-    return date;
-  };
-
   const formatDate = (timestamp: string | number) => {
     const date = parseTimestamp(timestamp);
     
@@ -738,9 +580,7 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
           </div>
           {/* Show quick reciprocation count if any exist */}
           {(() => {
-            const quickCount = reviewPairs.value.filter(pair => 
-              pair.isReciprocal && pair.timeDifference !== undefined && pair.timeDifference < 0.0208
-            ).length;
+            const quickCount = r4rScoreDetails.value.quickReciprocations;
             return quickCount > 0 ? (
               <div class="text-xs text-red-600 mt-1 font-medium">
                 {quickCount} quick reciprocation{quickCount !== 1 ? 's' : ''} (&lt;30min)
@@ -847,6 +687,64 @@ export default function ReviewAnalysis({ selectedUser, onClose }: ReviewAnalysis
         </div>
       </div>
 
+      {/* Score History */}
+      {scoreHistory.value.length > 0 && (
+        <div class="bg-gray-800 border border-gray-700 rounded-lg p-4 mb-8">
+          <div class="flex justify-between items-baseline mb-2">
+            <h4 class="text-sm font-medium text-gray-300">
+              R4R Score History ({scoreHistory.value.length} {scoreHistory.value.length === 1 ? 'analysis' : 'analyses'})
+            </h4>
+            {scoreHistory.value.length > 1 && (() => {
+              const history = scoreHistory.value;
+              const change = history[history.length - 1].farming_score - history[history.length - 2].farming_score;
+              return (
+                <span class={`text-xs font-medium ${change > 0 ? 'text-red-400' : change < 0 ? 'text-green-400' : 'text-gray-400'}`}>
+                  {change > 0 ? '▲' : change < 0 ? '▼' : '–'} {Math.abs(change)} since previous analysis
+                </span>
+              );
+            })()}
+          </div>
+          <ScoreTrendChart history={scoreHistory.value} />
+        </div>
+      )}
+
+      {/* Review Rings */}
+      {reviewRings.value.length > 0 && (
+        <div class="bg-orange-900/10 border border-orange-500/30 rounded-lg p-4 mb-8">
+          <h4 class="text-sm font-medium text-orange-400 mb-1">
+            Review Rings ({reviewRings.value.length})
+          </h4>
+          <p class="text-xs text-gray-400 mb-4">
+            Positive reviews passed around a cycle. No pair in a ring is reciprocal, so these don't count toward the R4R score.
+          </p>
+          <div class="space-y-2">
+            {reviewRings.value.slice(0, 10).map((ring) => (
+              <div
+                key={ring.members.map((m) => m.userkey).join('→')}
+                class="flex items-center justify-between bg-gray-800/60 rounded-lg px-3 py-2"
+              >
+                <div class="text-sm text-gray-200 flex flex-wrap items-center gap-1">
+                  {[...ring.members, ring.members[0]].map((member, i) => (
+                    <span key={i}>
+                      {i > 0 && <span class="text-gray-500 mx-1">→</span>}
+                      <a href={`/profile/${member.username}`} class="text-blue-400 hover:text-blue-300 hover:underline">
+                        @{member.username}
+                      </a>
+                    </span>
+                  ))}
+                </div>
+                <div class="text-xs text-gray-400 whitespace-nowrap ml-4">
+                  within {ring.spanHours < 48 ? `${ring.spanHours.toFixed(1)}h` : `${(ring.spanHours / 24).toFixed(1)}d`}
+                  <span class={`ml-3 font-bold ${ring.score >= 70 ? 'text-red-400' : ring.score >= 40 ? 'text-yellow-400' : 'text-gray-300'}`}>
+                    {ring.score}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Network Graph */}
       {reviewPairs.value.length > 0 && (
         <NetworkGraph 
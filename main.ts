@@ -17,8 +17,13 @@ import { start } from "$fresh/server.ts";
 import manifest from "./fresh.gen.ts";
 import config from "./fresh.config.ts";
 import { startScheduler } from "./utils/scheduler.ts";
+import { startJobWorker } from "./utils/r4r-jobs.ts";
+import { bootstrapAdmin } from "./utils/auth.ts";
 
-// Start the job scheduler
+// Start the job scheduler and the worker that runs queued jobs
 startScheduler();
+startJobWorker();
+// Create the first admin from ADMIN_USERNAME / ADMIN_PASSWORD
+bootstrapAdmin();
 
 await start(manifest, config);
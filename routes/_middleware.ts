@@ -0,0 +1,182 @@
+import { FreshContext } from "$fresh/server.ts";
+import {
+  type AuthState,
+  getSessionToken,
+  getSessionUser,
+  hasRole,
+  type Role,
+} from "../utils/auth.ts";
+import { findApiKey, getRequestApiKey, keyClient } from "../utils/api-keys.ts";
+import {
+  ANONYMOUS_RATE_LIMIT,
+  hitRateLimit,
+  rateLimitHeaders,
+  type RateLimitResult,
+} from "../utils/rate-limit.ts";
+
+interface AccessRule {
+  path: RegExp;
+  // All methods when unset
+  methods?: string[];
+  role: Role;
+}
+
+const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// The path and everything below it, for every method or only writes
+const all = (path: string, role: Role): AccessRule => ({
+  path: new RegExp(`^${path}(/|$)`),
+  role,
+});
+const writes = (path: string, role: Role): AccessRule => ({
+  ...all(path, role),
+  methods: WRITE_METHODS,
+});
+
+// First match wins; anything not listed is public. Some routes check for a
+// higher role on individual actions (editing schedules in /api/job-status).
+const ACCESS_RULES: AccessRule[] = [
+  all("/admin", "viewer"),
+  all("/api/users", "admin"),
+  all("/api/api-keys", "admin"),
+  all("/api/job-status/[^/]+/(runs|stream)", "viewer"),
+  writes("/api/job-status", "analyst"),
+  writes("/api/jobs", "analyst"),
+  writes("/api/schedule-r4r-jobs", "analyst"),
+  writes("/api/calculate-r4r-batch", "analyst"),
+  writes("/api/test-batch-simple", "analyst"),
+  writes("/api/update-high-risk-r4rs", "analyst"),
+  writes("/api/recompute-scores", "analyst"),
+  writes("/api/clusters", "analyst"),
+  writes("/api/save-analysis", "analyst"),
+  writes("/api/import-batch-results", "analyst"),
+];
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, X-API-Key, Content-Type",
+};
+
+// Behind a proxy every request comes from the proxy's address
+const TRUST_FORWARDED_FOR = Deno.env.get("TRUST_FORWARDED_FOR") === "true";
+
+const jsonError = (
+  error: string,
+  status: number,
+  headers: HeadersInit = {},
+) =>
+  new Response(JSON.stringify({ ok: false, error }), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+function clientAddress(req: Request, ctx: FreshContext<AuthState>): string {
+  const forwarded = TRUST_FORWARDED_FOR &&
+    req.headers.get("X-Forwarded-For")?.split(",")[0].trim();
+  return forwarded || ctx.remoteAddr.hostname;
+}
+
+// Counts an API request against its key, or its IP address without one.
+// Returns a response to send instead when the request is refused, and the
+// limit state otherwise (null when the database is unavailable, in which case
+// requests go through unthrottled).
+async function limitApiRequest(
+  req: Request,
+  ctx: FreshContext<AuthState>,
+): Promise<Response | RateLimitResult | null> {
+  try {
+    const secret = getRequestApiKey(req);
+    const apiKey = secret ? await findApiKey(secret) : null;
+    if (secret && !apiKey) {
+      return jsonError("Invalid or revoked API key", 401, CORS_HEADERS);
+    }
+
+    const limit = apiKey
+      ? await hitRateLimit(keyClient(apiKey), apiKey.rate_limit_per_minute)
+      : await hitRateLimit(
+        `ip:${clientAddress(req, ctx)}`,
+        ANONYMOUS_RATE_LIMIT,
+      );
+    if (limit.allowed) return limit;
+
+    return jsonError(
+      `Rate limit of ${limit.limit} requests per minute exceeded${
+        apiKey ? "" : ", use an API key for a higher limit"
+      }`,
+      429,
+      {
+        ...CORS_HEADERS,
+        ...rateLimitHeaders(limit),
+        "Retry-After": String(limit.resetIn),
+      },
+    );
+  } catch (error) {
+    if (!(error instanceof Error && error.message.includes("DATABASE_URL"))) {
+      console.error("Error applying rate limit:", error);
+    }
+    return null;
+  }
+}
+
+export async function handler(req: Request, ctx: FreshContext<AuthState>) {
+  ctx.state.user = null;
+  if (ctx.destination !== "route") return ctx.next();
+
+  const token = getSessionToken(req);
+  if (token) {
+    try {
+      ctx.state.user = await getSessionUser(token);
+    } catch (error) {
+      // Without a database nobody is signed in
+      if (!(error instanceof Error && error.message.includes("DATABASE_URL"))) {
+        console.error("Error loading session:", error);
+      }
+    }
+  }
+
+  const isApi = ctx.url.pathname.startsWith("/api/");
+  if (isApi && req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  // Signed-in users of the admin page aren't throttled
+  let limit: RateLimitResult | null = null;
+  if (isApi && !ctx.state.user) {
+    const result = await limitApiRequest(req, ctx);
+    if (result instanceof Response) return result;
+    limit = result;
+  }
+
+  const rule = ACCESS_RULES.find((rule) =>
+    rule.path.test(ctx.url.pathname) &&
+    (!rule.methods || rule.methods.includes(req.method))
+  );
+  if (!rule || hasRole(ctx.state.user, rule.role)) {
+    const response = await ctx.next();
+    if (limit) {
+      try {
+        for (const [name, value] of Object.entries(rateLimitHeaders(limit))) {
+          response.headers.set(name, value);
+        }
+      } catch {
+        // Immutable headers, e.g. a proxied fetch response
+      }
+    }
+    return response;
+  }
+
+  if (!ctx.state.user) {
+    if (isApi) return jsonError("Login required", 401);
+    const next = encodeURIComponent(ctx.url.pathname + ctx.url.search);
+    return new Response(null, {
+      status: 303,
+      headers: { Location: `/login?next=${next}` },
+    });
+  }
+
+  const message = `Requires the ${rule.role} role`;
+  return isApi
+    ? jsonError(message, 403)
+    : new Response(message, { status: 403 });
+}
@@ -1,14 +1,29 @@
 import { PageProps } from "$fresh/server.ts";
 import { JSX } from "preact";
+import type { AuthState } from "../utils/auth.ts";
+
+export default function AdminPage(props: PageProps<unknown, AuthState>) {
+  // Signed in as at least a viewer - see routes/_middleware.ts
+  const user = props.state.user!;
 
-export default function AdminPage(props: PageProps) {
   return (
     <div class="min-h-screen bg-gray-900 text-white">
       <div class="container mx-auto px-4 py-8">
         <div class="max-w-4xl mx-auto">
-          <h1 class="text-3xl font-bold text-blue-400 mb-8">
-            🔧 Ethos R4R Admin Panel
-          </h1>
+          <div class="flex justify-between items-center mb-8">
+            <h1 class="text-3xl font-bold text-blue-400">
+              🔧 Ethos R4R Admin Panel
+            </h1>
+            <form method="POST" action="/logout" class="text-sm text-gray-400">
+              {user.username} ({user.role})
+              <button type="submit" class="ml-3 text-purple-400 hover:underline">Log out</button>
+            </form>
+          </div>
+          {user.role === "viewer" && (
+            <div class="mb-6 text-sm text-yellow-400">
+              You have read-only access. Starting jobs and rescoring need the analyst role.
+            </div>
+          )}
           
           <div class="grid gap-6 md:grid-cols-2">
             {/* Job Scheduler Card */}
@@ -17,24 +32,10 @@ export default function AdminPage(props: PageProps) {
                 📊 R4R Job Scheduler
               </h2>
               <p class="text-gray-300 mb-4">
-                Calculate R4R scores for active Ethos users in batches.
+                Queue R4R analysis for active Ethos users. Queued jobs survive restarts and are retried on failure.
               </p>
               
               <div class="space-y-4">
-                <div>
-                  <label class="block text-sm font-medium text-gray-300 mb-2">
-                    Batch Size (users per batch)
-                  </label>
-                  <input 
-                    type="number" 
-                    id="batchSize"
-                    value="20" 
-                    min="1" 
-                    max="50"
-                    class="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
-                
                 <div>
                   <label class="block text-sm font-medium text-gray-300 mb-2">
                     Max Users to Process
@@ -65,7 +66,7 @@ export default function AdminPage(props: PageProps) {
                   onclick="startJobScheduler()"
                   class="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded transition-colors"
                 >
-                  🚀 Start Job Scheduler
+                  🚀 Queue R4R Batch Job
                 </button>
               </div>
               
@@ -136,12 +137,77 @@ export default function AdminPage(props: PageProps) {
             </div>
           </div>
           
+          {/* Scoring Versions */}
+          <div class="mt-8 bg-gray-800 rounded-lg p-6 border border-gray-700">
+            <h2 class="text-xl font-semibold text-pink-400 mb-4">
+              🧪 Scoring Versions
+            </h2>
+            <p class="text-gray-300 mb-4">
+              Recompute stored profiles under a scoring version. Existing scores are kept, so versions can be compared side by side.
+            </p>
+
+            <div class="grid gap-4 md:grid-cols-3">
+              <div>
+                <label class="block text-sm font-medium text-gray-300 mb-2">
+                  Version to compute
+                </label>
+                <select
+                  id="scoringVersion"
+                  class="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-pink-500"
+                ></select>
+              </div>
+              <div>
+                <label class="block text-sm font-medium text-gray-300 mb-2">
+                  Compare against
+                </label>
+                <select
+                  id="baseScoringVersion"
+                  class="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-pink-500"
+                ></select>
+              </div>
+              <div>
+                <label class="block text-sm font-medium text-gray-300 mb-2">
+                  Profiles to recompute
+                </label>
+                <input
+                  type="number"
+                  id="recomputeLimit"
+                  value="50"
+                  min="1"
+                  max="500"
+                  class="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-pink-500"
+                />
+              </div>
+            </div>
+
+            <div class="grid gap-4 md:grid-cols-2 mt-4">
+              <button type="button"
+                onclick="recomputeScores()"
+                class="bg-pink-600 hover:bg-pink-700 text-white font-bold py-2 px-4 rounded transition-colors"
+              >
+                🔁 Recompute Scores
+              </button>
+              <button type="button"
+                onclick="compareScoringVersions()"
+                class="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded transition-colors"
+              >
+                ⚖️ Compare Versions
+              </button>
+            </div>
+
+            <div id="scoringResults" class="mt-4 hidden">
+              <div class="bg-gray-700 rounded p-3">
+                <div id="scoringResultsContent" class="text-sm text-gray-300"></div>
+              </div>
+            </div>
+          </div>
+
           {/* Quick Actions */}
           <div class="mt-8 bg-gray-800 rounded-lg p-6 border border-gray-700">
             <h2 class="text-xl font-semibold text-yellow-400 mb-4">
               ⚡ Quick Actions
             </h2>
-            <div class="grid gap-4 md:grid-cols-3">
+            <div class="grid gap-4 md:grid-cols-4">
               <a 
                 href="/leaderboard" 
                 class="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded text-center transition-colors"
@@ -160,9 +226,34 @@ export default function AdminPage(props: PageProps) {
               >
                 📥 Export Data
               </button>
+              <button type="button"
+                onclick="detectClusters()"
+                class="bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded transition-colors"
+              >
+                🕸️ Detect Clusters
+              </button>
             </div>
           </div>
           
+          {/* Scheduled Jobs */}
+          <div class="mt-8 bg-gray-800 rounded-lg p-6 border border-gray-700">
+            <h2 class="text-xl font-semibold text-yellow-400 mb-4">
+              ⏰ Scheduled Jobs
+            </h2>
+            <p class="text-gray-300 mb-4">
+              Recurring jobs run on cron expressions (minute hour day month weekday) in the given timezone.
+              Missed runs are either skipped or caught up once.
+            </p>
+            <div id="scheduledJobs" class="space-y-4 text-gray-300">Loading...</div>
+            <div class="bg-gray-700 rounded p-4 mt-4 text-gray-300">
+              <div class="flex justify-between items-center">
+                <strong>Manual Batch Runs</strong>
+                <button type="button" onclick="toggleJobHistory('r4r-batch-manual')" class="bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded text-xs">📜 History</button>
+              </div>
+              <div id="history-r4r-batch-manual" class="hidden mt-3"></div>
+            </div>
+          </div>
+
           {/* System Status */}
           <div class="mt-8 bg-gray-800 rounded-lg p-6 border border-gray-700">
             <h2 class="text-xl font-semibold text-cyan-400 mb-4">
@@ -177,12 +268,62 @@ export default function AdminPage(props: PageProps) {
                 <span>Total Users in DB:</span>
                 <span id="totalUsers" class="text-blue-400">Loading...</span>
               </div>
-              <div class="flex justify-between py-2">
+              <div class="flex justify-between py-2 border-b border-gray-700">
                 <span>Last Update:</span>
                 <span id="lastUpdate" class="text-yellow-400">Loading...</span>
               </div>
+              <div class="flex justify-between py-2 border-b border-gray-700">
+                <span>Job Queue:</span>
+                <a id="queueStatus" href="/api/jobs" class="text-purple-400 hover:underline">Loading...</a>
+              </div>
+              <div class="flex justify-between py-2">
+                <span>Discovered Profiles:</span>
+                <a id="discoveryStatus" href="/api/discovery" class="text-green-400 hover:underline">Loading...</a>
+              </div>
             </div>
           </div>
+
+          {/* Users */}
+          {user.role === "admin" && (
+            <div class="mt-8 bg-gray-800 rounded-lg p-6 border border-gray-700">
+              <h2 class="text-xl font-semibold text-pink-400 mb-4">
+                👥 Users
+              </h2>
+              <p class="text-gray-300 mb-4">
+                Viewers can open this page, analysts can also run jobs and save analyses, admins can also edit schedules and manage users.
+              </p>
+              <div id="userList" class="text-gray-300 text-sm">Loading...</div>
+              <div class="grid gap-3 md:grid-cols-4 mt-4 text-sm">
+                <input id="newUsername" placeholder="Username" class="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white" />
+                <input id="newPassword" type="password" placeholder="Password (10+ characters)" class="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white" />
+                <select id="newRole" class="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white">
+                  <option value="viewer">Viewer</option>
+                  <option value="analyst">Analyst</option>
+                  <option value="admin">Admin</option>
+                </select>
+                <button type="button" onclick="createUser()" class="bg-pink-600 hover:bg-pink-700 text-white font-bold py-1 px-3 rounded">➕ Add user</button>
+              </div>
+            </div>
+          )}
+
+          {/* API keys */}
+          {user.role === "admin" && (
+            <div class="mt-8 bg-gray-800 rounded-lg p-6 border border-gray-700">
+              <h2 class="text-xl font-semibold text-amber-400 mb-4">
+                🔑 API Keys
+              </h2>
+              <p class="text-gray-300 mb-4">
+                API clients without a key are limited per IP address. Clients send a key as <code>Authorization: Bearer r4r_...</code> or <code>X-API-Key</code> to get the key's own limit.
+              </p>
+              <div id="apiKeyList" class="text-gray-300 text-sm">Loading...</div>
+              <div class="grid gap-3 md:grid-cols-3 mt-4 text-sm">
+                <input id="newApiKeyName" placeholder="Name (who is it for?)" class="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white" />
+                <input id="newApiKeyLimit" type="number" min="1" placeholder="Requests per minute" class="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white" />
+                <button type="button" onclick="createApiKey()" class="bg-amber-600 hover:bg-amber-700 text-white font-bold py-1 px-3 rounded">➕ Mint key</button>
+              </div>
+              <div id="newApiKey" class="mt-4 text-sm"></div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -191,8 +332,300 @@ export default function AdminPage(props: PageProps) {
           // Load system status on page load
           document.addEventListener('DOMContentLoaded', function() {
             loadSystemStatus();
+            loadScoringVersions();
+            loadScheduledJobs();
+            if (document.getElementById('userList')) loadUsers();
+            if (document.getElementById('apiKeyList')) loadApiKeys();
           });
 
+          async function loadUsers() {
+            const container = document.getElementById('userList');
+            try {
+              const response = await fetch('/api/users');
+              const result = await response.json();
+              if (!result.ok) {
+                container.innerHTML = \`<div class="text-red-400">❌ \${result.error}</div>\`;
+                return;
+              }
+              container.innerHTML = \`
+                <table class="w-full">
+                  <thead class="text-gray-400 text-left">
+                    <tr><th>User</th><th>Role</th><th>Last login</th><th></th></tr>
+                  </thead>
+                  <tbody>\${result.users.map(user => \`
+                    <tr class="border-t border-gray-700">
+                      <td class="py-1">\${user.username}</td>
+                      <td>
+                        <select onchange="updateUser(\${user.id}, { role: this.value })" class="bg-gray-700 border border-gray-600 rounded text-white">
+                          \${result.roles.map(role => \`<option value="\${role}" \${role === user.role ? 'selected' : ''}>\${role}</option>\`).join('')}
+                        </select>
+                      </td>
+                      <td>\${user.last_login_at ? new Date(user.last_login_at).toLocaleString() : 'Never'}</td>
+                      <td class="space-x-2 text-right">
+                        <button onclick="resetPassword(\${user.id}, '\${user.username}')" class="text-purple-400 hover:underline">Reset password</button>
+                        <button onclick="deleteUser(\${user.id}, '\${user.username}')" class="text-red-400 hover:underline">Delete</button>
+                      </td>
+                    </tr>
+                  \`).join('')}</tbody>
+                </table>
+              \`;
+            } catch (error) {
+              container.innerHTML = \`<div class="text-red-400">❌ Network Error: \${error.message}</div>\`;
+            }
+          }
+
+          async function postUsers(body) {
+            try {
+              const response = await fetch('/api/users', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body)
+              });
+              const result = await response.json();
+              if (!result.ok) alert(result.error);
+              loadUsers();
+              return result.ok;
+            } catch (error) {
+              alert(\`Network Error: \${error.message}\`);
+              return false;
+            }
+          }
+
+          async function createUser() {
+            const created = await postUsers({
+              action: 'create',
+              username: document.getElementById('newUsername').value.trim(),
+              password: document.getElementById('newPassword').value,
+              role: document.getElementById('newRole').value
+            });
+            if (created) {
+              document.getElementById('newUsername').value = '';
+              document.getElementById('newPassword').value = '';
+            }
+          }
+
+          function updateUser(id, changes) {
+            return postUsers({ action: 'update', id, ...changes });
+          }
+
+          function resetPassword(id, username) {
+            const password = prompt(\`New password for \${username} (signs them out everywhere)\`);
+            if (password) updateUser(id, { password });
+          }
+
+          function deleteUser(id, username) {
+            if (confirm(\`Delete \${username}?\`)) postUsers({ action: 'delete', id });
+          }
+
+          function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+          }
+
+          async function loadApiKeys() {
+            const container = document.getElementById('apiKeyList');
+            try {
+              const response = await fetch('/api/api-keys');
+              const result = await response.json();
+              if (!result.ok) {
+                container.innerHTML = \`<div class="text-red-400">❌ \${result.error}</div>\`;
+                return;
+              }
+              document.getElementById('newApiKeyLimit').placeholder = \`Requests per minute (default \${result.defaultRateLimit})\`;
+              const keyRows = result.keys.map(key => \`
+                <tr class="border-t border-gray-700 \${key.revoked_at ? 'text-gray-500' : ''}">
+                  <td class="py-1">\${escapeHtml(key.name)}<div class="text-xs text-gray-500">\${key.key_prefix}… by \${escapeHtml(key.created_by || 'unknown')}</div></td>
+                  <td>
+                    \${key.revoked_at
+                      ? key.rate_limit_per_minute
+                      : \`<input type="number" min="1" value="\${key.rate_limit_per_minute}" onchange="updateApiKeyLimit(\${key.id}, this.value)" class="w-24 px-1 bg-gray-700 border border-gray-600 rounded text-white" />\`}/min
+                  </td>
+                  <td>\${key.requests_today}\${key.throttled_today ? \` <span class="text-red-400">(\${key.throttled_today} throttled)</span>\` : ''}</td>
+                  <td>\${key.requests_7d}</td>
+                  <td>\${key.last_used_at ? new Date(key.last_used_at).toLocaleString() : 'Never'}</td>
+                  <td class="text-right">
+                    \${key.revoked_at
+                      ? \`Revoked \${new Date(key.revoked_at).toLocaleDateString()}\`
+                      : \`<button onclick="revokeApiKey(\${key.id})" class="text-red-400 hover:underline">Revoke</button>\`}
+                  </td>
+                </tr>
+              \`).join('');
+              const anonymousRows = result.anonymous.map(client => \`
+                <tr class="border-t border-gray-700">
+                  <td class="py-1">\${escapeHtml(client.client.slice(3))}</td>
+                  <td>\${result.anonymousRateLimit}/min</td>
+                  <td>\${client.requests}\${client.throttled ? \` <span class="text-red-400">(\${client.throttled} throttled)</span>\` : ''}</td>
+                  <td colspan="3"></td>
+                </tr>
+              \`).join('');
+              container.innerHTML = \`
+                <table class="w-full">
+                  <thead class="text-gray-400 text-left">
+                    <tr><th>Key</th><th>Limit</th><th>Today</th><th>7 days</th><th>Last used</th><th></th></tr>
+                  </thead>
+                  <tbody>\${keyRows || '<tr><td colspan="6" class="py-1 text-gray-500">No keys yet</td></tr>'}</tbody>
+                  \${anonymousRows ? \`
+                    <thead class="text-gray-400 text-left">
+                      <tr><th class="pt-4" colspan="6">Busiest clients without a key today</th></tr>
+                    </thead>
+                    <tbody>\${anonymousRows}</tbody>
+                  \` : ''}
+                </table>
+              \`;
+            } catch (error) {
+              container.innerHTML = \`<div class="text-red-400">❌ Network Error: \${error.message}</div>\`;
+            }
+          }
+
+          async function postApiKeys(body) {
+            try {
+              const response = await fetch('/api/api-keys', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body)
+              });
+              const result = await response.json();
+              if (!result.ok) alert(result.error);
+              loadApiKeys();
+              return result;
+            } catch (error) {
+              alert(\`Network Error: \${error.message}\`);
+              return { ok: false };
+            }
+          }
+
+          async function createApiKey() {
+            const limit = document.getElementById('newApiKeyLimit').value;
+            const result = await postApiKeys({
+              action: 'create',
+              name: document.getElementById('newApiKeyName').value.trim(),
+              rateLimitPerMinute: limit ? parseInt(limit) : undefined
+            });
+            if (!result.ok) return;
+
+            document.getElementById('newApiKeyName').value = '';
+            document.getElementById('newApiKeyLimit').value = '';
+            document.getElementById('newApiKey').innerHTML = \`
+              <div class="bg-gray-900 border border-amber-600 rounded p-3">
+                <div class="text-amber-400 mb-1">Copy this key for \${escapeHtml(result.apiKey.name)} now, it won't be shown again:</div>
+                <code class="break-all select-all text-white">\${result.key}</code>
+              </div>
+            \`;
+          }
+
+          function updateApiKeyLimit(id, limit) {
+            return postApiKeys({ action: 'update', id, rateLimitPerMinute: parseInt(limit) });
+          }
+
+          function revokeApiKey(id) {
+            if (confirm('Revoke this key? Clients using it will get 401 responses.')) {
+              postApiKeys({ action: 'revoke', id });
+            }
+          }
+
+          async function loadScoringVersions() {
+            try {
+              const response = await fetch('/api/recompute-scores');
+              const data = await response.json();
+              if (!data.ok) return;
+
+              const options = data.versions.map(v =>
+                \`<option value="\${v.version}">\${v.version}\${v.current ? ' (current)' : ''} - \${v.description}</option>\`
+              ).join('');
+              document.getElementById('scoringVersion').innerHTML = options;
+              document.getElementById('baseScoringVersion').innerHTML = options;
+              document.getElementById('baseScoringVersion').value = data.currentVersion;
+            } catch (error) {
+              console.error('Failed to load scoring versions:', error);
+            }
+          }
+
+          function renderScoringComparison(comparison) {
+            if (!comparison || comparison.rows.length === 0) {
+              return '<div class="text-gray-400">No scores computed for this version yet.</div>';
+            }
+            return \`
+              <div class="max-h-64 overflow-y-auto">
+                <table class="w-full text-xs">
+                  <thead>
+                    <tr class="text-gray-400">
+                      <th class="text-left py-1">User</th>
+                      <th class="text-right py-1">\${comparison.baseVersion}</th>
+                      <th class="text-right py-1">\${comparison.version}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    \${comparison.rows.map(r => \`
+                      <tr>
+                        <td class="py-1">@\${r.username}</td>
+                        <td class="text-right py-1">\${r.base_score ?? '—'}\${r.base_score !== null ? '%' : ''}</td>
+                        <td class="text-right py-1">\${r.candidate_score}%</td>
+                      </tr>
+                    \`).join('')}
+                  </tbody>
+                </table>
+              </div>
+            \`;
+          }
+
+          async function compareScoringVersions() {
+            const version = document.getElementById('scoringVersion').value;
+            const baseVersion = document.getElementById('baseScoringVersion').value;
+            const params = new URLSearchParams({ version, baseVersion });
+
+            document.getElementById('scoringResults').classList.remove('hidden');
+            document.getElementById('scoringResultsContent').textContent = 'Loading comparison...';
+
+            try {
+              const response = await fetch(\`/api/recompute-scores?\${params}\`);
+              const data = await response.json();
+              document.getElementById('scoringResultsContent').innerHTML = data.ok
+                ? renderScoringComparison(data.comparison)
+                : \`<div class="text-red-400">❌ Error: \${data.error}</div>\`;
+            } catch (error) {
+              document.getElementById('scoringResultsContent').innerHTML = \`
+                <div class="text-red-400">❌ Network Error: \${error.message}</div>
+              \`;
+            }
+          }
+
+          async function recomputeScores() {
+            const version = document.getElementById('scoringVersion').value;
+            const limit = parseInt(document.getElementById('recomputeLimit').value);
+
+            document.getElementById('scoringResults').classList.remove('hidden');
+            document.getElementById('scoringResultsContent').textContent = \`Recomputing up to \${limit} profiles under \${version}...\`;
+
+            try {
+              const response = await fetch('/api/recompute-scores', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ version, limit })
+              });
+              const result = await response.json();
+
+              if (result.ok) {
+                const data = result.data;
+                document.getElementById('scoringResultsContent').innerHTML = \`
+                  <div class="space-y-2">
+                    <div>✅ <strong>Recomputed:</strong> \${data.processed}/\${data.total} profiles under \${data.version}</div>
+                    \${data.errors.length > 0 ? \`<div class="text-red-400">❌ Errors: \${data.errors.length}</div>\` : ''}
+                  </div>
+                \`;
+                compareScoringVersions();
+              } else {
+                document.getElementById('scoringResultsContent').innerHTML = \`
+                  <div class="text-red-400">❌ Error: \${result.error}</div>
+                \`;
+              }
+            } catch (error) {
+              document.getElementById('scoringResultsContent').innerHTML = \`
+                <div class="text-red-400">❌ Network Error: \${error.message}</div>
+              \`;
+            }
+          }
+
           async function loadSystemStatus() {
             try {
               const response = await fetch('/api/leaderboard');
@@ -212,23 +645,356 @@ export default function AdminPage(props: PageProps) {
               document.getElementById('totalUsers').textContent = 'Error';
               document.getElementById('lastUpdate').textContent = 'Error';
             }
+
+            try {
+              const response = await fetch('/api/jobs?limit=1');
+              const data = await response.json();
+              if (data.ok) {
+                const { pending, running, paused, completed, dead } = data.stats;
+                document.getElementById('queueStatus').textContent =
+                  \`\${pending} pending · \${running} running · \${paused} paused · \${completed} done · \${dead} dead\`;
+              }
+            } catch (error) {
+              document.getElementById('queueStatus').textContent = 'Error';
+            }
+
+            try {
+              const response = await fetch('/api/discovery');
+              const data = await response.json();
+              if (data.ok && data.stats) {
+                const { total, crawled, analyzed, discoveredLastDay } = data.stats;
+                document.getElementById('discoveryStatus').textContent =
+                  \`\${total} known · \${crawled} crawled · \${analyzed} analyzed · +\${discoveredLastDay} today\`;
+              } else {
+                document.getElementById('discoveryStatus').textContent = data.message ? 'Not configured' : 'Error';
+              }
+            } catch (error) {
+              document.getElementById('discoveryStatus').textContent = 'Error';
+            }
+          }
+
+          async function loadScheduledJobs() {
+            const container = document.getElementById('scheduledJobs');
+            try {
+              const response = await fetch('/api/job-status');
+              const result = await response.json();
+              if (!result.ok) {
+                container.innerHTML = \`<div class="text-red-400">❌ \${result.error}</div>\`;
+                return;
+              }
+              if (result.data.jobs.length === 0) {
+                container.textContent = result.message || 'No scheduled jobs';
+                return;
+              }
+              container.innerHTML = result.data.jobs.map(renderScheduledJob).join('');
+            } catch (error) {
+              container.innerHTML = \`<div class="text-red-400">❌ Network Error: \${error.message}</div>\`;
+            }
+          }
+
+          function renderScheduledJob(job) {
+            const inputClass = 'w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm';
+            const nextRun = job.enabled && job.nextRun
+              ? \`\${new Date(job.nextRun).toLocaleString()} (in \${job.nextRunIn})\`
+              : 'Disabled';
+            return \`
+              <div class="bg-gray-700 rounded p-4" data-job-id="\${job.id}">
+                <div class="flex justify-between mb-3">
+                  <strong>\${job.name}</strong>
+                  <span class="text-xs \${job.isRunning ? 'text-yellow-400' : 'text-gray-400'}" title="\${job.lock.holder ? 'Last fired by ' + job.lock.holder : ''}">
+                    \${job.lock.held ? \`🔒 Firing on \${job.lock.holder}\` : ''}
+                    \${job.lock.queueStatus === 'running' ? \`Running job #\${job.lock.queueJobId} on \${job.lock.runner}\` : ''}
+                    \${job.lock.queueStatus === 'pending' ? \`Job #\${job.lock.queueJobId} queued\` : ''}
+                    \${!job.lock.held && !job.isRunning ? 'Idle' : ''}
+                  </span>
+                </div>
+                <div class="grid gap-3 md:grid-cols-4 text-sm">
+                  <label>Cron
+                    <input class="\${inputClass} font-mono" name="cronExpression" value="\${job.cronExpression}" />
+                  </label>
+                  <label>Timezone
+                    <input class="\${inputClass}" name="timezone" value="\${job.timezone}" />
+                  </label>
+                  <label>Missed runs
+                    <select class="\${inputClass}" name="catchUp">
+                      <option value="skip" \${job.catchUp === 'skip' ? 'selected' : ''}>Skip</option>
+                      <option value="run_once" \${job.catchUp === 'run_once' ? 'selected' : ''}>Run once</option>
+                    </select>
+                  </label>
+                  <label class="flex items-center gap-2 mt-5">
+                    <input type="checkbox" name="enabled" \${job.enabled ? 'checked' : ''} /> Enabled
+                  </label>
+                </div>
+                <div class="flex justify-between items-center mt-3 text-xs text-gray-400">
+                  <span>Next: \${nextRun} · Last: \${job.lastRun ? new Date(job.lastRun).toLocaleString() : 'Never'}</span>
+                  <span class="space-x-2">
+                    <button onclick="saveScheduledJob('\${job.id}')" class="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-1 px-3 rounded">💾 Save</button>
+                    <button onclick="runScheduledJob('\${job.id}')" class="bg-green-600 hover:bg-green-700 text-white font-bold py-1 px-3 rounded">▶️ Run now</button>
+                    <button onclick="toggleJobHistory('\${job.id}')" class="bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded">📜 History</button>
+                  </span>
+                </div>
+                <div id="history-\${job.id}" class="hidden mt-3"></div>
+              </div>
+            \`;
+          }
+
+          async function saveScheduledJob(jobId) {
+            const row = document.querySelector(\`[data-job-id="\${jobId}"]\`);
+            const field = (name) => row.querySelector(\`[name="\${name}"]\`);
+            try {
+              const response = await fetch('/api/job-status', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                  action: 'update',
+                  jobId,
+                  cronExpression: field('cronExpression').value.trim(),
+                  timezone: field('timezone').value.trim(),
+                  catchUp: field('catchUp').value,
+                  enabled: field('enabled').checked
+                })
+              });
+              const result = await response.json();
+              if (!result.ok) {
+                alert(\`Save failed: \${result.error}\`);
+                return;
+              }
+              loadScheduledJobs();
+            } catch (error) {
+              alert(\`Network Error: \${error.message}\`);
+            }
+          }
+
+          async function runScheduledJob(jobId) {
+            try {
+              const response = await fetch('/api/job-status', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action: 'run', jobId })
+              });
+              const result = await response.json();
+              alert(result.message);
+              loadScheduledJobs();
+              loadSystemStatus();
+            } catch (error) {
+              alert(\`Network Error: \${error.message}\`);
+            }
+          }
+
+          const RUN_STATUS_COLORS = {
+            queued: 'text-gray-400',
+            running: 'text-yellow-400',
+            succeeded: 'text-green-400',
+            partial: 'text-orange-400',
+            failed: 'text-red-400',
+            skipped: 'text-gray-500',
+            paused: 'text-blue-400',
+            cancelled: 'text-gray-500'
+          };
+
+          function toggleJobHistory(jobId) {
+            const container = document.getElementById(\`history-\${jobId}\`);
+            if (!container.classList.contains('hidden')) {
+              container.classList.add('hidden');
+              return;
+            }
+            container.classList.remove('hidden');
+            container.innerHTML = '<div class="text-xs text-gray-400">Loading...</div>';
+            loadJobHistory(jobId);
+          }
+
+          async function loadJobHistory(jobId) {
+            const container = document.getElementById(\`history-\${jobId}\`);
+
+            try {
+              const response = await fetch(\`/api/job-status/\${jobId}/runs?limit=20\`);
+              const result = await response.json();
+              if (!result.ok) {
+                container.innerHTML = \`<div class="text-red-400 text-xs">❌ \${result.error}</div>\`;
+                return;
+              }
+              if (result.runs.length === 0) {
+                container.innerHTML = \`<div class="text-xs text-gray-400">\${result.message || 'No runs recorded yet'}</div>\`;
+                return;
+              }
+              container.innerHTML = \`
+                <table class="w-full text-xs">
+                  <thead class="text-gray-400 text-left">
+                    <tr><th>Run</th><th>Started</th><th>Duration</th><th>Status</th><th>Processed</th><th>Failed</th><th></th></tr>
+                  </thead>
+                  <tbody>\${result.runs.map(run => renderJobRun(jobId, run)).join('')}</tbody>
+                </table>
+              \`;
+            } catch (error) {
+              container.innerHTML = \`<div class="text-red-400 text-xs">❌ Network Error: \${error.message}</div>\`;
+            }
+          }
+
+          function renderJobRun(jobId, run) {
+            const started = run.started_at || run.created_at;
+            const duration = run.durationMs !== null ? \`\${Math.round(run.durationMs / 1000)}s\` : '-';
+            const total = run.total !== null ? \`/\${run.total}\` : '';
+            return \`
+              <tr class="border-t border-gray-600">
+                <td>#\${run.id} <span class="text-gray-400">\${escapeHtml(run.triggered_by)}</span></td>
+                <td>\${new Date(started).toLocaleString()}</td>
+                <td>\${duration}</td>
+                <td class="\${RUN_STATUS_COLORS[run.status] || ''}">\${run.status}</td>
+                <td>\${run.processed}\${total}</td>
+                <td>\${run.failed}</td>
+                <td class="space-x-2 whitespace-nowrap">
+                  \${['queued', 'running'].includes(run.status) ? \`<button onclick="controlJobRun('\${jobId}', \${run.id}, 'pause')" class="text-blue-400 hover:underline">Pause</button>\` : ''}
+                  \${run.status === 'paused' ? \`<button onclick="controlJobRun('\${jobId}', \${run.id}, 'resume')" class="text-green-400 hover:underline">Resume</button>\` : ''}
+                  \${['queued', 'running', 'paused'].includes(run.status) ? \`<button onclick="controlJobRun('\${jobId}', \${run.id}, 'cancel')" class="text-red-400 hover:underline">Cancel</button>\` : ''}
+                  \${['queued', 'running', 'paused'].includes(run.status) ? \`<button onclick="watchJobRun('\${jobId}', \${run.id})" class="text-yellow-400 hover:underline">Live</button>\` : ''}
+                  <button onclick="showJobRun('\${jobId}', \${run.id})" class="text-purple-400 hover:underline">Details</button>
+                </td>
+              </tr>
+              <tr id="run-\${run.id}" class="hidden"><td colspan="7"></td></tr>
+            \`;
+          }
+
+          async function controlJobRun(jobId, runId, action) {
+            if (action === 'cancel' && !confirm(\`Cancel run #\${runId}? Profiles not analyzed yet are dropped.\`)) {
+              return;
+            }
+            try {
+              const response = await fetch('/api/job-status', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action, runId })
+              });
+              const result = await response.json();
+              if (!result.ok) alert(result.message || result.error);
+              document.getElementById(\`history-\${jobId}\`).classList.remove('hidden');
+              loadJobHistory(jobId);
+              loadSystemStatus();
+            } catch (error) {
+              alert(\`Network Error: \${error.message}\`);
+            }
+          }
+
+          // Open EventSources by run id, so a run is only followed once
+          const liveRuns = {};
+
+          function watchJobRun(jobId, runId) {
+            const row = document.getElementById(\`run-\${runId}\`);
+            row.classList.remove('hidden');
+            followJobRun(jobId, runId, row.firstElementChild);
+          }
+
+          // Live progress bar and scrolling log fed by the run's event stream
+          function followJobRun(jobId, runId, container) {
+            if (liveRuns[runId]) liveRuns[runId].close();
+            container.innerHTML = \`
+              <div class="bg-gray-800 rounded p-2 my-1 text-xs">
+                <div class="flex justify-between mb-1">
+                  <span data-live="status">Connecting...</span>
+                  <span data-live="count"></span>
+                </div>
+                <div class="w-full bg-gray-600 rounded h-2">
+                  <div data-live="bar" class="bg-green-500 h-2 rounded transition-all" style="width: 0%"></div>
+                </div>
+                <div data-live="log" class="mt-2 max-h-64 overflow-y-auto font-mono"></div>
+              </div>
+            \`;
+            const part = (name) => container.querySelector(\`[data-live="\${name}"]\`);
+            const log = part('log');
+
+            const appendLine = (at, text, className) => {
+              const following = log.scrollTop + log.clientHeight >= log.scrollHeight - 4;
+              const line = document.createElement('div');
+              if (className) line.className = className;
+              line.textContent = \`\${new Date(at).toLocaleTimeString()} \${text}\`;
+              log.appendChild(line);
+              if (following) log.scrollTop = log.scrollHeight;
+            };
+
+            const showProgress = ({ status, total, processed, failed }) => {
+              const statusEl = part('status');
+              statusEl.textContent = \`Run #\${runId}: \${status}\`;
+              statusEl.className = RUN_STATUS_COLORS[status] || '';
+              if (total === null) {
+                part('count').textContent = 'Selecting profiles...';
+                return;
+              }
+              const done = processed + failed;
+              part('count').textContent = \`\${done}/\${total} profiles · \${failed} failed\`;
+              part('bar').style.width = \`\${total > 0 ? Math.round(done / total * 100) : 100}%\`;
+              part('bar').className = \`\${failed > 0 ? 'bg-orange-500' : 'bg-green-500'} h-2 rounded transition-all\`;
+            };
+
+            const source = new EventSource(\`/api/job-status/\${jobId}/stream?runId=\${runId}\`);
+            liveRuns[runId] = source;
+
+            source.addEventListener('progress', (event) => showProgress(JSON.parse(event.data)));
+            source.addEventListener('log', (event) => {
+              const line = JSON.parse(event.data);
+              appendLine(line.at, line.message);
+            });
+            source.addEventListener('failure', (event) => {
+              const failure = JSON.parse(event.data);
+              appendLine(failure.at, \`❌ \${failure.item || 'Run'}: \${failure.error}\`, 'text-red-400');
+            });
+            source.addEventListener('done', (event) => {
+              source.close();
+              delete liveRuns[runId];
+              const result = JSON.parse(event.data);
+              if (result.error) {
+                part('status').textContent = \`❌ \${result.error}\`;
+                part('status').className = 'text-red-400';
+              } else {
+                showProgress(result);
+              }
+              loadSystemStatus();
+            });
+          }
+
+          async function showJobRun(jobId, runId) {
+            const row = document.getElementById(\`run-\${runId}\`);
+            if (!row.classList.contains('hidden')) {
+              row.classList.add('hidden');
+              return;
+            }
+
+            try {
+              const response = await fetch(\`/api/job-status/\${jobId}/runs?runId=\${runId}\`);
+              const result = await response.json();
+              if (!result.ok) {
+                alert(result.error);
+                return;
+              }
+              const { errors, logs } = result.run;
+              if (liveRuns[runId]) {
+                liveRuns[runId].close();
+                delete liveRuns[runId];
+              }
+              row.firstElementChild.innerHTML = \`
+                <div class="bg-gray-800 rounded p-2 my-1 max-h-64 overflow-y-auto font-mono">
+                  \${errors.filter(e => !e.item).map(e => \`<div class="text-red-400">\${new Date(e.at).toLocaleTimeString()} \${escapeHtml(e.error)}</div>\`).join('')}
+                  \${logs.map(line => \`<div>\${new Date(line.at).toLocaleTimeString()} \${escapeHtml(line.message)}</div>\`).join('') || '<div class="text-gray-400">No log lines</div>'}
+                </div>
+              \`;
+              row.classList.remove('hidden');
+            } catch (error) {
+              alert(\`Network Error: \${error.message}\`);
+            }
           }
 
           async function startJobScheduler() {
-            const batchSize = parseInt(document.getElementById('batchSize').value);
             const maxUsers = parseInt(document.getElementById('maxUsers').value);
             const onlyHighActivity = document.getElementById('onlyHighActivity').checked;
             
             // Show status
             document.getElementById('jobStatus').classList.remove('hidden');
             document.getElementById('jobResults').classList.add('hidden');
-            document.getElementById('jobProgress').textContent = 'Starting job scheduler...';
+            document.getElementById('jobProgress').textContent = 'Queueing batch job...';
             
             try {
               const response = await fetch('/api/schedule-r4r-jobs', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ batchSize, maxUsers, onlyHighActivity })
+                body: JSON.stringify({ maxUsers, onlyHighActivity })
               });
               
               const result = await response.json();
@@ -241,12 +1007,17 @@ export default function AdminPage(props: PageProps) {
                 const data = result.data;
                 document.getElementById('jobResultsContent').innerHTML = \`
                   <div class="space-y-2">
-                    <div>✅ <strong>Success!</strong></div>
-                    <div>📊 Processed: \${data.processedUsers}/\${data.totalUsers} users</div>
-                    <div>📦 Batches: \${data.successfulBatches}/\${data.totalBatches} successful</div>
-                    \${data.errors.length > 0 ? \`<div class="text-red-400">❌ Errors: \${data.errors.length}</div>\` : ''}
+                    <div>✅ <strong>Queued job #\${data.jobId}</strong></div>
+                    <div>The worker will queue an analysis job for each active profile.</div>
+                    <div class="space-x-3">
+                      <a href="/api/job-status/r4r-batch-manual/runs?runId=\${data.runId}" class="text-purple-400 hover:underline">View run log →</a>
+                      <button onclick="controlJobRun('r4r-batch-manual', \${data.runId}, 'pause')" class="text-blue-400 hover:underline">Pause</button>
+                      <button onclick="controlJobRun('r4r-batch-manual', \${data.runId}, 'cancel')" class="text-red-400 hover:underline">Cancel</button>
+                    </div>
+                    <div id="liveBatchRun"></div>
                   </div>
                 \`;
+                followJobRun('r4r-batch-manual', data.runId, document.getElementById('liveBatchRun'));
               } else {
                 document.getElementById('jobResultsContent').innerHTML = \`
                   <div class="text-red-400">❌ Error: \${result.error}</div>
@@ -329,6 +1100,20 @@ export default function AdminPage(props: PageProps) {
           function exportData() {
             window.open('/api/leaderboard', '_blank');
           }
+
+          async function detectClusters() {
+            try {
+              const response = await fetch('/api/clusters', { method: 'POST' });
+              const result = await response.json();
+              if (result.ok) {
+                alert(\`Found \${result.data.clusters} clusters covering \${result.data.profilesClustered} profiles (\${result.data.reviewsScanned} reviews scanned)\`);
+              } else {
+                alert(\`Clustering failed: \${result.details || result.error}\`);
+              }
+            } catch (error) {
+              alert(\`Network Error: \${error.message}\`);
+            }
+          }
         `
       }}></script>
     </div>
@@ -0,0 +1,66 @@
+import { Handlers } from "$fresh/server.ts";
+import {
+  DEFAULT_PRIORITY_WEIGHTS,
+  rankProfilesForAnalysis,
+} from "../../utils/analysis-priority.ts";
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+export const handler: Handlers = {
+  // Preview of the profiles the next R4R batch would pick, with the signals
+  // behind each one's priority. `?minEthosScore=50` matches the scheduled
+  // batches' high-activity filter.
+  async GET(req) {
+    const url = new URL(req.url);
+    const limit = Math.min(
+      parseInt(url.searchParams.get("limit") || "50"),
+      500,
+    );
+    const minEthosScore = url.searchParams.get("minEthosScore");
+
+    try {
+      const profiles = await rankProfilesForAnalysis(limit, {
+        minEthosScore: minEthosScore ? parseInt(minEthosScore) : null,
+      });
+
+      return json({
+        ok: true,
+        weights: DEFAULT_PRIORITY_WEIGHTS,
+        profiles: profiles.map((profile) => ({
+          userkey: profile.userkey,
+          username: profile.username,
+          ethosScore: profile.ethos_score,
+          lastAnalyzed: profile.last_analyzed,
+          riskLevel: profile.risk_level,
+          farmingScore: profile.farming_score,
+          newReviews: profile.new_reviews,
+          changedCounterparties: profile.changed_counterparties,
+          signals: {
+            staleness: profile.staleness,
+            risk: profile.risk,
+            activity: profile.activity,
+            counterparties: profile.counterparty_change,
+          },
+          priority: profile.priority,
+        })),
+      });
+    } catch (error) {
+      console.error("Error ranking profiles for analysis:", error);
+
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        return json({
+          ok: true,
+          profiles: [],
+          message:
+            "Database not configured. Set DATABASE_URL to rank profiles for analysis.",
+        });
+      }
+
+      return json({ ok: false, error: "Failed to rank profiles" }, 500);
+    }
+  },
+};
@@ -0,0 +1,121 @@
+import { Handlers } from "$fresh/server.ts";
+import type { AuthState } from "../../utils/auth.ts";
+import {
+  createApiKey,
+  DEFAULT_KEY_RATE_LIMIT,
+  listApiKeys,
+  revokeApiKey,
+  setApiKeyRateLimit,
+} from "../../utils/api-keys.ts";
+import {
+  ANONYMOUS_RATE_LIMIT,
+  getTopAnonymousClients,
+} from "../../utils/rate-limit.ts";
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const isRateLimit = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0;
+
+// Admin only - see routes/_middleware.ts
+export const handler: Handlers<unknown, AuthState> = {
+  async GET() {
+    try {
+      const [keys, anonymous] = await Promise.all([
+        listApiKeys(),
+        getTopAnonymousClients(),
+      ]);
+      return json({
+        ok: true,
+        defaultRateLimit: DEFAULT_KEY_RATE_LIMIT,
+        anonymousRateLimit: ANONYMOUS_RATE_LIMIT,
+        keys,
+        anonymous,
+      });
+    } catch (error) {
+      console.error("Error listing API keys:", error);
+      return json({ ok: false, error: "Failed to list API keys" }, 500);
+    }
+  },
+
+  //   { action: "create", name, rateLimitPerMinute? }
+  //   { action: "update", id, rateLimitPerMinute }
+  //   { action: "revoke", id }
+  async POST(req, ctx) {
+    try {
+      const body = await req.json().catch(() => ({}));
+      const { action, id, rateLimitPerMinute } = body;
+      const name = String(body.name ?? "").trim();
+
+      if (action === "create") {
+        if (!name || name.length > 100) {
+          return json(
+            { ok: false, error: "Name must be 1-100 characters" },
+            400,
+          );
+        }
+        if (
+          rateLimitPerMinute !== undefined && !isRateLimit(rateLimitPerMinute)
+        ) {
+          return json({
+            ok: false,
+            error: "Rate limit must be a positive integer",
+          }, 400);
+        }
+
+        const { apiKey, secret } = await createApiKey(
+          name,
+          rateLimitPerMinute ?? DEFAULT_KEY_RATE_LIMIT,
+          ctx.state.user?.username ?? null,
+        );
+        console.log(
+          `🔑 ${ctx.state.user?.username} created API key ${apiKey.key_prefix}… (${name})`,
+        );
+        // The only time the key itself is returned
+        return json({ ok: true, apiKey, key: secret }, 201);
+      }
+
+      if (action === "update" && Number.isInteger(id)) {
+        if (!isRateLimit(rateLimitPerMinute)) {
+          return json({
+            ok: false,
+            error: "Rate limit must be a positive integer",
+          }, 400);
+        }
+        const updated = await setApiKeyRateLimit(id, rateLimitPerMinute);
+        return updated
+          ? json({
+            ok: true,
+            message: `API key ${id} limited to ${rateLimitPerMinute}/min`,
+          })
+          : json({ ok: false, error: `API key ${id} not found` }, 404);
+      }
+
+      if (action === "revoke" && Number.isInteger(id)) {
+        const revoked = await revokeApiKey(id);
+        if (revoked) {
+          console.log(`🔑 ${ctx.state.user?.username} revoked API key ${id}`);
+        }
+        return revoked
+          ? json({ ok: true, message: `API key ${id} revoked` })
+          : json({
+            ok: false,
+            error: `API key ${id} not found or already revoked`,
+          }, 404);
+      }
+
+      return json({
+        ok: false,
+        error: "Invalid action or missing id",
+        validActions: ["create", "update", "revoke"],
+      }, 400);
+    } catch (error) {
+      console.error("Error updating API keys:", error);
+      return json({ ok: false, error: "API key update failed" }, 500);
+    }
+  },
+};
@@ -0,0 +1,55 @@
+import { Handlers } from "$fresh/server.ts";
+import { getClusterDetail } from "../../../utils/database.ts";
+
+export const handler: Handlers = {
+  // One cluster with its members and the positive reviews between them
+  async GET(_req, ctx) {
+    const clusterId = ctx.params.id;
+
+    try {
+      const detail = await getClusterDetail(clusterId);
+
+      if (!detail) {
+        return new Response(
+          JSON.stringify({
+            ok: false,
+            error: `Cluster not found: ${clusterId}`,
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          ...detail,
+          reviews: detail.reviews.map((review) => ({
+            ...review,
+            timestamp: new Date(review.timestamp).toISOString(),
+          })),
+        }),
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+          },
+        },
+      );
+    } catch (error) {
+      console.error(`Error fetching cluster ${clusterId}:`, error);
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Failed to fetch cluster",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  },
+};
@@ -0,0 +1,116 @@
+import { Handlers } from "$fresh/server.ts";
+import {
+  getClusters,
+  getPositiveReviewEdges,
+  saveClusters,
+} from "../../../utils/database.ts";
+import { detectClusters } from "../../../utils/review-graph.ts";
+
+const databaseNotConfigured = (error: unknown) =>
+  error instanceof Error && error.message.includes("DATABASE_URL");
+
+export const handler: Handlers = {
+  // Clusters from the last clustering pass, densest first
+  async GET(req) {
+    try {
+      const url = new URL(req.url);
+      const limit = Math.min(
+        parseInt(url.searchParams.get("limit") || "50"),
+        500,
+      );
+      const offset = parseInt(url.searchParams.get("offset") || "0");
+      const minSize = parseInt(url.searchParams.get("minSize") || "3");
+
+      const clusters = await getClusters(limit, offset, minSize);
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          clusters,
+          pagination: { limit, offset },
+        }),
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+          },
+        },
+      );
+    } catch (error) {
+      console.error("Error fetching clusters:", error);
+
+      if (databaseNotConfigured(error)) {
+        return new Response(
+          JSON.stringify({
+            ok: true,
+            clusters: [],
+            message:
+              "Database not configured. Set DATABASE_URL to enable clustering.",
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Failed to fetch clusters",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  },
+
+  // Run a clustering pass over every stored review, replacing the last one
+  async POST(req) {
+    try {
+      const body = await req.json().catch(() => ({}));
+      const minSize = Math.max(parseInt(body.minSize ?? "3"), 2);
+      const startTime = Date.now();
+
+      const edges = await getPositiveReviewEdges();
+      console.log(`🕸️ Clustering ${edges.length} stored positive reviews...`);
+
+      const clusters = detectClusters(edges, { minSize });
+      await saveClusters(clusters);
+
+      const processingTime = Date.now() - startTime;
+      console.log(
+        `✅ Found ${clusters.length} clusters (≥${minSize} profiles) in ${processingTime}ms`,
+      );
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          data: {
+            reviewsScanned: edges.length,
+            clusters: clusters.length,
+            profilesClustered: clusters.reduce((sum, c) => sum + c.size, 0),
+            processingTime,
+          },
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      console.error("Error running clustering pass:", error);
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Failed to run clustering pass",
+          details: error instanceof Error ? error.message : String(error),
+        }),
+        {
+          status: databaseNotConfigured(error) ? 503 : 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  },
+};
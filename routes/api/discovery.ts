@@ -0,0 +1,35 @@
+import { Handlers } from "$fresh/server.ts";
+import { getProfileStats } from "../../utils/database.ts";
+
+export const handler: Handlers = {
+  // How many profiles discovery has found, by source. Discovery itself runs
+  // as the "profile-discovery" scheduled job (or `deno task discover`).
+  async GET() {
+    try {
+      const stats = await getProfileStats();
+
+      return new Response(JSON.stringify({ ok: true, stats }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      console.error("Error loading discovery stats:", error);
+
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        return new Response(
+          JSON.stringify({
+            ok: true,
+            stats: null,
+            message:
+              "Database not configured. Set DATABASE_URL to enable profile discovery.",
+          }),
+          { headers: { "Content-Type": "application/json" } },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ ok: false, error: "Failed to load discovery stats" }),
+        { status: 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
+  },
+};
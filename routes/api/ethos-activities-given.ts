@@ -1,10 +1,16 @@
 import { Handlers } from "$fresh/server.ts";
+import {
+  fetchAllReviewActivities,
+  fetchReviewActivities,
+  logActivityProgress,
+} from "../../utils/ethos-api.ts";
+import { ethosErrorResponse } from "../../utils/ethos-client.ts";
 
 export const handler: Handlers = {
   async POST(req) {
     try {
       const body = await req.json();
-      const { userkey, limit = 50, offset = 0 } = body;
+      const { userkey, limit = 50, offset = 0, all = false } = body;
 
       if (!userkey) {
         return new Response(JSON.stringify({
@@ -16,30 +22,31 @@ export const handler: Handlers = {
         });
       }
 
-      const requestBody = {
-        userkey,
-        filter: ["review"], // Only get review activities
-        excludeHistorical: false,
-        orderBy: {
-          field: "timestamp",
-          direction: "desc"
-        },
-        limit,
-        offset
-      };
+      // Walk every page so the analysis sees the user's complete history.
+      // Nothing is stored here; the job path keeps reviews in sync
+      // (syncReviews in utils/r4r-analysis.ts).
+      if (all) {
+        const result = await fetchAllReviewActivities(userkey, "given", {
+          onProgress: logActivityProgress,
+        });
 
-      const response = await fetch("https://api.ethos.network/api/v2/activities/profile/given", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody)
-      });
+        return new Response(JSON.stringify({
+          values: result.values,
+          total: result.total,
+          limit: result.values.length,
+          offset: 0,
+          truncated: result.truncated
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+          },
+        });
+      }
 
-      const data = await response.json();
+      const data = await fetchReviewActivities(userkey, "given", limit, offset);
 
       return new Response(JSON.stringify(data), {
-        status: response.status,
         headers: { 
           "Content-Type": "application/json",
           "Access-Control-Allow-Origin": "*",
@@ -47,13 +54,7 @@ export const handler: Handlers = {
       });
     } catch (error) {
       console.error("Error fetching given activities from Ethos API:", error);
-      return new Response(JSON.stringify({
-        ok: false,
-        error: "Failed to fetch given activities from Ethos API"
-      }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
+      return ethosErrorResponse(error, "Failed to fetch given activities from Ethos API");
     }
   },
 }; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Handlers } from "$fresh/server.ts";
+import { ethosClient, ethosErrorResponse } from "../../utils/ethos-client.ts";
 
 export const handler: Handlers = {
   async GET(req) {
@@ -18,13 +19,11 @@ export const handler: Handlers = {
     }
 
     try {
-      const ethosUrl = `https://api.ethos.network/api/v1/search?query=${encodeURIComponent(query)}&limit=${limit}&offset=${offset}`;
-      
-      const response = await fetch(ethosUrl);
-      const data = await response.json();
+      const data = await ethosClient.get(
+        `/api/v1/search?query=${encodeURIComponent(query)}&limit=${limit}&offset=${offset}`,
+      );
 
       return new Response(JSON.stringify(data), {
-        status: response.status,
         headers: { 
           "Content-Type": "application/json",
           "Access-Control-Allow-Origin": "*",
@@ -32,13 +31,7 @@ export const handler: Handlers = {
       });
     } catch (error) {
       console.error("Error fetching from Ethos API:", error);
-      return new Response(JSON.stringify({
-        ok: false,
-        error: "Failed to fetch from Ethos API"
-      }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
+      return ethosErrorResponse(error);
     }
   },
 }; 
\ No newline at end of file
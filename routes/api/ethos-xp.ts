@@ -1,4 +1,5 @@
 import { Handlers } from "$fresh/server.ts";
+import { ethosClient, ethosErrorResponse } from "../../utils/ethos-client.ts";
 
 export const handler: Handlers = {
   async GET(req) {
@@ -16,17 +17,9 @@ export const handler: Handlers = {
         });
       }
 
-      const response = await fetch(`https://api.ethos.network/api/v2/xp/user/${encodeURIComponent(userkey)}`, {
-        method: "GET",
-        headers: {
-          "Accept": "*/*",
-        },
-      });
-
-      const data = await response.json();
+      const data = await ethosClient.get(`/api/v2/xp/user/${encodeURIComponent(userkey)}`);
 
       return new Response(JSON.stringify(data), {
-        status: response.status,
         headers: { 
           "Content-Type": "application/json",
           "Access-Control-Allow-Origin": "*",
@@ -34,13 +27,7 @@ export const handler: Handlers = {
       });
     } catch (error) {
       console.error("Error fetching Ethos XP:", error);
-      return new Response(JSON.stringify({
-        ok: false,
-        error: "Failed to fetch Ethos XP"
-      }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
+      return ethosErrorResponse(error, "Failed to fetch Ethos XP");
     }
   },
 }; 
\ No newline at end of file
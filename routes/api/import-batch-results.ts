@@ -0,0 +1,50 @@
+import { Handlers } from "$fresh/server.ts";
+import { countSkipReasons, importBatchCsv } from "../../utils/batch-import.ts";
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Imports one batch results CSV sent as the request body, e.g.
+//   curl --data-binary @batch-results-20250627.csv \
+//     '/api/import-batch-results?file=batch-results-20250627.csv&dryRun=true'
+// See utils/batch-import.ts for the formats. `deno task import-batch-results`
+// does the same for files and directories on disk.
+export const handler: Handlers = {
+  async POST(req) {
+    const url = new URL(req.url);
+    const file = url.searchParams.get("file") || "upload.csv";
+    const dryRun = url.searchParams.get("dryRun") === "true";
+
+    try {
+      const report = await importBatchCsv(file, await req.text(), { dryRun });
+      if (!report.format) {
+        return json(
+          { ok: false, error: report.skipped[0].reason, report },
+          400,
+        );
+      }
+
+      console.log(
+        `📥 ${
+          dryRun ? "Dry run of " : ""
+        }${file} (${report.format}): ${report.imported} imported, ${report.skipped.length} skipped`,
+      );
+      return json({
+        ok: true,
+        dryRun,
+        report,
+        skippedByReason: countSkipReasons(report.skipped),
+      });
+    } catch (error) {
+      console.error("Error importing batch results:", error);
+      const message =
+        error instanceof Error && error.message.includes("DATABASE_URL")
+          ? "Database not configured. Set DATABASE_URL to import batch results."
+          : "Import failed";
+      return json({ ok: false, error: message }, 500);
+    }
+  },
+};
@@ -0,0 +1,63 @@
+import { Handlers } from "$fresh/server.ts";
+import { getJobRun, listJobRuns } from "../../../../utils/job-runs.ts";
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const durationMs = (
+  run: { started_at: Date | null; finished_at: Date | null },
+) =>
+  run.started_at && run.finished_at
+    ? run.finished_at.getTime() - run.started_at.getTime()
+    : null;
+
+export const handler: Handlers = {
+  // Past runs of a scheduled job, newest first. `?runId=` returns a single
+  // run with its captured log lines.
+  async GET(req, ctx) {
+    const jobId = ctx.params.jobId;
+    const url = new URL(req.url);
+    const runId = url.searchParams.get("runId");
+    const limit = Math.min(
+      parseInt(url.searchParams.get("limit") || "20"),
+      100,
+    );
+    const offset = parseInt(url.searchParams.get("offset") || "0");
+
+    try {
+      if (runId) {
+        const run = await getJobRun(jobId, parseInt(runId));
+        return run
+          ? json({ ok: true, run: { ...run, durationMs: durationMs(run) } })
+          : json(
+            { ok: false, error: `Run ${runId} not found for ${jobId}` },
+            404,
+          );
+      }
+
+      const runs = await listJobRuns(jobId, limit, offset);
+      return json({
+        ok: true,
+        jobId,
+        runs: runs.map((run) => ({ ...run, durationMs: durationMs(run) })),
+      });
+    } catch (error) {
+      console.error(`Error loading runs for ${jobId}:`, error);
+
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        return json({
+          ok: true,
+          jobId,
+          runs: [],
+          message:
+            "Database not configured. Set DATABASE_URL to record job runs.",
+        });
+      }
+
+      return json({ ok: false, error: "Failed to load job runs" }, 500);
+    }
+  },
+};
@@ -0,0 +1,126 @@
+import { Handlers } from "$fresh/server.ts";
+import { getJobRunProgress } from "../../../../utils/job-runs.ts";
+
+// Run state lives in Postgres, so the stream follows it from any instance by
+// polling the run row
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 15 * 1000;
+
+export const handler: Handlers = {
+  // Server-Sent Events for one run (`?runId=`):
+  //
+  //   progress  { status, total, processed, failed } whenever they change
+  //   log       one captured log line, including each profile's result
+  //   failure   one recorded error, with the profile it belongs to
+  //   done      the final progress, after which the stream closes
+  //
+  // Events carry the run's log position as their id, so a reconnecting
+  // EventSource picks up where it left off.
+  GET(req, ctx) {
+    const jobId = ctx.params.jobId;
+    const url = new URL(req.url);
+    const runId = parseInt(url.searchParams.get("runId") || "");
+    if (isNaN(runId)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "runId is required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const [logsSeen, errorsSeen] = (req.headers.get("Last-Event-ID") || "0:0")
+      .split(":")
+      .map((n) => parseInt(n) || 0);
+    const encoder = new TextEncoder();
+    let timer: number | undefined;
+    let closed = false;
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let logCount = logsSeen;
+        let errorCount = errorsSeen;
+        let lastProgress = "";
+        let lastSent = Date.now();
+
+        const send = (event: string, data: unknown) => {
+          controller.enqueue(encoder.encode(
+            `id: ${logCount}:${errorCount}\nevent: ${event}\ndata: ${
+              JSON.stringify(data)
+            }\n\n`,
+          ));
+          lastSent = Date.now();
+        };
+        const close = () => {
+          closed = true;
+          controller.close();
+        };
+
+        const poll = async () => {
+          if (closed) return;
+          try {
+            const run = await getJobRunProgress(
+              jobId,
+              runId,
+              logCount,
+              errorCount,
+            );
+            if (closed) return;
+            if (!run) {
+              send("done", { error: `Run ${runId} not found for ${jobId}` });
+              return close();
+            }
+
+            for (const line of run.logs) {
+              logCount++;
+              send("log", line);
+            }
+            for (const error of run.errors) {
+              errorCount++;
+              send("failure", error);
+            }
+
+            const progress = {
+              status: run.status,
+              total: run.total,
+              processed: run.processed,
+              failed: run.failed,
+            };
+            if (run.finished_at) {
+              send("done", progress);
+              return close();
+            }
+            if (JSON.stringify(progress) !== lastProgress) {
+              lastProgress = JSON.stringify(progress);
+              send("progress", progress);
+            } else if (Date.now() - lastSent > KEEPALIVE_INTERVAL_MS) {
+              controller.enqueue(encoder.encode(": keepalive\n\n"));
+              lastSent = Date.now();
+            }
+          } catch (error) {
+            console.error(`Error streaming run ${runId}:`, error);
+            send("done", { error: "Failed to load run progress" });
+            return close();
+          }
+
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+        };
+
+        controller.enqueue(
+          encoder.encode(`retry: ${POLL_INTERVAL_MS * 3}\n\n`),
+        );
+        poll();
+      },
+      cancel() {
+        // Client went away
+        closed = true;
+        clearTimeout(timer);
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  },
+};
@@ -0,0 +1,313 @@
+import { FreshContext } from "$fresh/server.ts";
+import { type AuthState, hasRole } from "../../../utils/auth.ts";
+import { CronParseError, isValidTimezone } from "../../../utils/cron.ts";
+import {
+  cancelJobRun,
+  type JobRun,
+  pauseJobRun,
+  resumeJobRun,
+} from "../../../utils/job-runs.ts";
+import {
+  CATCH_UP_POLICIES,
+  globalScheduler,
+  type ScheduledJobStatus,
+} from "../../../utils/scheduler.ts";
+
+export async function GET(
+  _req: Request,
+  _ctx: FreshContext,
+): Promise<Response> {
+  try {
+    const jobs = await globalScheduler.getAllJobsStatus();
+    const jobsWithTimeInfo = jobs.map(formatJob);
+
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        data: {
+          totalJobs: jobs.length,
+          runningJobs: jobs.filter((j) => j.is_running).length,
+          jobs: jobsWithTimeInfo,
+          schedulerInstance: globalScheduler.instanceId,
+          serverTime: new Date().toISOString(),
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  } catch (error) {
+    console.error("Error getting job status:", error);
+
+    if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          data: {
+            totalJobs: 0,
+            runningJobs: 0,
+            jobs: [],
+            serverTime: new Date().toISOString(),
+          },
+          message:
+            "Database not configured. Set DATABASE_URL to enable scheduled jobs.",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        ok: false,
+        error: "Failed to get job status",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+}
+
+export async function POST(
+  req: Request,
+  ctx: FreshContext<AuthState>,
+): Promise<Response> {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action, jobId } = body;
+
+    if (action === "run" && jobId) {
+      // Queue a run of the schedule immediately
+      const job = await globalScheduler.runJob(jobId);
+
+      return new Response(
+        JSON.stringify({
+          ok: job !== null,
+          message: job
+            ? `Job ${jobId} queued as job #${job.id}`
+            : `Job ${jobId} not found or already queued`,
+          jobId,
+          queuedJobId: job?.id ?? null,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (action === "status" && jobId) {
+      // Get status of a specific job
+      const job = await globalScheduler.getJob(jobId);
+
+      return new Response(
+        JSON.stringify({
+          ok: job !== null,
+          data: job ? formatJob(job) : null,
+          message: job ? "Job found" : "Job not found",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (action === "update" && jobId) {
+      // Change a job's cron expression, timezone, catch-up policy or enabled flag
+      if (!hasRole(ctx.state.user, "admin")) {
+        return new Response(
+          JSON.stringify({
+            ok: false,
+            error: "Editing schedules requires the admin role",
+          }),
+          {
+            status: 403,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const { cronExpression, timezone, catchUp, enabled } = body;
+
+      if (cronExpression !== undefined && typeof cronExpression !== "string") {
+        return badRequest("cronExpression must be a string");
+      }
+      if (
+        timezone !== undefined &&
+        (typeof timezone !== "string" || !isValidTimezone(timezone))
+      ) {
+        return badRequest(`Unknown timezone "${timezone}"`);
+      }
+      if (catchUp !== undefined && !CATCH_UP_POLICIES.includes(catchUp)) {
+        return badRequest(
+          `Invalid catchUp. Expected one of: ${CATCH_UP_POLICIES.join(", ")}`,
+        );
+      }
+      if (enabled !== undefined && typeof enabled !== "boolean") {
+        return badRequest("enabled must be a boolean");
+      }
+
+      const job = await globalScheduler.updateJob(jobId, {
+        cronExpression,
+        timezone,
+        catchUp,
+        enabled,
+      });
+
+      return new Response(
+        JSON.stringify({
+          ok: job !== null,
+          data: job ? formatJob(job) : null,
+          message: job ? `Job ${jobId} updated` : "Job not found",
+        }),
+        {
+          status: job ? 200 : 404,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (typeof action === "string" && Object.hasOwn(RUN_ACTIONS, action)) {
+      // Pause, resume or cancel one run of a job
+      const { runId } = body;
+      if (!Number.isInteger(runId)) {
+        return badRequest("runId must be an integer");
+      }
+
+      const { apply, done, allowedFrom } = RUN_ACTIONS[action];
+      const run = await apply(runId);
+
+      return new Response(
+        JSON.stringify({
+          ok: run !== null,
+          data: run
+            ? { runId: run.id, jobId: run.job_id, status: run.status }
+            : null,
+          message: run
+            ? `Run ${runId} ${done}`
+            : `Run ${runId} not found or not ${allowedFrom}`,
+        }),
+        {
+          status: run ? 200 : 409,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        ok: false,
+        error: "Invalid action or missing jobId",
+        validActions: ["run", "status", "update", ...Object.keys(RUN_ACTIONS)],
+      }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  } catch (error) {
+    if (error instanceof CronParseError) {
+      return badRequest(error.message);
+    }
+
+    console.error("Error in job action:", error);
+    return new Response(
+      JSON.stringify({
+        ok: false,
+        error: "Job action failed",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+}
+
+const RUN_ACTIONS: Record<string, {
+  apply: (runId: number) => Promise<JobRun | null>;
+  done: string;
+  allowedFrom: string;
+}> = {
+  pause: {
+    apply: pauseJobRun,
+    done: "paused",
+    allowedFrom: "queued or running",
+  },
+  resume: { apply: resumeJobRun, done: "resumed", allowedFrom: "paused" },
+  cancel: {
+    apply: cancelJobRun,
+    done: "cancelled",
+    allowedFrom: "queued, running or paused",
+  },
+};
+
+// Helper functions
+function formatJob(job: ScheduledJobStatus) {
+  const now = Date.now();
+  const nextRunIn = job.enabled && job.next_run_at
+    ? Math.max(0, job.next_run_at.getTime() - now)
+    : null;
+  const lastRunAgo = job.last_run_at ? now - job.last_run_at.getTime() : null;
+
+  return {
+    id: job.id,
+    name: job.name,
+    jobType: job.job_type,
+    payload: job.payload,
+    cronExpression: job.cron_expression,
+    timezone: job.timezone,
+    catchUp: job.catch_up,
+    enabled: job.enabled,
+    isRunning: job.is_running,
+    lock: {
+      held: job.lock_held,
+      // Scheduler instance holding (or that last held) the schedule's lease
+      holder: job.locked_by,
+      lockedUntil: job.lock_held ? job.locked_until : null,
+      // Queued job for the current run and the worker running it
+      queueJobId: job.queue_job_id,
+      queueStatus: job.queue_status,
+      runner: job.runner,
+    },
+    lastRun: job.last_run_at,
+    lastRunAgo: lastRunAgo !== null ? formatDuration(lastRunAgo) : null,
+    nextRun: job.enabled ? job.next_run_at : null,
+    nextRunIn: nextRunIn !== null ? formatDuration(nextRunIn) : null,
+    nextRunInMs: nextRunIn,
+    runsUrl: `/api/job-status/${job.id}/runs`,
+  };
+}
+
+function badRequest(error: string): Response {
+  return new Response(JSON.stringify({ ok: false, error }), {
+    status: 400,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return "now";
+  }
+
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) {
+    return `${days}d ${hours % 24}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
@@ -0,0 +1,117 @@
+import { Handlers } from "$fresh/server.ts";
+import {
+  getJob,
+  getQueueStats,
+  type JobStatus,
+  listJobs,
+  retryDeadJob,
+} from "../../utils/job-queue.ts";
+import { jobWorker } from "../../utils/r4r-jobs.ts";
+
+const JOB_STATUSES: JobStatus[] = [
+  "pending",
+  "running",
+  "completed",
+  "dead",
+  "paused",
+  "cancelled",
+];
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+export const handler: Handlers = {
+  // Queue counts and recent jobs, filterable by status and type.
+  // `?id=` returns a single job.
+  async GET(req) {
+    const url = new URL(req.url);
+    const id = url.searchParams.get("id");
+    const status = url.searchParams.get("status") as JobStatus | null;
+    const type = url.searchParams.get("type") || undefined;
+    const limit = Math.min(
+      parseInt(url.searchParams.get("limit") || "50"),
+      500,
+    );
+    const offset = parseInt(url.searchParams.get("offset") || "0");
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return json({
+        ok: false,
+        error: `Invalid status. Expected one of: ${JOB_STATUSES.join(", ")}`,
+      }, 400);
+    }
+
+    try {
+      if (id) {
+        const job = await getJob(parseInt(id));
+        return job
+          ? json({ ok: true, job })
+          : json({ ok: false, error: "Job not found" }, 404);
+      }
+
+      const [stats, jobs] = await Promise.all([
+        getQueueStats(),
+        listJobs({ status: status || undefined, type }, limit, offset),
+      ]);
+
+      return json({
+        ok: true,
+        stats,
+        worker: jobWorker.getStatus(),
+        jobs,
+      });
+    } catch (error) {
+      console.error("Error loading job queue:", error);
+
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        return json({
+          ok: true,
+          stats: {
+            pending: 0,
+            running: 0,
+            completed: 0,
+            dead: 0,
+            paused: 0,
+            cancelled: 0,
+          },
+          worker: jobWorker.getStatus(),
+          jobs: [],
+          message:
+            "Database not configured. Set DATABASE_URL to enable the job queue.",
+        });
+      }
+
+      return json({ ok: false, error: "Failed to load job queue" }, 500);
+    }
+  },
+
+  // { action: "retry", id } puts a dead-lettered job back in the queue
+  async POST(req) {
+    try {
+      const { action, id } = await req.json().catch(() => ({}));
+
+      if (action !== "retry" || !id) {
+        return json({
+          ok: false,
+          error: "Invalid action or missing id",
+          validActions: ["retry"],
+        }, 400);
+      }
+
+      const retried = await retryDeadJob(Number(id));
+      return retried
+        ? json({ ok: true, message: `Job ${id} queued for retry` })
+        : json({ ok: false, error: `Job ${id} is not dead-lettered` }, 409);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      return json({
+        ok: false,
+        error: "Failed to retry job",
+        details: error instanceof Error ? error.message : String(error),
+      }, 500);
+    }
+  },
+};
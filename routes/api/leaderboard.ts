@@ -1,17 +1,27 @@
 import { Handlers } from "$fresh/server.ts";
 import { getLeaderboard, getLeaderboardStats } from "../../utils/database.ts";
+import { parseLeaderboardFilters } from "../../utils/leaderboard-filters.ts";
 
 export const handler: Handlers = {
   async GET(req) {
+    const filters = parseLeaderboardFilters(new URL(req.url).searchParams);
+    if (typeof filters === "string") {
+      return new Response(JSON.stringify({
+        ok: false,
+        error: filters
+      }), {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+        },
+      });
+    }
+    const { limit, offset } = filters;
+
     try {
-      const url = new URL(req.url);
-      const limit = parseInt(url.searchParams.get("limit") || "100");
-      const offset = parseInt(url.searchParams.get("offset") || "0");
-      const sortBy = url.searchParams.get("sortBy") || "farming_score";
-      const sortOrder = (url.searchParams.get("sortOrder") || "desc") as 'asc' | 'desc';
-      
-      const [entries, stats] = await Promise.all([
-        getLeaderboard(limit, offset, sortBy, sortOrder),
+      const [{ entries, total }, stats] = await Promise.all([
+        getLeaderboard(filters),
         getLeaderboardStats()
       ]);
 
@@ -19,10 +29,11 @@ export const handler: Handlers = {
         ok: true,
         entries,
         stats,
+        filters,
         pagination: {
           limit,
           offset,
-          total: stats.totalEntries
+          total
         }
       }), {
         status: 200,
@@ -0,0 +1,86 @@
+import { Handlers } from "$fresh/server.ts";
+import {
+  type LeaderboardEntry,
+  streamLeaderboard,
+} from "../../../utils/database.ts";
+import {
+  EXPORT_FORMATS,
+  exportChunks,
+  type ExportFormat,
+} from "../../../utils/leaderboard-export.ts";
+import { parseLeaderboardFilters } from "../../../utils/leaderboard-filters.ts";
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// The whole (filtered) leaderboard as a download. Takes the same filter and
+// sort params as /api/leaderboard; limit and offset are ignored.
+export const handler: Handlers = {
+  async GET(req) {
+    const url = new URL(req.url);
+    const format = url.searchParams.get("format") || "csv";
+    if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+      return json({
+        ok: false,
+        error: `format must be one of ${
+          Object.keys(EXPORT_FORMATS).join(", ")
+        }`,
+      }, 400);
+    }
+
+    const filters = parseLeaderboardFilters(url.searchParams);
+    if (typeof filters === "string") {
+      return json({ ok: false, error: filters }, 400);
+    }
+
+    let batches: AsyncGenerator<LeaderboardEntry[]>;
+    try {
+      batches = await streamLeaderboard(filters);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        return json({
+          ok: false,
+          error:
+            "Database not configured. Set DATABASE_URL to enable leaderboard exports.",
+        }, 503);
+      }
+
+      console.error("Error exporting leaderboard:", error);
+      return json({ ok: false, error: "Failed to export leaderboard" }, 500);
+    }
+
+    const encoder = new TextEncoder();
+    const chunks = exportChunks(format as ExportFormat, batches);
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) controller.close();
+          else controller.enqueue(encoder.encode(value));
+        } catch (error) {
+          console.error("Error streaming leaderboard export:", error);
+          controller.error(error);
+        }
+      },
+      // Client went away - stop reading and release the connection. The
+      // chunks may not have started yet, so return the batches directly too.
+      async cancel() {
+        await chunks.return(undefined);
+        await batches.return(undefined);
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10).replaceAll("-", "");
+    return new Response(body, {
+      headers: {
+        "Content-Type": EXPORT_FORMATS[format as ExportFormat],
+        "Content-Disposition":
+          `attachment; filename="leaderboard-${date}.${format}"`,
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  },
+};
@@ -0,0 +1,129 @@
+import { Handlers } from "$fresh/server.ts";
+import { fetchAllReviewActivities } from "../../utils/ethos-api.ts";
+import { ethosErrorResponse } from "../../utils/ethos-client.ts";
+import {
+  calculateR4rScore,
+  CURRENT_SCORING_VERSION,
+  getActivityRating,
+  getActivityTime,
+  isScoringVersion,
+} from "../../utils/r4r-score.ts";
+import type { EthosActivity } from "../../utils/types.ts";
+
+const round = (value: number, digits = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const toIsoTimestamp = (activity: EthosActivity) => {
+  const time = getActivityTime(activity);
+  return isNaN(time) ? null : new Date(time).toISOString();
+};
+
+export const handler: Handlers = {
+  async GET(req) {
+    const url = new URL(req.url);
+    const userkey = url.searchParams.get("userkey");
+    const version = url.searchParams.get("version") || CURRENT_SCORING_VERSION;
+
+    if (!userkey) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Userkey is required",
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (!isScoringVersion(version)) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: `Unknown scoring version: ${version}`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    try {
+      const [given, received] = await Promise.all([
+        fetchAllReviewActivities(userkey, "given"),
+        fetchAllReviewActivities(userkey, "received"),
+      ]);
+
+      const breakdown = calculateR4rScore(
+        given.values,
+        received.values,
+        version,
+      );
+      const contributingPairs = breakdown.pairs.filter((p) => p.isPositivePair);
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          userkey,
+          version: breakdown.version,
+          reviewsGiven: breakdown.reviewsGiven,
+          reviewsReceived: breakdown.reviewsReceived,
+          reciprocalReviews: breakdown.reciprocalReviews,
+          baseScore: round(breakdown.baseScore),
+          multipliers: {
+            volume: {
+              value: breakdown.volumeMultiplier,
+              reason: breakdown.volumeReason,
+            },
+            accountAge: {
+              value: breakdown.accountAgeMultiplier,
+              reason: breakdown.accountAgeReason,
+              accountAgeDays: round(breakdown.accountAgeDays, 1),
+              reviewsPerDay: round(breakdown.reviewsPerDay),
+            },
+          },
+          scoreAfterMultipliers: round(breakdown.scoreAfterMultipliers),
+          timePenalty: {
+            value: round(breakdown.timePenalty),
+            reason: breakdown.timePenaltyReason,
+          },
+          quickReciprocations: breakdown.quickReciprocations,
+          quickReciprocationRatio: round(breakdown.suspiciousRatio, 4),
+          avgReciprocalTimeHours: round(breakdown.avgReciprocalTime),
+          finalScore: breakdown.finalScore,
+          riskLevel: breakdown.riskLevel,
+          pairs: contributingPairs.map((pair) => ({
+            userkey: pair.givenReview.subject.userkey,
+            username: pair.username,
+            givenReview: {
+              id: pair.givenReview.id,
+              rating: getActivityRating(pair.givenReview),
+              timestamp: toIsoTimestamp(pair.givenReview),
+            },
+            receivedReview: {
+              id: pair.receivedReview.id,
+              rating: getActivityRating(pair.receivedReview),
+              timestamp: toIsoTimestamp(pair.receivedReview),
+            },
+            timeDifferenceHours: round(pair.timeDifferenceHours),
+            isQuick: pair.isQuick,
+          })),
+        }),
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+          },
+        },
+      );
+    } catch (error) {
+      console.error(`Error explaining R4R score for ${userkey}:`, error);
+      return ethosErrorResponse(
+        error,
+        "Failed to fetch review activities from Ethos API",
+      );
+    }
+  },
+};
@@ -0,0 +1,219 @@
+import { Handlers } from "$fresh/server.ts";
+import {
+  getAnalysisScoreComparison,
+  getLeaderboard,
+  getStoredReviewActivities,
+  saveAnalysisScore,
+  saveReviews,
+} from "../../utils/database.ts";
+import { fetchAllReviewActivities } from "../../utils/ethos-api.ts";
+import {
+  calculateR4rScore,
+  CURRENT_SCORING_VERSION,
+  isScoringVersion,
+  SCORING_ALGORITHMS,
+} from "../../utils/r4r-score.ts";
+
+interface RecomputeRequest {
+  version?: string;
+  limit?: number;
+  offset?: number;
+  // Re-download every profile's reviews instead of scoring the stored ones
+  refetch?: boolean;
+}
+
+// Stored reviews when we have them, otherwise fetch from Ethos and store them
+async function loadReviews(userkey: string, refetch: boolean) {
+  if (!refetch) {
+    const stored = await getStoredReviewActivities(userkey);
+    if (stored.given.length > 0 || stored.received.length > 0) {
+      return { ...stored, fetched: false };
+    }
+  }
+
+  const [given, received] = await Promise.all([
+    fetchAllReviewActivities(userkey, "given", { priority: "batch" }),
+    fetchAllReviewActivities(userkey, "received", { priority: "batch" }),
+  ]);
+  await saveReviews([...given.values, ...received.values]);
+  return { given: given.values, received: received.values, fetched: true };
+}
+
+function listVersions() {
+  return Object.values(SCORING_ALGORITHMS).map((algorithm) => ({
+    version: algorithm.version,
+    description: algorithm.description,
+    current: algorithm.version === CURRENT_SCORING_VERSION,
+  }));
+}
+
+export const handler: Handlers = {
+  // List registered versions, optionally comparing two of them side by side
+  async GET(req) {
+    try {
+      const url = new URL(req.url);
+      const version = url.searchParams.get("version");
+      const baseVersion = url.searchParams.get("baseVersion") ||
+        CURRENT_SCORING_VERSION;
+      const limit = parseInt(url.searchParams.get("limit") || "100");
+      const offset = parseInt(url.searchParams.get("offset") || "0");
+
+      const comparison = version
+        ? await getAnalysisScoreComparison(baseVersion, version, limit, offset)
+        : null;
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          currentVersion: CURRENT_SCORING_VERSION,
+          versions: listVersions(),
+          comparison: comparison && {
+            baseVersion,
+            version,
+            rows: comparison,
+          },
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      console.error("Error loading scoring versions:", error);
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Failed to load scoring versions",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  },
+
+  // Recompute stored profiles under a version. Scores are written to
+  // analysis_scores only - leaderboard entries and older versions are untouched.
+  // Profiles are scored from their stored reviews; only profiles with nothing
+  // stored (or every profile, with `refetch`) go back to Ethos.
+  async POST(req) {
+    try {
+      const body: RecomputeRequest = await req.json().catch(() => ({}));
+      const { version, limit = 50, offset = 0, refetch = false } = body;
+
+      if (!isScoringVersion(version)) {
+        return new Response(
+          JSON.stringify({
+            ok: false,
+            error: "A registered scoring version is required",
+            versions: listVersions(),
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const { entries } = await getLeaderboard({
+        limit: Math.min(limit, 500),
+        offset,
+        sortBy: "last_analyzed",
+        sortOrder: "desc",
+      });
+      console.log(
+        `🔁 Recomputing ${entries.length} profiles under scoring ${version}...`,
+      );
+
+      const results: Array<{
+        userkey: string;
+        username: string;
+        previousVersion: string;
+        previousScore: number;
+        newScore: number;
+      }> = [];
+      const errors: string[] = [];
+      let fetchedFromEthos = 0;
+
+      for (const entry of entries) {
+        let fetched = false;
+        try {
+          const reviews = await loadReviews(entry.userkey, refetch);
+          fetched = reviews.fetched;
+          if (fetched) fetchedFromEthos++;
+
+          const breakdown = calculateR4rScore(
+            reviews.given,
+            reviews.received,
+            version,
+          );
+
+          await saveAnalysisScore({
+            userkey: entry.userkey,
+            analysis_version: breakdown.version,
+            farming_score: breakdown.finalScore,
+            risk_level: breakdown.riskLevel,
+            reviews_given: breakdown.reviewsGiven,
+            reviews_received: breakdown.reviewsReceived,
+            reciprocal_reviews: breakdown.reciprocalReviews,
+            quick_reciprocations: breakdown.quickReciprocations,
+            avg_reciprocal_time: Math.round(breakdown.avgReciprocalTime * 100) /
+              100,
+            computed_at: new Date().toISOString(),
+          });
+
+          results.push({
+            userkey: entry.userkey,
+            username: entry.username,
+            previousVersion: entry.analysis_version,
+            previousScore: entry.farming_score,
+            newScore: breakdown.finalScore,
+          });
+        } catch (error) {
+          const errorMsg = `Error recomputing ${entry.username}: ${
+            error instanceof Error ? error.message : String(error)
+          }`;
+          errors.push(errorMsg);
+          console.error(errorMsg);
+        }
+
+        // Small delay between users to be respectful to the API
+        if (fetched) await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+
+      console.log(
+        `✅ Recomputed ${results.length}/${entries.length} profiles under ${version}`,
+      );
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          data: {
+            version,
+            processed: results.length,
+            total: entries.length,
+            fetchedFromEthos,
+            errors,
+            results,
+          },
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      console.error("Error recomputing scores:", error);
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Failed to recompute scores",
+          details: error instanceof Error ? error.message : String(error),
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  },
+};
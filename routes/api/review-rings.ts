@@ -0,0 +1,103 @@
+import { Handlers } from "$fresh/server.ts";
+import { getRingCandidateEdges } from "../../utils/database.ts";
+import {
+  DEFAULT_RING_MAX_LENGTH,
+  DEFAULT_RING_WINDOW_HOURS,
+  findReviewRings,
+} from "../../utils/review-graph.ts";
+
+export const handler: Handlers = {
+  // Review rings (A→B→C→A cycles of positive reviews) through a profile,
+  // detected from the stored review graph
+  async GET(req) {
+    const url = new URL(req.url);
+    const userkey = url.searchParams.get("userkey");
+    const maxLength = Math.min(
+      Math.max(
+        parseInt(
+          url.searchParams.get("maxLength") || String(DEFAULT_RING_MAX_LENGTH),
+        ),
+        3,
+      ),
+      5,
+    );
+    const windowHours = parseFloat(
+      url.searchParams.get("windowHours") || String(DEFAULT_RING_WINDOW_HOURS),
+    );
+
+    if (!userkey) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Userkey is required",
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    try {
+      const edges = await getRingCandidateEdges(userkey);
+      const rings = findReviewRings(userkey, edges, { maxLength, windowHours });
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          userkey,
+          maxLength,
+          windowHours,
+          edgesScanned: edges.length,
+          ringCount: rings.length,
+          maxRingScore: rings[0]?.score ?? 0,
+          rings: rings.map((ring) => ({
+            ...ring,
+            spanHours: Math.round(ring.spanHours * 100) / 100,
+            edges: ring.edges.map((edge) => ({
+              ...edge,
+              timestamp: new Date(edge.timestamp).toISOString(),
+            })),
+          })),
+        }),
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+          },
+        },
+      );
+    } catch (error) {
+      console.error(`Error detecting review rings for ${userkey}:`, error);
+
+      // Rings come from stored reviews, so there is nothing to show without a database
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        return new Response(
+          JSON.stringify({
+            ok: true,
+            userkey,
+            ringCount: 0,
+            maxRingScore: 0,
+            rings: [],
+            message:
+              "Database not configured. Set DATABASE_URL to enable ring detection.",
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Failed to detect review rings",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  },
+};
@@ -1,5 +1,17 @@
 import { Handlers } from "$fresh/server.ts";
-import { saveLeaderboardEntry, type LeaderboardEntry } from "../../utils/database.ts";
+import {
+  countHighRiskR4rs,
+  getRingCandidateEdges,
+  saveLeaderboardEntry,
+  type LeaderboardEntry,
+} from "../../utils/database.ts";
+import {
+  CURRENT_SCORING_VERSION,
+  getRiskLevel,
+  isScoringVersion,
+} from "../../utils/r4r-score.ts";
+import { syncReviews } from "../../utils/r4r-analysis.ts";
+import { findReviewRings } from "../../utils/review-graph.ts";
 
 export const handler: Handlers = {
   async POST(req) {
@@ -18,14 +30,9 @@ export const handler: Handlers = {
       }
 
       // Determine risk level based on farming score
-      let riskLevel: 'low' | 'moderate' | 'high' = 'low';
-      if (analysisData.farmingScore >= 70) {
-        riskLevel = 'high';
-      } else if (analysisData.farmingScore >= 40) {
-        riskLevel = 'moderate';
-      }
+      const riskLevel = getRiskLevel(analysisData.farmingScore || 0);
 
-      // Calculate average reciprocal time (in days)
+      // Average reciprocal time (in hours)
       const avgReciprocalTime = analysisData.avgReciprocalTime || 0;
 
       const entry: LeaderboardEntry = {
@@ -42,13 +49,32 @@ export const handler: Handlers = {
         quick_reciprocations: analysisData.quickReciprocations || 0,
         avg_reciprocal_time: avgReciprocalTime,
         last_analyzed: new Date().toISOString(),
-        analysis_version: 'v1.0',
+        analysis_version: isScoringVersion(analysisData.analysisVersion)
+          ? analysisData.analysisVersion
+          : CURRENT_SCORING_VERSION,
         processing_time: analysisData.processingTime || 0,
         ethos_score: analysisData.ethosScore || 0,
         ethos_xp: analysisData.ethosXp || 0,
         high_risk_r4rs: analysisData.highRiskR4rs || 0
       };
 
+      // The analysis ran in the browser, which stores nothing - store the
+      // profile's reviews with the batch review sync so rings and rescoring
+      // see them. Best effort: the scores above don't depend on it.
+      await Promise.all([
+        syncReviews(entry.userkey, "given", { priority: "interactive" }),
+        syncReviews(entry.userkey, "received", { priority: "interactive" }),
+      ]).catch((error) =>
+        console.warn(`⚠️ Failed to store reviews for ${entry.userkey}:`, error)
+      );
+
+      // Rings come from the stored review graph
+      const rings = findReviewRings(entry.userkey, await getRingCandidateEdges(entry.userkey));
+      entry.ring_count = rings.length;
+
+      // Count high risk R4Rs from the same stored reviews rather than trusting the client
+      entry.high_risk_r4rs = await countHighRiskR4rs(entry.userkey);
+
       await saveLeaderboardEntry(entry);
 
       return new Response(JSON.stringify({
@@ -57,7 +83,9 @@ export const handler: Handlers = {
         entry: {
           username: entry.username,
           farmingScore: entry.farming_score,
-          riskLevel: entry.risk_level
+          riskLevel: entry.risk_level,
+          ringCount: entry.ring_count,
+          highRiskR4rs: entry.high_risk_r4rs
         }
       }), {
         status: 200,
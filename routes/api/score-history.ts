@@ -0,0 +1,77 @@
+import { Handlers } from "$fresh/server.ts";
+import { getScoreHistory } from "../../utils/database.ts";
+
+export const handler: Handlers = {
+  // Every stored analysis of a profile, oldest first, for trend charts
+  async GET(req) {
+    const url = new URL(req.url);
+    const userkey = url.searchParams.get("userkey");
+    // A missing or non-numeric limit falls back to the default
+    const requestedLimit = parseInt(url.searchParams.get("limit") || "");
+    const limit = Math.min(
+      Math.max(isNaN(requestedLimit) ? 100 : requestedLimit, 1),
+      1000,
+    );
+
+    if (!userkey) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Userkey is required",
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    try {
+      const history = await getScoreHistory(userkey, limit);
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          userkey,
+          count: history.length,
+          history,
+        }),
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+          },
+        },
+      );
+    } catch (error) {
+      console.error(`Error fetching score history for ${userkey}:`, error);
+
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        return new Response(
+          JSON.stringify({
+            ok: true,
+            userkey,
+            count: 0,
+            history: [],
+            message:
+              "Database not configured. Set DATABASE_URL to enable score history.",
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Failed to fetch score history",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  },
+};
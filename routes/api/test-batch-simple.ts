@@ -1,4 +1,6 @@
 import { FreshContext } from "$fresh/server.ts";
+import { ETHOS_LEGACY_URL, ethosClient } from "../../utils/ethos-client.ts";
+import { calculateR4rScore } from "../../utils/r4r-score.ts";
 
 interface TestBatchRequest {
   userkeys?: string[];
@@ -38,24 +40,15 @@ async function fetchActiveUsers(limit: number = 10): Promise<Array<{
   try {
     console.log(`🔍 Fetching ${limit} active users from Ethos...`);
     
-    const response = await fetch("https://ethos.network/api/activities", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
+    const data = await ethosClient.post<{ values?: EthosActivity[] }>(
+      `${ETHOS_LEGACY_URL}/api/activities`,
+      {
         limit: limit * 2, // Get more activities to find unique users
         offset: 0,
         filter: "reviews"
-      }),
-    });
-
-    if (!response.ok) {
-      console.error(`Failed to fetch activities: ${response.status}`);
-      return [];
-    }
-
-    const data = await response.json();
+      },
+      { priority: "batch" },
+    );
     const activities: EthosActivity[] = data.values || [];
 
     // Extract unique users
@@ -104,45 +97,31 @@ async function calculateSimpleR4r(userkey: string): Promise<{
     console.log(`🔄 Calculating R4R for user: ${userkey}`);
 
     // Fetch given reviews
-    const givenResponse = await fetch("https://ethos.network/api/activities", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
+    const givenData = await ethosClient.post<{ values?: EthosActivity[] }>(
+      `${ETHOS_LEGACY_URL}/api/activities`,
+      {
         userkey: userkey,
         limit: 100,
         offset: 0,
         filter: "reviews",
         direction: "given"
-      }),
-    });
-
-    if (!givenResponse.ok) {
-      console.warn(`Failed to fetch given reviews for ${userkey}: ${givenResponse.status}`);
-      return null;
-    }
-
-    const givenData = await givenResponse.json();
+      },
+      { priority: "batch" },
+    );
     const givenReviews: EthosActivity[] = givenData.values || [];
 
     // Fetch received reviews
-    const receivedResponse = await fetch("https://ethos.network/api/activities", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
+    const receivedData = await ethosClient.post<{ values?: EthosActivity[] }>(
+      `${ETHOS_LEGACY_URL}/api/activities`,
+      {
         userkey: userkey,
         limit: 100,
         offset: 0,
         filter: "reviews",
         direction: "received"
-      }),
-    });
-
-    if (!receivedResponse.ok) {
-      console.warn(`Failed to fetch received reviews for ${userkey}: ${receivedResponse.status}`);
-      return null;
-    }
-
-    const receivedData = await receivedResponse.json();
+      },
+      { priority: "batch" },
+    );
     const receivedReviews: EthosActivity[] = receivedData.values || [];
 
     // Get user info
@@ -152,25 +131,9 @@ async function calculateSimpleR4r(userkey: string): Promise<{
       return null;
     }
 
-    // Filter active reviews
-    const activeGiven = givenReviews.filter(r => !r.archived);
-    const activeReceived = receivedReviews.filter(r => !r.archived);
-
-    // Calculate reciprocal relationships
-    let reciprocalCount = 0;
-    for (const given of activeGiven) {
-      const reciprocal = activeReceived.find(
-        r => r.author.username === given.subject.username
-      );
-      if (reciprocal) {
-        reciprocalCount++;
-      }
-    }
-
-    // Simple R4R score calculation
-    const reviewsGiven = activeGiven.length;
-    const reviewsReceived = activeReceived.length;
-    const r4rScore = reviewsReceived > 0 ? (reciprocalCount / reviewsReceived) * 100 : 0;
+    // Score with the shared R4R engine (archived reviews are ignored there)
+    const breakdown = calculateR4rScore(givenReviews, receivedReviews);
+    const r4rScore = breakdown.finalScore;
 
     const processingTime = Date.now() - startTime;
 
@@ -179,9 +142,9 @@ async function calculateSimpleR4r(userkey: string): Promise<{
     return {
       userkey: userInfo.userkey,
       username: userInfo.username,
-      r4rScore: Math.round(r4rScore * 10) / 10,
-      reviewsGiven,
-      reviewsReceived,
+      r4rScore,
+      reviewsGiven: breakdown.reviewsGiven,
+      reviewsReceived: breakdown.reviewsReceived,
       processingTime
     };
 
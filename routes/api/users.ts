@@ -0,0 +1,77 @@
+import { Handlers } from "$fresh/server.ts";
+import {
+  type AuthState,
+  createUser,
+  deleteUser,
+  listUsers,
+  ROLES,
+  updateUser,
+  UserError,
+} from "../../utils/auth.ts";
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Admin only - see routes/_middleware.ts
+export const handler: Handlers<unknown, AuthState> = {
+  async GET() {
+    try {
+      const users = await listUsers();
+      return json({ ok: true, roles: ROLES, users });
+    } catch (error) {
+      console.error("Error listing users:", error);
+      return json({ ok: false, error: "Failed to list users" }, 500);
+    }
+  },
+
+  //   { action: "create", username, password, role }
+  //   { action: "update", id, role?, password? }
+  //   { action: "delete", id }
+  async POST(req, ctx) {
+    try {
+      const body = await req.json().catch(() => ({}));
+      const { action, id, username, password, role } = body;
+
+      if (action === "create") {
+        const user = await createUser(String(username ?? ""), password, role);
+        console.log(
+          `👤 ${ctx.state.user?.username} created ${user.role} ${user.username}`,
+        );
+        return json({ ok: true, user }, 201);
+      }
+
+      if (action === "update" && Number.isInteger(id)) {
+        const user = await updateUser(id, { role, password });
+        return user
+          ? json({ ok: true, user })
+          : json({ ok: false, error: `User ${id} not found` }, 404);
+      }
+
+      if (action === "delete" && Number.isInteger(id)) {
+        if (id === ctx.state.user?.id) {
+          return json({ ok: false, error: "You can't delete yourself" }, 400);
+        }
+        const deleted = await deleteUser(id);
+        return deleted
+          ? json({ ok: true, message: `User ${id} deleted` })
+          : json({ ok: false, error: `User ${id} not found` }, 404);
+      }
+
+      return json({
+        ok: false,
+        error: "Invalid action or missing id",
+        validActions: ["create", "update", "delete"],
+      }, 400);
+    } catch (error) {
+      if (error instanceof UserError) {
+        return json({ ok: false, error: error.message }, 400);
+      }
+
+      console.error("Error updating users:", error);
+      return json({ ok: false, error: "User update failed" }, 500);
+    }
+  },
+};
@@ -0,0 +1,112 @@
+import { Handlers, PageProps } from "$fresh/server.ts";
+import { Head } from "$fresh/runtime.ts";
+import {
+  authenticate,
+  type AuthState,
+  createSession,
+  setSessionCookie,
+} from "../utils/auth.ts";
+
+interface LoginData {
+  error?: string;
+  username?: string;
+  next: string;
+}
+
+// Only redirect within this site
+const safeNext = (next: string | null) =>
+  next && next.startsWith("/") && !next.startsWith("//") ? next : "/admin";
+
+export const handler: Handlers<LoginData, AuthState> = {
+  GET(req, ctx) {
+    const next = safeNext(new URL(req.url).searchParams.get("next"));
+    if (ctx.state.user) {
+      return new Response(null, { status: 303, headers: { Location: next } });
+    }
+    return ctx.render({ next });
+  },
+
+  async POST(req, ctx) {
+    const form = await req.formData();
+    const username = String(form.get("username") || "").trim();
+    const password = String(form.get("password") || "");
+    const next = safeNext(String(form.get("next") || ""));
+
+    try {
+      const user = await authenticate(username, password);
+      if (!user) {
+        return ctx.render(
+          { error: "Invalid username or password", username, next },
+          { status: 401 },
+        );
+      }
+
+      const headers = new Headers({ Location: next });
+      setSessionCookie(
+        headers,
+        await createSession(user.id),
+        new URL(req.url).protocol === "https:",
+      );
+      console.log(`🔑 ${user.username} signed in`);
+      return new Response(null, { status: 303, headers });
+    } catch (error) {
+      console.error("Error signing in:", error);
+      const message =
+        error instanceof Error && error.message.includes("DATABASE_URL")
+          ? "Database not configured. Set DATABASE_URL to enable logins."
+          : "Sign in failed, please try again";
+      return ctx.render({ error: message, username, next }, { status: 500 });
+    }
+  },
+};
+
+export default function LoginPage({ data }: PageProps<LoginData>) {
+  const inputClass =
+    "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <>
+      <Head>
+        <title>Sign in - Ethos R4R Analyzer</title>
+      </Head>
+      <div class="min-h-screen bg-gray-900 text-white flex items-center justify-center px-4">
+        <form
+          method="POST"
+          action="/login"
+          class="w-full max-w-sm bg-gray-800 rounded-lg p-6 border border-gray-700 space-y-4"
+        >
+          <h1 class="text-2xl font-bold text-blue-400">🔐 Sign in</h1>
+          {data.error && <div class="text-red-400 text-sm">❌ {data.error}
+          </div>}
+          <input type="hidden" name="next" value={data.next} />
+          <label class="block text-sm font-medium text-gray-300">
+            Username
+            <input
+              name="username"
+              value={data.username}
+              autocomplete="username"
+              required
+              class={`${inputClass} mt-1`}
+            />
+          </label>
+          <label class="block text-sm font-medium text-gray-300">
+            Password
+            <input
+              type="password"
+              name="password"
+              autocomplete="current-password"
+              required
+              class={`${inputClass} mt-1`}
+            />
+          </label>
+          <button
+            type="submit"
+            class="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Sign in
+          </button>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,22 @@
+import { Handlers } from "$fresh/server.ts";
+import {
+  clearSessionCookie,
+  deleteSession,
+  getSessionToken,
+} from "../utils/auth.ts";
+
+export const handler: Handlers = {
+  // POST only, so a link on another site can't sign anyone out
+  async POST(req) {
+    const token = getSessionToken(req);
+    if (token) {
+      await deleteSession(token).catch((error) =>
+        console.error("Error ending session:", error)
+      );
+    }
+
+    const headers = new Headers({ Location: "/login" });
+    clearSessionCookie(headers);
+    return new Response(null, { status: 303, headers });
+  },
+};
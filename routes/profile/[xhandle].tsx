@@ -1,6 +1,9 @@
 import { PageProps, RouteContext } from "$fresh/server.ts";
 import { Head } from "$fresh/runtime.ts";
 import ProfileAnalysisPage from "../../islands/ProfileAnalysisPage.tsx";
+import { ETHOS_LEGACY_URL, ethosClient } from "../../utils/ethos-client.ts";
+import { calculateR4rScore } from "../../utils/r4r-score.ts";
+import type { EthosActivity, EthosUser } from "../../utils/types.ts";
 
 interface ProfileData {
   userkey: string;
@@ -19,76 +22,52 @@ export async function handler(req: Request, ctx: RouteContext) {
 
   try {
     // Use the same API endpoints as the client-side code
-    const searchUrl = `https://ethos.network/api/user-search?query=${encodeURIComponent(xhandle)}`;
+    const searchUrl = `${ETHOS_LEGACY_URL}/api/user-search?query=${encodeURIComponent(xhandle)}`;
     console.log(`Fetching profile data from: ${searchUrl}`);
     
-    const searchResponse = await fetch(searchUrl, {
-      headers: {
-        'User-Agent': 'Ethos R4R Analyzer Bot/1.0',
-        'Accept': 'application/json'
-      }
+    const searchResults = await ethosClient.get<EthosUser[]>(searchUrl, {
+      headers: { 'User-Agent': 'Ethos R4R Analyzer Bot/1.0' },
+      timeoutMs: 5000,
+      maxRetries: 1
     });
+
+    console.log(`Found ${searchResults.length} search results for ${xhandle}`);
     
-    if (searchResponse.ok) {
-      const searchResults = await searchResponse.json();
-      console.log(`Found ${searchResults.length} search results for ${xhandle}`);
-      
-      const user = searchResults.find((u: any) => 
-        u.username?.toLowerCase() === xhandle.toLowerCase() || 
-        u.userkey?.toLowerCase() === xhandle.toLowerCase()
-      );
+    const user = searchResults.find((u) => 
+      u.username?.toLowerCase() === xhandle.toLowerCase() || 
+      u.userkey?.toLowerCase() === xhandle.toLowerCase()
+    );
 
-      if (user) {
-        console.log(`Found user: ${user.name} (@${user.username})`);
-        profileData = {
-          userkey: user.userkey,
-          name: user.name || user.username,
-          username: user.username,
-          avatar: user.avatar || '/logo.svg',
-          score: user.score || 0
-        };
+    if (user) {
+      console.log(`Found user: ${user.name} (@${user.username})`);
+      profileData = {
+        userkey: user.userkey,
+        name: user.name || user.username,
+        username: user.username,
+        avatar: user.avatar || '/logo.svg',
+        score: user.score || 0
+      };
 
-        // Try to fetch additional review statistics with timeout
-        try {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-          
-          const [activitiesGiven, activitiesReceived] = await Promise.all([
-            fetch(`https://ethos.network/api/activities?userkey=${user.userkey}&type=given&limit=100`, {
-              signal: controller.signal,
-              headers: { 'Accept': 'application/json' }
-            }),
-            fetch(`https://ethos.network/api/activities?userkey=${user.userkey}&type=received&limit=100`, {
-              signal: controller.signal,
-              headers: { 'Accept': 'application/json' }
-            })
-          ]);
-          
-          clearTimeout(timeoutId);
+      // Try to fetch additional review statistics with timeout
+      try {
+        // Rendering shouldn't wait on retries - fail fast and skip the stats
+        const requestOptions = { timeoutMs: 5000, maxRetries: 0 };
+        const [givenData, receivedData] = await Promise.all([
+          ethosClient.get<EthosActivity[]>(`${ETHOS_LEGACY_URL}/api/activities?userkey=${user.userkey}&type=given&limit=100`, requestOptions),
+          ethosClient.get<EthosActivity[]>(`${ETHOS_LEGACY_URL}/api/activities?userkey=${user.userkey}&type=received&limit=100`, requestOptions)
+        ]);
 
-          if (activitiesGiven.ok && activitiesReceived.ok) {
-            const givenData = await activitiesGiven.json();
-            const receivedData = await activitiesReceived.json();
-            
-            profileData.reviewsGiven = givenData.length;
-            profileData.reviewsReceived = receivedData.length;
-            
-            // Calculate reciprocal reviews
-            const reciprocalCount = givenData.filter((given: any) => 
-              receivedData.some((received: any) => received.author?.userkey === given.subject?.userkey)
-            ).length;
-            
-            profileData.reciprocalReviews = reciprocalCount;
-            console.log(`Review stats: ${profileData.reviewsGiven} given, ${profileData.reviewsReceived} received, ${reciprocalCount} reciprocal`);
-          }
-        } catch (error) {
-          console.log('Could not fetch review statistics:', error);
-        }
-      } else {
-        console.log(`No user found matching: ${xhandle}`);
+        // Same counts as the analysis itself, so the preview matches the score
+        const breakdown = calculateR4rScore(givenData, receivedData);
+        profileData.reviewsGiven = breakdown.reviewsGiven;
+        profileData.reviewsReceived = breakdown.reviewsReceived;
+        profileData.reciprocalReviews = breakdown.reciprocalReviews;
+        console.log(`Review stats: ${breakdown.reviewsGiven} given, ${breakdown.reviewsReceived} received, ${breakdown.reciprocalReviews} reciprocal`);
+      } catch (error) {
+        console.log('Could not fetch review statistics:', error);
       }
     } else {
-      console.log(`Search API returned status: ${searchResponse.status}`);
+      console.log(`No user found matching: ${xhandle}`);
     }
   } catch (error) {
     console.log('Error fetching profile data:', error);
@@ -0,0 +1,151 @@
+// Which profiles to re-analyze next. Ethos requests are the scarce resource,
+// so batches go to the profiles whose score is most likely to have moved.
+// Each signal is scaled to 0-1 and weighted into a 0-100 priority:
+//
+//   staleness       time since last analysis, saturating at STALE_AFTER_HOURS
+//                   (never analyzed counts as fully stale)
+//   risk            current R4R score - risky profiles are worth watching
+//                   closely (unknown counts as 50)
+//   activity        stored reviews given or received since the last analysis
+//   counterparties  profiles they reviewed or were reviewed by that have been
+//                   re-analyzed since, which can change their high-risk R4R
+//                   count
+//
+// Activity and counterparty signals come from the stored review graph, which
+// discovery and the activity feed keep filling.
+
+import { getClient } from "./database.ts";
+
+export interface PriorityWeights {
+  staleness: number;
+  risk: number;
+  activity: number;
+  counterparties: number;
+}
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  staleness: 35,
+  risk: 25,
+  activity: 25,
+  counterparties: 15,
+};
+
+const STALE_AFTER_HOURS = 7 * 24;
+// Signal counts at which the activity and counterparty signals max out
+const ACTIVITY_SATURATION = 20;
+const COUNTERPARTY_SATURATION = 5;
+// Profiles analyzed more recently than this are left alone
+const DEFAULT_MIN_AGE_HOURS = 6;
+
+export interface RankOptions {
+  // Only profiles with an Ethos score above this
+  minEthosScore?: number | null;
+  minAgeHours?: number;
+  // Leave out profiles ranked below this
+  minPriority?: number;
+  weights?: PriorityWeights;
+}
+
+export interface RankedProfile {
+  userkey: string;
+  username: string | null;
+  ethos_score: number | null;
+  last_analyzed: Date | null;
+  farming_score: number | null;
+  risk_level: string | null;
+  new_reviews: number;
+  changed_counterparties: number;
+  staleness: number;
+  risk: number;
+  activity: number;
+  counterparty_change: number;
+  priority: number;
+}
+
+// Highest priority first. Candidates are every discovered profile plus
+// everyone already on the leaderboard.
+export async function rankProfilesForAnalysis(
+  limit: number,
+  options: RankOptions = {},
+): Promise<RankedProfile[]> {
+  const {
+    minEthosScore = null,
+    minAgeHours = DEFAULT_MIN_AGE_HOURS,
+    minPriority = 0,
+    weights = DEFAULT_PRIORITY_WEIGHTS,
+  } = options;
+  const db = await getClient();
+
+  const result = await db.queryObject<RankedProfile>`
+    WITH edges AS (
+      SELECT author_userkey AS userkey, subject_userkey AS counterparty, review_timestamp
+      FROM reviews WHERE NOT archived
+      UNION ALL
+      SELECT subject_userkey, author_userkey, review_timestamp
+      FROM reviews WHERE NOT archived
+    ),
+    signals AS (
+      SELECT e.userkey,
+        COUNT(*) FILTER (
+          WHERE e.review_timestamp > COALESCE(le.last_analyzed, NOW() - INTERVAL '30 days')
+        ) AS new_reviews,
+        COUNT(DISTINCT e.counterparty) FILTER (
+          WHERE ce.last_analyzed > le.last_analyzed
+        ) AS changed_counterparties
+      FROM edges e
+      LEFT JOIN leaderboard_entries le ON le.userkey = e.userkey
+      LEFT JOIN leaderboard_entries ce ON ce.userkey = e.counterparty
+      GROUP BY e.userkey
+    ),
+    candidates AS (
+      SELECT c.userkey,
+        COALESCE(p.username, le.username) AS username,
+        COALESCE(p.ethos_score, NULLIF(le.ethos_score, 0), le.score) AS ethos_score,
+        le.last_analyzed,
+        le.farming_score,
+        le.risk_level,
+        COALESCE(s.new_reviews, 0)::int AS new_reviews,
+        COALESCE(s.changed_counterparties, 0)::int AS changed_counterparties
+      FROM (
+        SELECT userkey FROM profiles
+        UNION
+        SELECT userkey FROM leaderboard_entries
+      ) c
+      LEFT JOIN profiles p ON p.userkey = c.userkey
+      LEFT JOIN leaderboard_entries le ON le.userkey = c.userkey
+      LEFT JOIN signals s ON s.userkey = c.userkey
+      WHERE le.last_analyzed IS NULL
+        OR le.last_analyzed < NOW() - (${minAgeHours}::float8 * INTERVAL '1 hour')
+    ),
+    scored AS (
+      SELECT *,
+        CASE WHEN last_analyzed IS NULL THEN 1.0
+          ELSE LEAST(
+            EXTRACT(EPOCH FROM NOW() - last_analyzed)::float8 / 3600 / ${STALE_AFTER_HOURS}::float8,
+            1.0
+          )
+        END::float8 AS staleness,
+        (COALESCE(farming_score, 50) / 100.0)::float8 AS risk,
+        LEAST(new_reviews / ${ACTIVITY_SATURATION}::float8, 1.0)::float8 AS activity,
+        LEAST(changed_counterparties / ${COUNTERPARTY_SATURATION}::float8, 1.0)::float8 AS counterparty_change
+      FROM candidates
+      WHERE ${minEthosScore}::int IS NULL OR ethos_score > ${minEthosScore}
+    ),
+    ranked AS (
+      SELECT *,
+        ROUND((
+          staleness * ${weights.staleness}::float8
+          + risk * ${weights.risk}::float8
+          + activity * ${weights.activity}::float8
+          + counterparty_change * ${weights.counterparties}::float8
+        )::numeric, 1)::float8 AS priority
+      FROM scored
+    )
+    SELECT * FROM ranked
+    WHERE priority >= ${minPriority}
+    ORDER BY priority DESC, last_analyzed NULLS FIRST, userkey
+    LIMIT ${limit}
+  `;
+
+  return result.rows;
+}
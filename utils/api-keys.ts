@@ -0,0 +1,130 @@
+// API keys for clients of the public API. A key raises the client's rate
+// limit from the per-IP default to the key's own limit (utils/rate-limit.ts).
+//
+// Keys are shown once when minted; only their SHA-256 hash and a short prefix
+// for recognising them are stored. Clients send them as
+// `Authorization: Bearer r4r_...` or `X-API-Key: r4r_...`.
+
+import { hashToken, toHex } from "./auth.ts";
+import { getClient } from "./database.ts";
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  key_prefix: string;
+  rate_limit_per_minute: number;
+  created_by: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+export interface ApiKeyWithUsage extends ApiKey {
+  requests_today: number;
+  throttled_today: number;
+  requests_7d: number;
+}
+
+const KEY_PREFIX = "r4r_";
+// Characters of the key kept in the clear so admins can tell keys apart
+const SHOWN_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+export const DEFAULT_KEY_RATE_LIMIT = parseInt(
+  Deno.env.get("API_KEY_RATE_LIMIT_PER_MINUTE") || "600",
+);
+
+// Rate limit and usage counters are kept under this client name
+export const keyClient = (key: ApiKey) => `key:${key.id}`;
+
+// The key sent with a request, if any
+export function getRequestApiKey(req: Request): string | null {
+  const header = req.headers.get("X-API-Key") ||
+    req.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return header || null;
+}
+
+// Returns the key together with its secret, which is not stored anywhere
+export async function createApiKey(
+  name: string,
+  rateLimitPerMinute = DEFAULT_KEY_RATE_LIMIT,
+  createdBy: string | null = null,
+): Promise<{ apiKey: ApiKey; secret: string }> {
+  const secret = KEY_PREFIX +
+    toHex(crypto.getRandomValues(new Uint8Array(24)));
+  const db = await getClient();
+
+  const result = await db.queryObject<ApiKey>`
+    INSERT INTO api_keys (name, key_prefix, key_hash, rate_limit_per_minute, created_by)
+    VALUES (
+      ${name}, ${secret.slice(0, SHOWN_PREFIX_LENGTH)}, ${await hashToken(
+    secret,
+  )},
+      ${rateLimitPerMinute}, ${createdBy}
+    )
+    RETURNING id, name, key_prefix, rate_limit_per_minute, created_by,
+      created_at, last_used_at, revoked_at
+  `;
+
+  return { apiKey: result.rows[0], secret };
+}
+
+// The active key for a secret, marking it as used. Null for unknown and
+// revoked keys.
+export async function findApiKey(secret: string): Promise<ApiKey | null> {
+  if (!secret.startsWith(KEY_PREFIX)) return null;
+  const db = await getClient();
+
+  const result = await db.queryObject<ApiKey>`
+    UPDATE api_keys SET last_used_at = NOW()
+    WHERE key_hash = ${await hashToken(secret)} AND revoked_at IS NULL
+    RETURNING id, name, key_prefix, rate_limit_per_minute, created_by,
+      created_at, last_used_at, revoked_at
+  `;
+
+  return result.rows[0] || null;
+}
+
+export async function revokeApiKey(id: number): Promise<boolean> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE api_keys SET revoked_at = NOW()
+    WHERE id = ${id} AND revoked_at IS NULL
+  `;
+
+  return (result.rowCount || 0) > 0;
+}
+
+export async function setApiKeyRateLimit(
+  id: number,
+  rateLimitPerMinute: number,
+): Promise<boolean> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE api_keys SET rate_limit_per_minute = ${rateLimitPerMinute}
+    WHERE id = ${id}
+  `;
+
+  return (result.rowCount || 0) > 0;
+}
+
+// Newest first, with today's and the last week's request counts
+export async function listApiKeys(): Promise<ApiKeyWithUsage[]> {
+  const db = await getClient();
+
+  const result = await db.queryObject<ApiKeyWithUsage>`
+    SELECT k.id, k.name, k.key_prefix, k.rate_limit_per_minute, k.created_by,
+      k.created_at, k.last_used_at, k.revoked_at,
+      COALESCE(SUM(u.requests) FILTER (WHERE u.day = CURRENT_DATE), 0)::int AS requests_today,
+      COALESCE(SUM(u.throttled) FILTER (WHERE u.day = CURRENT_DATE), 0)::int AS throttled_today,
+      COALESCE(SUM(u.requests), 0)::int AS requests_7d
+    FROM api_keys k
+    LEFT JOIN api_usage u
+      ON u.client = 'key:' || k.id AND u.day > CURRENT_DATE - 7
+    GROUP BY k.id
+    ORDER BY k.revoked_at IS NOT NULL, k.created_at DESC
+  `;
+
+  return result.rows;
+}
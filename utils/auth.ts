@@ -0,0 +1,342 @@
+// Logins for the admin page and the APIs that change data.
+//
+//   viewer   can open the admin page
+//   analyst  can also queue and control jobs, rescore and save analyses
+//   admin    can also edit schedules and manage users
+//
+// Passwords are stored as PBKDF2-SHA256 hashes. The session cookie holds a
+// random token and the sessions table only its SHA-256 hash. Access rules per
+// route live in routes/_middleware.ts.
+
+import { deleteCookie, getCookies, setCookie } from "$std/http/cookie.ts";
+import { getClient } from "./database.ts";
+
+export type Role = "admin" | "analyst" | "viewer";
+
+// Lowest to highest
+export const ROLES: Role[] = ["viewer", "analyst", "admin"];
+
+export interface User {
+  id: number;
+  username: string;
+  role: Role;
+  created_at: Date;
+  updated_at: Date;
+  last_login_at: Date | null;
+}
+
+// Request state set by the middleware
+export interface AuthState {
+  user: User | null;
+}
+
+// A user change that was rejected, e.g. a taken username or a weak password
+export class UserError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserError";
+  }
+}
+
+export const SESSION_COOKIE = "r4r_session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Stored with each hash, so raising it only affects new passwords
+const PBKDF2_ITERATIONS = 210_000;
+const MIN_PASSWORD_LENGTH = 10;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,100}$/;
+
+const USER_COLUMNS =
+  "id, username, role, created_at, updated_at, last_login_at";
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+export function hasRole(user: User | null, role: Role): boolean {
+  return user !== null && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+async function pbkdf2(
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/.{2}/g)?.map((b) => parseInt(b, 16)) ?? []);
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+// "pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2-sha256$${PBKDF2_ITERATIONS}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split("$");
+  if (scheme !== "pbkdf2-sha256" || !hash) return false;
+
+  const candidate = await pbkdf2(password, fromHex(salt), parseInt(iterations));
+  return timingSafeEqual(candidate, fromHex(hash));
+}
+
+// Compared against when the username doesn't exist, so a failed login takes
+// as long either way
+let dummyHash: Promise<string> | null = null;
+
+function validatePassword(password: unknown): string {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserError(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+  return password;
+}
+
+export async function createUser(
+  username: string,
+  password: string,
+  role: Role,
+): Promise<User> {
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new UserError(
+      "Username must be 3-100 letters, digits, dots, dashes or underscores",
+    );
+  }
+  if (!isRole(role)) throw new UserError(`Unknown role "${role}"`);
+  const passwordHash = await hashPassword(validatePassword(password));
+  const db = await getClient();
+
+  const result = await db.queryObject<User>(
+    `
+    INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3)
+    ON CONFLICT (username) DO NOTHING
+    RETURNING ${USER_COLUMNS}
+    `,
+    [username, passwordHash, role],
+  );
+  if (!result.rows[0]) throw new UserError(`User "${username}" already exists`);
+
+  return result.rows[0];
+}
+
+export async function listUsers(): Promise<User[]> {
+  const db = await getClient();
+
+  const result = await db.queryObject<User>(
+    `SELECT ${USER_COLUMNS} FROM users ORDER BY username`,
+  );
+
+  return result.rows;
+}
+
+async function ensureOtherAdmin(id: number): Promise<void> {
+  const db = await getClient();
+
+  const result = await db.queryObject<{ count: number }>`
+    SELECT COUNT(*)::int AS count FROM users WHERE role = 'admin' AND id <> ${id}
+  `;
+  if (result.rows[0].count === 0) {
+    throw new UserError("The last admin can't be removed or demoted");
+  }
+}
+
+// Change a user's role and/or password. A new password signs them out
+// everywhere.
+export async function updateUser(
+  id: number,
+  changes: { role?: Role; password?: string },
+): Promise<User | null> {
+  const { role, password } = changes;
+  if (role !== undefined && !isRole(role)) {
+    throw new UserError(`Unknown role "${role}"`);
+  }
+  if (role !== undefined && role !== "admin") await ensureOtherAdmin(id);
+  const passwordHash = password !== undefined
+    ? await hashPassword(validatePassword(password))
+    : null;
+  const db = await getClient();
+
+  const result = await db.queryObject<User>(
+    `
+    UPDATE users
+    SET role = COALESCE($2, role),
+      password_hash = COALESCE($3, password_hash),
+      updated_at = NOW()
+    WHERE id = $1
+    RETURNING ${USER_COLUMNS}
+    `,
+    [id, role ?? null, passwordHash],
+  );
+
+  if (result.rows[0] && passwordHash) {
+    await db.queryObject`DELETE FROM sessions WHERE user_id = ${id}`;
+  }
+  return result.rows[0] || null;
+}
+
+export async function deleteUser(id: number): Promise<boolean> {
+  await ensureOtherAdmin(id);
+  const db = await getClient();
+
+  const result = await db.queryObject`DELETE FROM users WHERE id = ${id}`;
+
+  return (result.rowCount || 0) > 0;
+}
+
+// The user for a username and password, or null
+export async function authenticate(
+  username: string,
+  password: string,
+): Promise<User | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<User & { password_hash: string }>(
+    `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE username = $1`,
+    [username],
+  );
+  const row = result.rows[0];
+
+  if (!row) {
+    dummyHash ??= hashPassword(crypto.randomUUID());
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  if (!await verifyPassword(password, row.password_hash)) return null;
+
+  await db.queryObject`
+    UPDATE users SET last_login_at = NOW() WHERE id = ${row.id}
+  `;
+  const { password_hash: _, ...user } = row;
+  return user;
+}
+
+// SHA-256 hex of a session token or API key, the form they are stored in
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token),
+  );
+  return toHex(new Uint8Array(digest));
+}
+
+// Start a session and return the token for the cookie
+export async function createSession(userId: number): Promise<string> {
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  const db = await getClient();
+
+  await db.queryObject`DELETE FROM sessions WHERE expires_at < NOW()`;
+  await db.queryObject`
+    INSERT INTO sessions (token_hash, user_id, expires_at)
+    VALUES (${await hashToken(token)}, ${userId}, ${expiresAt})
+  `;
+
+  return token;
+}
+
+export async function getSessionUser(token: string): Promise<User | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<User>(
+    `
+    SELECT u.id, u.username, u.role, u.created_at, u.updated_at, u.last_login_at
+    FROM sessions s JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = $1 AND s.expires_at > NOW()
+    `,
+    [await hashToken(token)],
+  );
+
+  return result.rows[0] || null;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  const db = await getClient();
+
+  await db.queryObject`
+    DELETE FROM sessions WHERE token_hash = ${await hashToken(token)}
+  `;
+}
+
+export function getSessionToken(req: Request): string | null {
+  return getCookies(req.headers)[SESSION_COOKIE] || null;
+}
+
+export function setSessionCookie(
+  headers: Headers,
+  token: string,
+  secure: boolean,
+): void {
+  setCookie(headers, {
+    name: SESSION_COOKIE,
+    value: token,
+    path: "/",
+    httpOnly: true,
+    secure,
+    sameSite: "Lax",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+export function clearSessionCookie(headers: Headers): void {
+  deleteCookie(headers, SESSION_COOKIE, { path: "/" });
+}
+
+// Create the admin named by ADMIN_USERNAME / ADMIN_PASSWORD if it doesn't
+// exist yet. An existing user of that name is left untouched.
+export async function bootstrapAdmin(): Promise<void> {
+  const username = Deno.env.get("ADMIN_USERNAME");
+  const password = Deno.env.get("ADMIN_PASSWORD");
+
+  try {
+    if (!username || !password) {
+      const users = await listUsers();
+      if (users.length === 0) {
+        console.warn(
+          "⚠️ No users yet. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin.",
+        );
+      }
+      return;
+    }
+
+    const db = await getClient();
+    const existing = await db.queryObject`
+      SELECT 1 FROM users WHERE username = ${username}
+    `;
+    if (existing.rows.length > 0) return;
+
+    await createUser(username, password, "admin");
+    console.log(`👤 Created admin user ${username}`);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+      return;
+    }
+    console.error("❌ Failed to create admin user:", error);
+  }
+}
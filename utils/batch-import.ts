@@ -0,0 +1,423 @@
+// Imports the CSV results the old shell batch processors wrote before the
+// database existed, as historical analyses with their original timestamps:
+//
+//   batch-results       Status,Username,Userkey,R4R_Score,Processed_At
+//                       (batch-results-YYYYMMDD.csv)
+//   activity-users      timestamp,username,userkey,r4r_score,ethos_score,...
+//                       (activity-batch-results/activity-users-*.csv)
+//   all-users           the same without userkey
+//                       (all-users-results/all-ethos-users-*.csv)
+//
+// Each imported row is appended to score_history, and replaces the profile's
+// leaderboard entry only if that entry is older. The scripts only recorded
+// scores and a few counts, so reciprocal review counts are imported as 0.
+// Importing a file twice doesn't duplicate anything.
+
+import { getClient } from "./database.ts";
+
+export type BatchCsvFormat = "batch-results" | "activity-users" | "all-users";
+
+export interface ImportSkip {
+  // Line in the file, counting the header as line 1
+  line: number;
+  reason: string;
+}
+
+export interface ImportReport {
+  file: string;
+  format: BatchCsvFormat | null;
+  rows: number;
+  imported: number;
+  leaderboardUpdated: number;
+  skipped: ImportSkip[];
+}
+
+interface HistoricalAnalysis {
+  line: number;
+  userkey: string;
+  username: string | null;
+  farmingScore: number;
+  riskLevel: "low" | "moderate" | "high";
+  ethosScore: number | null;
+  ethosXp: number | null;
+  reviewsGiven: number | null;
+  reviewsReceived: number | null;
+  avgReciprocalTime: number | null;
+  processingTime: number | null;
+  analyzedAt: Date;
+}
+
+// Recorded as the analysis_version of imported rows
+export const IMPORT_ANALYSIS_VERSION = "batch-csv";
+
+// Columns each format must have (lowercased), most specific first
+const FORMAT_COLUMNS: [BatchCsvFormat, string[]][] = [
+  ["batch-results", [
+    "status",
+    "username",
+    "userkey",
+    "r4r_score",
+    "processed_at",
+  ]],
+  ["activity-users", [
+    "timestamp",
+    "username",
+    "userkey",
+    "r4r_score",
+    "status",
+  ]],
+  ["all-users", ["timestamp", "username", "r4r_score", "status"]],
+];
+
+const RISK_LEVELS = ["low", "moderate", "high"];
+
+interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+// RFC 4180 records with the line each starts on
+function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n") line++;
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      if (fields.length > 1 || fields[0] !== "") {
+        records.push({ line: recordLine, fields });
+      }
+      fields = [];
+      field = "";
+      recordLine = ++line;
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  return records;
+}
+
+// The shell scripts didn't quote their values, so a value containing a line
+// break was written across two lines. Glue those halves back together when
+// they add up to a full record.
+function joinSplitRecords(records: CsvRecord[], width: number): CsvRecord[] {
+  const joined: CsvRecord[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const next = records[i + 1];
+    if (
+      record.fields.length < width && next &&
+      record.fields.length + next.fields.length - 1 === width
+    ) {
+      const fields = [...record.fields];
+      fields[fields.length - 1] += "\n" + next.fields[0];
+      joined.push({
+        line: record.line,
+        fields: [...fields, ...next.fields.slice(1)],
+      });
+      i++;
+    } else {
+      joined.push(record);
+    }
+  }
+
+  return joined;
+}
+
+export function detectFormat(header: string[]): BatchCsvFormat | null {
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const match = FORMAT_COLUMNS.find(([, required]) =>
+    required.every((column) => columns.includes(column))
+  );
+  return match?.[0] ?? null;
+}
+
+// Timestamps without an offset are taken as UTC
+function parseTimestamp(value: string): Date | null {
+  const iso = value.trim().replace(" ", "T");
+  const date = new Date(/(Z|[+-]\d\d:?\d\d)$/i.test(iso) ? iso : `${iso}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseOptionalNumber(value: string | undefined): number | null {
+  if (!value?.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// A row as an analysis, or the reason it can't be imported. The userkey is
+// empty for all-users rows until it has been looked up.
+function toAnalysis(
+  record: CsvRecord,
+  columns: string[],
+): HistoricalAnalysis | string {
+  const get = (column: string) => {
+    const index = columns.indexOf(column);
+    return index === -1 ? "" : (record.fields[index] ?? "").trim();
+  };
+
+  if (record.fields.length !== columns.length) {
+    return `${record.fields.length} columns, expected ${columns.length}`;
+  }
+
+  const status = get("status");
+  if (status !== "SUCCESS") {
+    const error = get("error_message");
+    return `status ${status || "(empty)"}${error ? `: ${error}` : ""}`;
+  }
+
+  const rawScore = get("r4r_score");
+  if (!rawScore) return "no R4R score";
+  const score = Number(rawScore);
+  if (!Number.isFinite(score)) {
+    return `R4R score ${JSON.stringify(rawScore)} is not a number`;
+  }
+  if (score < 0 || score > 100) return `R4R score ${score} is outside 0-100`;
+
+  const rawTimestamp = get("processed_at") || get("timestamp");
+  const analyzedAt = parseTimestamp(rawTimestamp);
+  if (!analyzedAt) {
+    return `invalid timestamp ${JSON.stringify(rawTimestamp)}`;
+  }
+
+  const userkey = get("userkey");
+  const username = get("username") || null;
+  if (!userkey && !username) return "no userkey or username";
+
+  const riskLevel = get("risk_level").toLowerCase();
+  const farmingScore = Math.round(score);
+
+  return {
+    line: record.line,
+    userkey,
+    username,
+    farmingScore,
+    riskLevel: RISK_LEVELS.includes(riskLevel)
+      ? riskLevel as HistoricalAnalysis["riskLevel"]
+      : farmingScore >= 70
+      ? "high"
+      : farmingScore >= 40
+      ? "moderate"
+      : "low",
+    ethosScore: parseOptionalNumber(get("ethos_score")),
+    ethosXp: parseOptionalNumber(get("ethos_xp")),
+    reviewsGiven: parseOptionalNumber(get("total_reviews_given")),
+    reviewsReceived: parseOptionalNumber(get("total_reviews_received")),
+    avgReciprocalTime: parseOptionalNumber(get("avg_reciprocal_time")),
+    processingTime: parseOptionalNumber(get("processing_time_ms")),
+    analyzedAt,
+  };
+}
+
+// Userkeys of known profiles by lowercased username
+async function lookupUserkeys(
+  usernames: string[],
+): Promise<Map<string, string>> {
+  if (usernames.length === 0) return new Map();
+  const db = await getClient();
+
+  const result = await db.queryObject<{ username: string; userkey: string }>`
+    SELECT DISTINCT ON (lower(username)) lower(username) AS username, userkey
+    FROM (
+      SELECT username, userkey, 1 AS source FROM leaderboard_entries
+      UNION ALL
+      SELECT username, userkey, 2 AS source FROM profiles
+    ) known
+    WHERE lower(username) = ANY(${usernames.map((u) => u.toLowerCase())})
+    ORDER BY lower(username), source
+  `;
+
+  return new Map(result.rows.map((row) => [row.username, row.userkey]));
+}
+
+// Whether the analysis was new, and whether it became the leaderboard entry
+async function saveHistoricalAnalysis(
+  analysis: HistoricalAnalysis,
+): Promise<{ imported: boolean; leaderboardUpdated: boolean }> {
+  const db = await getClient();
+
+  const result = await db.queryObject<
+    { imported: boolean; leaderboard_updated: boolean }
+  >`
+    WITH history AS (
+      INSERT INTO score_history (
+        userkey, farming_score, risk_level, reviews_given, reviews_received,
+        reciprocal_reviews, quick_reciprocations, avg_reciprocal_time,
+        analysis_version, analyzed_at
+      )
+      SELECT
+        ${analysis.userkey}, ${analysis.farmingScore}, ${analysis.riskLevel},
+        COALESCE(${analysis.reviewsGiven}::int, 0),
+        COALESCE(${analysis.reviewsReceived}::int, 0),
+        0, 0, COALESCE(${analysis.avgReciprocalTime}::float, 0),
+        ${IMPORT_ANALYSIS_VERSION}, ${analysis.analyzedAt}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM score_history
+        WHERE userkey = ${analysis.userkey}
+          AND analyzed_at = ${analysis.analyzedAt}
+          AND analysis_version = ${IMPORT_ANALYSIS_VERSION}
+      )
+      RETURNING id
+    ), entry AS (
+      INSERT INTO leaderboard_entries (
+        userkey, username, name, avatar, score, reviews_given, reviews_received,
+        reciprocal_reviews, farming_score, risk_level, quick_reciprocations,
+        avg_reciprocal_time, last_analyzed, analysis_version, processing_time,
+        ethos_score, ethos_xp, updated_at
+      )
+      SELECT
+        ${analysis.userkey},
+        COALESCE(${analysis.username}, p.username, ${analysis.userkey}),
+        COALESCE(p.name, ${analysis.username}, p.username, ${analysis.userkey}),
+        COALESCE(p.avatar, ''),
+        COALESCE(${analysis.ethosScore}::int, p.ethos_score, 0),
+        COALESCE(${analysis.reviewsGiven}::int, 0),
+        COALESCE(${analysis.reviewsReceived}::int, 0),
+        0, ${analysis.farmingScore}, ${analysis.riskLevel}, 0,
+        COALESCE(${analysis.avgReciprocalTime}::float, 0),
+        ${analysis.analyzedAt}, ${IMPORT_ANALYSIS_VERSION},
+        COALESCE(${analysis.processingTime}::int, 0),
+        COALESCE(${analysis.ethosScore}::int, p.ethos_score, 0),
+        COALESCE(${analysis.ethosXp}::int, 0),
+        NOW()
+      FROM history
+      LEFT JOIN profiles p ON p.userkey = ${analysis.userkey}
+      ON CONFLICT (userkey) DO UPDATE SET
+        farming_score = EXCLUDED.farming_score,
+        risk_level = EXCLUDED.risk_level,
+        reviews_given = COALESCE(${analysis.reviewsGiven}::int, leaderboard_entries.reviews_given),
+        reviews_received = COALESCE(${analysis.reviewsReceived}::int, leaderboard_entries.reviews_received),
+        avg_reciprocal_time = COALESCE(${analysis.avgReciprocalTime}::float, leaderboard_entries.avg_reciprocal_time),
+        ethos_score = COALESCE(${analysis.ethosScore}::int, leaderboard_entries.ethos_score),
+        ethos_xp = COALESCE(${analysis.ethosXp}::int, leaderboard_entries.ethos_xp),
+        last_analyzed = EXCLUDED.last_analyzed,
+        analysis_version = EXCLUDED.analysis_version,
+        updated_at = NOW()
+      WHERE leaderboard_entries.last_analyzed < EXCLUDED.last_analyzed
+      RETURNING userkey
+    )
+    SELECT
+      EXISTS (SELECT 1 FROM history) AS imported,
+      EXISTS (SELECT 1 FROM entry) AS leaderboard_updated
+  `;
+
+  return {
+    imported: result.rows[0].imported,
+    leaderboardUpdated: result.rows[0].leaderboard_updated,
+  };
+}
+
+// Parses and imports one CSV file. With dryRun nothing is written, but
+// usernames are still looked up so the report shows what would be skipped
+// (except rows that were already imported).
+export async function importBatchCsv(
+  file: string,
+  text: string,
+  { dryRun = false } = {},
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    file,
+    format: null,
+    rows: 0,
+    imported: 0,
+    leaderboardUpdated: 0,
+    skipped: [],
+  };
+
+  const [header, ...rest] = parseCsv(text);
+  report.format = header ? detectFormat(header.fields) : null;
+  if (!header || !report.format) {
+    report.skipped.push({
+      line: 1,
+      reason: "unrecognised header, not a batch results CSV",
+    });
+    return report;
+  }
+
+  const columns = header.fields.map((column) => column.trim().toLowerCase());
+  const records = joinSplitRecords(rest, columns.length);
+  report.rows = records.length;
+
+  const analyses: HistoricalAnalysis[] = [];
+  for (const record of records) {
+    const analysis = toAnalysis(record, columns);
+    if (typeof analysis === "string") {
+      report.skipped.push({ line: record.line, reason: analysis });
+    } else {
+      analyses.push(analysis);
+    }
+  }
+
+  const userkeys = await lookupUserkeys([
+    ...new Set(
+      analyses.filter((a) => !a.userkey && a.username).map((a) => a.username!),
+    ),
+  ]);
+
+  for (const analysis of analyses) {
+    if (!analysis.userkey) {
+      const userkey = userkeys.get(analysis.username!.toLowerCase());
+      if (!userkey) {
+        report.skipped.push({
+          line: analysis.line,
+          reason:
+            `no userkey for @${analysis.username} (not in profiles or the leaderboard)`,
+        });
+        continue;
+      }
+      analysis.userkey = userkey;
+    }
+
+    if (dryRun) {
+      report.imported++;
+      continue;
+    }
+
+    const saved = await saveHistoricalAnalysis(analysis);
+    if (!saved.imported) {
+      report.skipped.push({ line: analysis.line, reason: "already imported" });
+      continue;
+    }
+    report.imported++;
+    if (saved.leaderboardUpdated) report.leaderboardUpdated++;
+  }
+
+  report.skipped.sort((a, b) => a.line - b.line);
+  return report;
+}
+
+// Skipped rows counted by reason, for summaries
+export function countSkipReasons(
+  skipped: ImportSkip[],
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { reason } of skipped) counts[reason] = (counts[reason] || 0) + 1;
+  return counts;
+}
@@ -0,0 +1,121 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import {
+  countSkipReasons,
+  detectFormat,
+  importBatchCsv,
+} from "./batch-import.ts";
+
+// Dry runs only touch the database to look up userkeys for all-users rows,
+// so these files all have userkeys
+
+const BATCH_RESULTS = `Status,Username,Userkey,R4R_Score,Processed_At
+SUCCESS,alice_r4r,profileId:1001,65,2025-06-27 14:51:24
+SUCCESS,bob_r4r,profileId:1002,100,2025-06-27 14:51:25
+FAILED,carol_reviews,profileId:1003,,2025-06-27 14:51:26
+SUCCESS,dave_builder,profileId:1004,,2025-06-27 14:51:27
+SUCCESS,erin,profileId:1005,abc,2025-06-27 14:51:28
+SUCCESS,frank,profileId:1006,150,2025-06-27 14:51:29
+SUCCESS,grace,profileId:1007,10,yesterday
+SUCCESS,,,10,2025-06-27 14:51:30
+SUCCESS,heidi,profileId:1008,10
+`;
+
+const ACTIVITY_USERS =
+  `timestamp,username,userkey,r4r_score,ethos_score,ethos_xp,risk_level,total_reviews_given,total_reviews_received,avg_reciprocal_time,processing_time_ms,status,error_message,activity_types
+2025-06-27T15:19:32+00:00,alice_r4r,profileId:1001,65,1420,900,moderate,3,3,2.58,1200,SUCCESS,,review
+2025-06-27T15:19:33+00:00,bob_r4r,profileId:1002,0,1385,,,1,1,,800,ERROR,"rate limited, retry",review
+2025-06-27T15:19:34+00:00,carol_reviews,profileId:1003,12,1610,,,2,3,,900,SUCCESS,,"review
+vouch"
+2025-06-27T15:19:35+00:00,dave_builder,profileId:1004,5,1250,,,1,1,,700,SUCCESS,slow
+response,review
+`;
+
+Deno.test("detectFormat recognises the batch processor headers", () => {
+  assertEquals(
+    detectFormat([
+      "Status",
+      "Username",
+      "Userkey",
+      "R4R_Score",
+      "Processed_At",
+    ]),
+    "batch-results",
+  );
+  assertEquals(
+    detectFormat(ACTIVITY_USERS.split("\n")[0].split(",")),
+    "activity-users",
+  );
+  assertEquals(
+    detectFormat(["timestamp", "username", "r4r_score", "status"]),
+    "all-users",
+  );
+  assertEquals(detectFormat(["username", "score"]), null);
+});
+
+Deno.test("importBatchCsv reports why each batch-results row is skipped", async () => {
+  const report = await importBatchCsv("batch.csv", BATCH_RESULTS, {
+    dryRun: true,
+  });
+
+  assertEquals(report.format, "batch-results");
+  assertEquals(report.rows, 9);
+  assertEquals(report.imported, 2);
+  assertEquals(report.skipped, [
+    { line: 4, reason: "status FAILED" },
+    { line: 5, reason: "no R4R score" },
+    { line: 6, reason: 'R4R score "abc" is not a number' },
+    { line: 7, reason: "R4R score 150 is outside 0-100" },
+    { line: 8, reason: 'invalid timestamp "yesterday"' },
+    { line: 9, reason: "no userkey or username" },
+    { line: 10, reason: "4 columns, expected 5" },
+  ]);
+});
+
+Deno.test("importBatchCsv handles quoted values and unquoted line breaks", async () => {
+  const report = await importBatchCsv("activity.csv", ACTIVITY_USERS, {
+    dryRun: true,
+  });
+
+  assertEquals(report.format, "activity-users");
+  assertEquals(report.rows, 4);
+  // Carol's quoted and Dave's unquoted two-line values both parse
+  assertEquals(report.imported, 3);
+  assertEquals(report.skipped, [
+    { line: 3, reason: "status ERROR: rate limited, retry" },
+  ]);
+});
+
+Deno.test("importBatchCsv rejects files with an unknown header", async () => {
+  const report = await importBatchCsv("other.csv", "a,b\n1,2\n", {
+    dryRun: true,
+  });
+
+  assertEquals(report.format, null);
+  assertEquals(report.rows, 0);
+  assertEquals(report.skipped, [
+    { line: 1, reason: "unrecognised header, not a batch results CSV" },
+  ]);
+});
+
+Deno.test("importBatchCsv dry-runs the repo's batch results file", async () => {
+  const file = new URL("../batch-results-20250627.csv", import.meta.url);
+  const report = await importBatchCsv(
+    "batch-results-20250627.csv",
+    await Deno.readTextFile(file),
+    { dryRun: true },
+  );
+
+  assertEquals(report.format, "batch-results");
+  assertEquals(report.imported + report.skipped.length, report.rows);
+});
+
+Deno.test("countSkipReasons groups skipped rows by reason", () => {
+  assertEquals(
+    countSkipReasons([
+      { line: 2, reason: "no R4R score" },
+      { line: 3, reason: "status FAILED" },
+      { line: 4, reason: "no R4R score" },
+    ]),
+    { "no R4R score": 2, "status FAILED": 1 },
+  );
+});
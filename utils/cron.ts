@@ -0,0 +1,292 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week)
+// evaluated in an IANA timezone.
+//
+//   "0 */6 * * *"       every 6 hours on the hour
+//   "30 9 * * MON-FRI"  09:30 on weekdays
+//   "@daily"            midnight every day
+//
+// Fields accept *, lists (1,15), ranges (1-5), steps (*/10, 0-30/5) and
+// month/day names. As in standard cron, when both day-of-month and
+// day-of-week are restricted a day matching either one fires; a field
+// starting with * (including */2) doesn't count as restricted.
+
+export class CronParseError extends Error {
+  constructor(message: string, public expression: string) {
+    super(`Invalid cron expression "${expression}": ${message}`);
+    this.name = "CronParseError";
+  }
+}
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStartAt?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesStartAt: 1 },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, namesStartAt: 0 },
+];
+
+function parseValue(value: string, spec: FieldSpec, expression: string) {
+  const nameIndex = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (nameIndex !== -1) return nameIndex + (spec.namesStartAt ?? 0);
+
+  if (!/^\d+$/.test(value)) {
+    throw new CronParseError(`bad ${spec.name} value "${value}"`, expression);
+  }
+  const number = parseInt(value);
+  if (number < spec.min || number > spec.max) {
+    throw new CronParseError(
+      `${spec.name} ${number} is outside ${spec.min}-${spec.max}`,
+      expression,
+    );
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string) {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText);
+    if (!(step > 0) || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new CronParseError(
+        `bad step "${stepText}" in ${spec.name}`,
+        expression,
+      );
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new CronParseError(
+          `${spec.name} range ${range} runs backwards`,
+          expression,
+        );
+      }
+    } else {
+      start = parseValue(range, spec, expression);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+// Whether a day field picks particular days, which makes a schedule with both
+// day fields match either one. Fields that match every day (1-31, *) don't,
+// and like other crons, neither do steps over * such as */2 - those still
+// filter days, but combine with the other day field as AND.
+function restrictsDays(field: string, days: Set<number>, all: number) {
+  return !field.startsWith("*") && days.size < all;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronParseError(
+      `expected 5 fields, got ${fields.length}`,
+      expression,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((
+    field,
+    i,
+  ) => parseField(field, FIELDS[i], expression));
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: restrictsDays(fields[2], daysOfMonth, 31),
+    dayOfWeekRestricted: restrictsDays(fields[4], daysOfWeek, 7),
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// The wall-clock time in `timezone` at `instant`, as ms in a UTC-based Date
+function toWallClock(instant: number, timezone: string): number {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value);
+  }
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  ) + (instant % 1000 + 1000) % 1000;
+}
+
+// The instant at which `timezone` shows the wall-clock time `wallClock`. Times
+// skipped by a DST jump are shifted forward by the jump (02:30 on a night that
+// jumps from 02:00 to 03:00 runs at 03:30); repeated times resolve to their
+// first occurrence.
+function fromWallClock(wallClock: number, timezone: string): number {
+  const day = 24 * 60 * 60 * 1000;
+  // Offsets either side of any transition near this time
+  const offsetBefore = toWallClock(wallClock - day, timezone) -
+    (wallClock - day);
+  const offsetAfter = toWallClock(wallClock + day, timezone) -
+    (wallClock + day);
+
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter((instant) => toWallClock(instant, timezone) === wallClock);
+  if (candidates.length > 0) return Math.min(...candidates);
+
+  // The time doesn't exist. Read with the offset from before the jump, it
+  // lands the length of the jump later on the new clock.
+  return wallClock - offsetBefore;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+// Next wall-clock minute at or after `from` that matches, searching field by
+// field so sparse schedules don't walk every minute
+function nextWallClockMatch(schedule: CronSchedule, from: number): number {
+  let time = from;
+  // Four years covers every valid day/month combination (Feb 29)
+  const limit = from + 4 * 366 * 24 * 60 * 60 * 1000;
+
+  while (time <= limit) {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+
+    if (!schedule.months.has(month + 1)) {
+      time = Date.UTC(year, month + 1, 1);
+    } else if (!matchesDay(schedule, date)) {
+      time = Date.UTC(year, month, day + 1);
+    } else if (!schedule.hours.has(hour)) {
+      time = Date.UTC(year, month, day, hour + 1);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      time += 60 * 1000;
+    } else {
+      return time;
+    }
+  }
+
+  throw new CronParseError(
+    "never matches a real date",
+    schedule.expression,
+  );
+}
+
+// The first run strictly after `after`
+export function nextCronRun(
+  schedule: CronSchedule | string,
+  after: Date,
+  timezone = "UTC",
+): Date {
+  const parsed = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const minute = 60 * 1000;
+
+  let from = Math.floor(toWallClock(after.getTime(), timezone) / minute) *
+      minute + minute;
+
+  for (;;) {
+    const wallClock = nextWallClockMatch(parsed, from);
+    const instant = fromWallClock(wallClock, timezone);
+    if (instant > after.getTime()) return new Date(instant);
+    // Only reachable around a DST change - keep looking past it
+    from = wallClock + minute;
+  }
+}
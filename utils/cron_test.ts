@@ -0,0 +1,128 @@
+import { assertEquals, assertThrows } from "$std/assert/mod.ts";
+import { CronParseError, nextCronRun, parseCron } from "./cron.ts";
+
+const NEW_YORK = "America/New_York";
+
+const next = (expression: string, after: string, timezone?: string) =>
+  nextCronRun(expression, new Date(after), timezone).toISOString();
+
+Deno.test("parseCron expands macros, names, ranges and steps", () => {
+  const schedule = parseCron("@daily");
+  assertEquals(schedule.expression, "@daily");
+  assertEquals([...schedule.minutes], [0]);
+  assertEquals([...schedule.hours], [0]);
+
+  assertEquals(
+    [...parseCron("*/15 9-17/4 * JAN,MAR MON-FRI").minutes],
+    [0, 15, 30, 45],
+  );
+  assertEquals([...parseCron("0 9-17/4 * * *").hours], [9, 13, 17]);
+  assertEquals([...parseCron("0 0 * JAN,MAR *").months], [1, 3]);
+  assertEquals([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+});
+
+Deno.test("parseCron rejects malformed expressions", () => {
+  assertThrows(() => parseCron("0 0 * *"), CronParseError, "expected 5 fields");
+  assertThrows(() => parseCron("60 * * * *"), CronParseError);
+  assertThrows(() => parseCron("0 0 * FOO *"), CronParseError);
+});
+
+Deno.test("parseCron only counts day fields that pick days as restricted", () => {
+  assertEquals(parseCron("0 0 1 * *").dayOfMonthRestricted, true);
+  assertEquals(parseCron("0 0 * * MON").dayOfWeekRestricted, true);
+  assertEquals(parseCron("0 0 * * *").dayOfMonthRestricted, false);
+  assertEquals(parseCron("0 0 1-31 * 0-6").dayOfMonthRestricted, false);
+  assertEquals(parseCron("0 0 1-31 * 0-6").dayOfWeekRestricted, false);
+  assertEquals(parseCron("0 0 */2 * *").dayOfMonthRestricted, false);
+  assertEquals(parseCron("0 0 * * */2").dayOfWeekRestricted, false);
+});
+
+Deno.test("nextCronRun returns the first run strictly after the given time", () => {
+  assertEquals(
+    next("0 */6 * * *", "2026-01-01T05:59:00Z"),
+    "2026-01-01T06:00:00.000Z",
+  );
+  assertEquals(
+    next("0 */6 * * *", "2026-01-01T06:00:00Z"),
+    "2026-01-01T12:00:00.000Z",
+  );
+  // 2026-01-02 is a Friday
+  assertEquals(
+    next("30 9 * * MON-FRI", "2026-01-02T10:00:00Z"),
+    "2026-01-05T09:30:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun fires on either day field when both are restricted", () => {
+  // The 1st, or any Monday - 2026-01-05 is the first Monday
+  assertEquals(
+    next("0 0 1 * MON", "2026-01-01T00:00:00Z"),
+    "2026-01-05T00:00:00.000Z",
+  );
+  assertEquals(
+    next("0 0 1 * MON", "2026-01-26T00:00:00Z"),
+    "2026-02-01T00:00:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun needs both day fields when one is a step over *", () => {
+  // Odd days of the month that are also Mondays: 2026-01-05, then 2026-01-19
+  assertEquals(
+    next("0 0 */2 * MON", "2026-01-01T00:00:00Z"),
+    "2026-01-05T00:00:00.000Z",
+  );
+  assertEquals(
+    next("0 0 */2 * MON", "2026-01-05T00:00:00Z"),
+    "2026-01-19T00:00:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun evaluates the schedule in the given timezone", () => {
+  assertEquals(
+    next("30 9 * * *", "2026-01-15T00:00:00Z", NEW_YORK),
+    "2026-01-15T14:30:00.000Z",
+  );
+  assertEquals(
+    next("30 9 * * *", "2026-07-15T00:00:00Z", NEW_YORK),
+    "2026-07-15T13:30:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun runs times skipped by a DST jump after the jump", () => {
+  // New York springs forward from 02:00 EST to 03:00 EDT on 2026-03-08, so
+  // 02:30 doesn't exist that day and runs at 03:30 EDT
+  assertEquals(
+    next("30 2 * * *", "2026-03-08T00:00:00Z", NEW_YORK),
+    "2026-03-08T07:30:00.000Z",
+  );
+  assertEquals(
+    next("30 2 * * *", "2026-03-08T07:30:00Z", NEW_YORK),
+    "2026-03-09T06:30:00.000Z",
+  );
+  // Times either side of the gap are unaffected
+  assertEquals(
+    next("0 3 * * *", "2026-03-08T00:00:00Z", NEW_YORK),
+    "2026-03-08T07:00:00.000Z",
+  );
+  assertEquals(
+    next("59 1 * * *", "2026-03-08T00:00:00Z", NEW_YORK),
+    "2026-03-08T06:59:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun runs times repeated by a DST fall-back once", () => {
+  // New York falls back from 02:00 EDT to 01:00 EST on 2026-11-01, so 01:30
+  // happens twice; only the first (EDT) one runs
+  assertEquals(
+    next("30 1 * * *", "2026-11-01T00:00:00Z", NEW_YORK),
+    "2026-11-01T05:30:00.000Z",
+  );
+  assertEquals(
+    next("30 1 * * *", "2026-11-01T05:30:00Z", NEW_YORK),
+    "2026-11-02T06:30:00.000Z",
+  );
+  assertEquals(
+    next("*/30 * * * *", "2026-11-01T05:30:00Z", NEW_YORK),
+    "2026-11-01T07:00:00.000Z",
+  );
+});
@@ -1,4 +1,7 @@
 import { Client } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { getActivityRating, getActivityTime } from "./r4r-score.ts";
+import type { ReviewCluster, ReviewEdge } from "./review-graph.ts";
+import type { EthosActivity, LeaderboardFilters, LeaderboardSortColumn } from "./types.ts";
 
 // Database connection
 let client: Client | null = null;
@@ -102,6 +105,27 @@ async function initializeTables(): Promise<void> {
     // Column already exists - that's fine
   }
 
+  // One-off data migrations that must not run twice, by name
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      name VARCHAR(100) PRIMARY KEY,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Migration: avg_reciprocal_time is in hours. The browser analysis used to
+  // save days (as analysis_version 'v1.0'); the batch route already saved hours.
+  await client.queryObject`
+    WITH applied AS (
+      INSERT INTO schema_migrations (name) VALUES ('avg_reciprocal_time_hours')
+      ON CONFLICT (name) DO NOTHING
+      RETURNING name
+    )
+    UPDATE leaderboard_entries
+    SET avg_reciprocal_time = avg_reciprocal_time * 24
+    WHERE analysis_version = 'v1.0' AND EXISTS (SELECT 1 FROM applied)
+  `;
+
   // Create index for better performance
   await client.queryObject`
     CREATE INDEX IF NOT EXISTS idx_leaderboard_farming_score ON leaderboard_entries(farming_score DESC)
@@ -118,6 +142,354 @@ async function initializeTables(): Promise<void> {
   await client.queryObject`
     CREATE INDEX IF NOT EXISTS idx_leaderboard_high_risk_r4rs ON leaderboard_entries(high_risk_r4rs DESC)
   `;
+
+  // Trigram matching for leaderboard search
+  try {
+    await client.queryObject`CREATE EXTENSION IF NOT EXISTS pg_trgm`;
+  } catch (error) {
+    console.warn("⚠️ Could not enable pg_trgm, leaderboard search will fail:", error);
+  }
+
+  // Scores per algorithm version - keeps old scores when a new version is computed
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS analysis_scores (
+      userkey VARCHAR(255) NOT NULL,
+      analysis_version VARCHAR(20) NOT NULL,
+      farming_score INTEGER NOT NULL,
+      risk_level VARCHAR(20) NOT NULL CHECK (risk_level IN ('low', 'moderate', 'high')),
+      reviews_given INTEGER NOT NULL,
+      reviews_received INTEGER NOT NULL,
+      reciprocal_reviews INTEGER NOT NULL,
+      quick_reciprocations INTEGER NOT NULL,
+      avg_reciprocal_time DECIMAL(10,2) NOT NULL DEFAULT 0,
+      computed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (userkey, analysis_version)
+    )
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_analysis_scores_version ON analysis_scores(analysis_version)
+  `;
+
+  // Raw review activities seen by the analysis flows - the stored review graph
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS reviews (
+      id VARCHAR(255) PRIMARY KEY,
+      author_userkey VARCHAR(255) NOT NULL,
+      author_username VARCHAR(255),
+      subject_userkey VARCHAR(255) NOT NULL,
+      subject_username VARCHAR(255),
+      rating VARCHAR(20),
+      review_timestamp TIMESTAMP,
+      archived BOOLEAN NOT NULL DEFAULT FALSE,
+      fetched_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_reviews_author ON reviews(author_userkey)
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_reviews_subject ON reviews(subject_userkey)
+  `;
+
+  try {
+    await client.queryObject`
+      ALTER TABLE reviews
+      ADD COLUMN IF NOT EXISTS comment TEXT
+    `;
+    await client.queryObject`
+      ALTER TABLE reviews
+      ADD COLUMN IF NOT EXISTS activity_type VARCHAR(50)
+    `;
+  } catch (error) {
+    // Columns already exist - that's fine
+  }
+
+  try {
+    await client.queryObject`
+      ALTER TABLE leaderboard_entries
+      ADD COLUMN IF NOT EXISTS ring_count INTEGER DEFAULT 0
+    `;
+  } catch (error) {
+    // Column already exists - that's fine
+  }
+
+  // Clusters from the last clustering pass over the stored review graph
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS review_clusters (
+      cluster_id VARCHAR(32) PRIMARY KEY,
+      size INTEGER NOT NULL,
+      internal_reviews INTEGER NOT NULL,
+      reciprocal_pairs INTEGER NOT NULL,
+      reciprocity_density DECIMAL(6,4) NOT NULL,
+      internal_ratio DECIMAL(6,4) NOT NULL,
+      computed_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS profile_clusters (
+      userkey VARCHAR(255) PRIMARY KEY,
+      username VARCHAR(255),
+      cluster_id VARCHAR(32) NOT NULL REFERENCES review_clusters(cluster_id) ON DELETE CASCADE
+    )
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_profile_clusters_cluster ON profile_clusters(cluster_id)
+  `;
+
+  try {
+    await client.queryObject`
+      ALTER TABLE leaderboard_entries
+      ADD COLUMN IF NOT EXISTS cluster_id VARCHAR(32)
+    `;
+  } catch (error) {
+    // Column already exists - that's fine
+  }
+
+  // One row per analysis - leaderboard_entries only keeps the latest
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS score_history (
+      id SERIAL PRIMARY KEY,
+      userkey VARCHAR(255) NOT NULL,
+      farming_score INTEGER NOT NULL,
+      risk_level VARCHAR(20) NOT NULL CHECK (risk_level IN ('low', 'moderate', 'high')),
+      reviews_given INTEGER NOT NULL,
+      reviews_received INTEGER NOT NULL,
+      reciprocal_reviews INTEGER NOT NULL,
+      quick_reciprocations INTEGER NOT NULL,
+      avg_reciprocal_time DECIMAL(10,2) NOT NULL DEFAULT 0,
+      analysis_version VARCHAR(20) NOT NULL,
+      analyzed_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_score_history_userkey ON score_history(userkey, analyzed_at DESC)
+  `;
+
+  // Durable background jobs - see utils/job-queue.ts
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS job_queue (
+      id SERIAL PRIMARY KEY,
+      type VARCHAR(50) NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}',
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'dead', 'paused', 'cancelled')),
+      priority INTEGER NOT NULL DEFAULT 0,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 5,
+      run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      locked_by VARCHAR(100),
+      locked_until TIMESTAMP,
+      dedupe_key VARCHAR(255),
+      last_error TEXT,
+      result JSONB,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMP
+    )
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_job_queue_claim ON job_queue(status, priority DESC, run_at)
+  `;
+
+  // Migration: Jobs of a paused or cancelled run are held in the queue
+  await client.queryObject`
+    ALTER TABLE job_queue
+    DROP CONSTRAINT IF EXISTS job_queue_status_check,
+    ADD CONSTRAINT job_queue_status_check
+    CHECK (status IN ('pending', 'running', 'completed', 'dead', 'paused', 'cancelled'))
+  `;
+
+  // At most one queued, running or paused job per dedupe key
+  await client.queryObject`
+    DROP INDEX IF EXISTS idx_job_queue_dedupe
+  `;
+  await client.queryObject`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_job_queue_dedupe_active ON job_queue(dedupe_key)
+    WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running', 'paused')
+  `;
+
+  // Recurring jobs defined by cron expressions - see utils/scheduler.ts
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      id VARCHAR(100) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      cron_expression VARCHAR(100) NOT NULL,
+      timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+      job_type VARCHAR(50) NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}',
+      catch_up VARCHAR(10) NOT NULL DEFAULT 'skip' CHECK (catch_up IN ('skip', 'run_once')),
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      next_run_at TIMESTAMP,
+      last_run_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Lease held by the scheduler instance currently firing a schedule
+  try {
+    await client.queryObject`
+      ALTER TABLE scheduled_jobs
+      ADD COLUMN IF NOT EXISTS locked_by VARCHAR(100)
+    `;
+    await client.queryObject`
+      ALTER TABLE scheduled_jobs
+      ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP
+    `;
+  } catch (error) {
+    // Columns already exist - that's fine
+  }
+
+  // One row per scheduled or manual run - see utils/job-runs.ts
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS job_runs (
+      id SERIAL PRIMARY KEY,
+      job_id VARCHAR(100) NOT NULL,
+      triggered_by VARCHAR(20) NOT NULL CHECK (triggered_by IN ('schedule', 'catch_up', 'manual')),
+      queue_job_id INTEGER,
+      status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'paused', 'succeeded', 'partial', 'failed', 'skipped', 'cancelled')),
+      total INTEGER,
+      processed INTEGER NOT NULL DEFAULT 0,
+      failed INTEGER NOT NULL DEFAULT 0,
+      errors JSONB NOT NULL DEFAULT '[]',
+      logs JSONB NOT NULL DEFAULT '[]',
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      started_at TIMESTAMP,
+      finished_at TIMESTAMP
+    )
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_job_runs_job ON job_runs(job_id, created_at DESC)
+  `;
+
+  // Migration: Runs can be paused and cancelled
+  await client.queryObject`
+    ALTER TABLE job_runs
+    DROP CONSTRAINT IF EXISTS job_runs_status_check,
+    ADD CONSTRAINT job_runs_status_check
+    CHECK (status IN ('queued', 'running', 'paused', 'succeeded', 'partial', 'failed', 'skipped', 'cancelled'))
+  `;
+
+  // Every Ethos profile the discovery crawler has seen - see utils/discovery.ts
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS profiles (
+      userkey VARCHAR(255) PRIMARY KEY,
+      username VARCHAR(255),
+      name VARCHAR(255),
+      avatar TEXT,
+      ethos_score INTEGER,
+      profile_id INTEGER,
+      discovered_via VARCHAR(20) NOT NULL CHECK (discovered_via IN ('seed', 'activity_feed', 'review_graph', 'search')),
+      discovered_from VARCHAR(255),
+      crawl_depth INTEGER NOT NULL DEFAULT 0,
+      first_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      crawled_at TIMESTAMP
+    )
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_profiles_crawl ON profiles(crawled_at NULLS FIRST, crawl_depth, first_seen_at)
+  `;
+
+  // Resume points for discovery sweeps
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS discovery_cursors (
+      name VARCHAR(50) PRIMARY KEY,
+      position INTEGER NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // How far each profile's reviews have been synced, per direction
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS review_sync_state (
+      userkey VARCHAR(255) NOT NULL,
+      direction VARCHAR(10) NOT NULL CHECK (direction IN ('given', 'received')),
+      newest_timestamp TIMESTAMP,
+      total_activities INTEGER NOT NULL DEFAULT 0,
+      last_synced_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_full_sync_at TIMESTAMP,
+      PRIMARY KEY (userkey, direction)
+    )
+  `;
+
+  // The userkey form Ethos returned for the profile, which stored reviews and
+  // the leaderboard use - it can differ from the one the sync was asked for
+  await client.queryObject`
+    ALTER TABLE review_sync_state
+    ADD COLUMN IF NOT EXISTS profile_userkey VARCHAR(255)
+  `;
+
+  // Logins for the admin page and mutating APIs - see utils/auth.ts
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      username VARCHAR(100) NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'analyst', 'viewer')),
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_login_at TIMESTAMP
+    )
+  `;
+
+  // Sessions are looked up by a hash of the cookie token, never the token itself
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS sessions (
+      token_hash VARCHAR(64) PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMP NOT NULL
+    )
+  `;
+
+  await client.queryObject`
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)
+  `;
+
+  // Keys issued to API clients - see utils/api-keys.ts
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      key_prefix VARCHAR(20) NOT NULL,
+      key_hash VARCHAR(64) NOT NULL UNIQUE,
+      rate_limit_per_minute INTEGER NOT NULL,
+      created_by VARCHAR(100),
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_used_at TIMESTAMP,
+      revoked_at TIMESTAMP
+    )
+  `;
+
+  // Requests per client (API key or IP) per one-minute window - see utils/rate-limit.ts
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS rate_limit_windows (
+      client VARCHAR(100) NOT NULL,
+      window_start TIMESTAMP NOT NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (client, window_start)
+    )
+  `;
+
+  // Daily request and throttled counts per client
+  await client.queryObject`
+    CREATE TABLE IF NOT EXISTS api_usage (
+      client VARCHAR(100) NOT NULL,
+      day DATE NOT NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      throttled INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (client, day)
+    )
+  `;
 }
 
 export interface LeaderboardEntry {
@@ -139,8 +511,12 @@ export interface LeaderboardEntry {
   ethos_score?: number;
   ethos_xp?: number;
   high_risk_r4rs?: number;
+  ring_count?: number;
+  cluster_id?: string | null;
   created_at?: string;
   updated_at?: string;
+  // Position under the requested sort and filters, from getLeaderboard
+  rank?: number;
 }
 
 export async function saveLeaderboardEntry(entry: LeaderboardEntry): Promise<void> {
@@ -151,14 +527,15 @@ export async function saveLeaderboardEntry(entry: LeaderboardEntry): Promise<voi
       userkey, username, name, avatar, score, reviews_given, reviews_received,
       reciprocal_reviews, farming_score, risk_level, quick_reciprocations,
       avg_reciprocal_time, last_analyzed, analysis_version, processing_time,
-      ethos_score, ethos_xp, high_risk_r4rs, updated_at
+      ethos_score, ethos_xp, high_risk_r4rs, ring_count, updated_at
     ) VALUES (
       ${entry.userkey}, ${entry.username}, ${entry.name}, ${entry.avatar},
       ${entry.score}, ${entry.reviews_given}, ${entry.reviews_received},
       ${entry.reciprocal_reviews}, ${entry.farming_score}, ${entry.risk_level},
       ${entry.quick_reciprocations}, ${entry.avg_reciprocal_time},
       ${entry.last_analyzed}, ${entry.analysis_version}, ${entry.processing_time},
-      ${entry.ethos_score || 0}, ${entry.ethos_xp || 0}, ${entry.high_risk_r4rs || 0}, NOW()
+      ${entry.ethos_score || 0}, ${entry.ethos_xp || 0}, ${entry.high_risk_r4rs || 0},
+      ${entry.ring_count || 0}, NOW()
     )
     ON CONFLICT (userkey) DO UPDATE SET
       username = EXCLUDED.username,
@@ -178,16 +555,967 @@ export async function saveLeaderboardEntry(entry: LeaderboardEntry): Promise<voi
       ethos_score = EXCLUDED.ethos_score,
       ethos_xp = EXCLUDED.ethos_xp,
       high_risk_r4rs = EXCLUDED.high_risk_r4rs,
+      ring_count = EXCLUDED.ring_count,
       updated_at = NOW()
   `;
+
+  await saveAnalysisScore({
+    userkey: entry.userkey,
+    analysis_version: entry.analysis_version,
+    farming_score: entry.farming_score,
+    risk_level: entry.risk_level,
+    reviews_given: entry.reviews_given,
+    reviews_received: entry.reviews_received,
+    reciprocal_reviews: entry.reciprocal_reviews,
+    quick_reciprocations: entry.quick_reciprocations,
+    avg_reciprocal_time: entry.avg_reciprocal_time,
+    computed_at: entry.last_analyzed
+  });
+
+  await db.queryObject`
+    INSERT INTO score_history (
+      userkey, farming_score, risk_level, reviews_given, reviews_received,
+      reciprocal_reviews, quick_reciprocations, avg_reciprocal_time,
+      analysis_version, analyzed_at
+    ) VALUES (
+      ${entry.userkey}, ${entry.farming_score}, ${entry.risk_level},
+      ${entry.reviews_given}, ${entry.reviews_received},
+      ${entry.reciprocal_reviews}, ${entry.quick_reciprocations},
+      ${entry.avg_reciprocal_time}, ${entry.analysis_version},
+      ${entry.last_analyzed}
+    )
+  `;
+}
+
+export interface ScoreHistoryPoint {
+  farming_score: number;
+  risk_level: 'low' | 'moderate' | 'high';
+  reviews_given: number;
+  reviews_received: number;
+  reciprocal_reviews: number;
+  quick_reciprocations: number;
+  avg_reciprocal_time: number;
+  analysis_version: string;
+  analyzed_at: string;
+}
+
+// A profile's past analyses, oldest first. Limits to the most recent `limit`.
+export async function getScoreHistory(
+  userkey: string,
+  limit = 100
+): Promise<ScoreHistoryPoint[]> {
+  const db = await getClient();
+
+  const result = await db.queryObject<ScoreHistoryPoint>`
+    SELECT * FROM (
+      SELECT
+        farming_score, risk_level, reviews_given, reviews_received,
+        reciprocal_reviews, quick_reciprocations,
+        avg_reciprocal_time::float AS avg_reciprocal_time,
+        analysis_version, analyzed_at
+      FROM score_history
+      WHERE userkey = ${userkey}
+      ORDER BY analyzed_at DESC, id DESC
+      LIMIT ${limit}
+    ) recent
+    ORDER BY analyzed_at ASC
+  `;
+
+  return result.rows;
 }
 
+export interface AnalysisScore {
+  userkey: string;
+  analysis_version: string;
+  farming_score: number;
+  risk_level: 'low' | 'moderate' | 'high';
+  reviews_given: number;
+  reviews_received: number;
+  reciprocal_reviews: number;
+  quick_reciprocations: number;
+  avg_reciprocal_time: number;
+  computed_at: string;
+}
+
+export async function saveAnalysisScore(score: AnalysisScore): Promise<void> {
+  const db = await getClient();
+
+  await db.queryObject`
+    INSERT INTO analysis_scores (
+      userkey, analysis_version, farming_score, risk_level, reviews_given,
+      reviews_received, reciprocal_reviews, quick_reciprocations,
+      avg_reciprocal_time, computed_at
+    ) VALUES (
+      ${score.userkey}, ${score.analysis_version}, ${score.farming_score},
+      ${score.risk_level}, ${score.reviews_given}, ${score.reviews_received},
+      ${score.reciprocal_reviews}, ${score.quick_reciprocations},
+      ${score.avg_reciprocal_time}, ${score.computed_at}
+    )
+    ON CONFLICT (userkey, analysis_version) DO UPDATE SET
+      farming_score = EXCLUDED.farming_score,
+      risk_level = EXCLUDED.risk_level,
+      reviews_given = EXCLUDED.reviews_given,
+      reviews_received = EXCLUDED.reviews_received,
+      reciprocal_reviews = EXCLUDED.reciprocal_reviews,
+      quick_reciprocations = EXCLUDED.quick_reciprocations,
+      avg_reciprocal_time = EXCLUDED.avg_reciprocal_time,
+      computed_at = EXCLUDED.computed_at
+  `;
+}
+
+export async function getAnalysisScoreComparison(
+  baseVersion: string,
+  candidateVersion: string,
+  limit = 100,
+  offset = 0
+): Promise<Array<{
+  userkey: string;
+  username: string;
+  base_score: number | null;
+  base_risk_level: string | null;
+  candidate_score: number;
+  candidate_risk_level: string;
+  candidate_computed_at: string;
+}>> {
+  const db = await getClient();
+
+  const result = await db.queryObject<{
+    userkey: string;
+    username: string;
+    base_score: number | null;
+    base_risk_level: string | null;
+    candidate_score: number;
+    candidate_risk_level: string;
+    candidate_computed_at: string;
+  }>`
+    SELECT
+      c.userkey,
+      COALESCE(l.username, c.userkey) AS username,
+      b.farming_score AS base_score,
+      b.risk_level AS base_risk_level,
+      c.farming_score AS candidate_score,
+      c.risk_level AS candidate_risk_level,
+      c.computed_at AS candidate_computed_at
+    FROM analysis_scores c
+    LEFT JOIN analysis_scores b
+      ON b.userkey = c.userkey AND b.analysis_version = ${baseVersion}
+    LEFT JOIN leaderboard_entries l ON l.userkey = c.userkey
+    WHERE c.analysis_version = ${candidateVersion}
+    ORDER BY ABS(c.farming_score - COALESCE(b.farming_score, 0)) DESC, c.userkey
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  return result.rows;
+}
+
+// Upsert review activities into the stored review graph
+export async function saveReviews(activities: EthosActivity[]): Promise<number> {
+  const db = await getClient();
+  const chunkSize = 200;
+  let saved = 0;
+
+  for (let i = 0; i < activities.length; i += chunkSize) {
+    const chunk = activities.slice(i, i + chunkSize).filter((a) => a.id);
+    if (chunk.length === 0) continue;
+
+    const args: unknown[] = [];
+    const rows = chunk.map((activity) => {
+      const time = getActivityTime(activity);
+      args.push(
+        String(activity.id),
+        activity.type || null,
+        activity.author.userkey,
+        activity.author.username,
+        activity.subject.userkey,
+        activity.subject.username,
+        getActivityRating(activity) || null,
+        activity.data?.comment ?? activity.content?.text ?? null,
+        isNaN(time) ? null : new Date(time),
+        activity.archived || false,
+      );
+      const n = args.length;
+      const params = Array.from({ length: 10 }, (_, j) => `$${n - 9 + j}`);
+      return `(${params.join(", ")}, NOW())`;
+    });
+
+    await db.queryObject(
+      `
+      INSERT INTO reviews (
+        id, activity_type, author_userkey, author_username, subject_userkey,
+        subject_username, rating, comment, review_timestamp, archived, fetched_at
+      ) VALUES ${rows.join(", ")}
+      ON CONFLICT (id) DO UPDATE SET
+        activity_type = COALESCE(EXCLUDED.activity_type, reviews.activity_type),
+        author_username = EXCLUDED.author_username,
+        subject_username = EXCLUDED.subject_username,
+        rating = EXCLUDED.rating,
+        comment = COALESCE(EXCLUDED.comment, reviews.comment),
+        review_timestamp = EXCLUDED.review_timestamp,
+        archived = EXCLUDED.archived,
+        fetched_at = NOW()
+      `,
+      args,
+    );
+    saved += chunk.length;
+  }
+
+  return saved;
+}
+
+export interface ReviewSyncState {
+  userkey: string;
+  direction: 'given' | 'received';
+  newest_timestamp: Date | null;
+  total_activities: number;
+  last_synced_at: Date;
+  last_full_sync_at: Date | null;
+  profile_userkey: string | null;
+}
+
+export async function getReviewSyncState(
+  userkey: string,
+  direction: 'given' | 'received'
+): Promise<ReviewSyncState | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<ReviewSyncState>`
+    SELECT * FROM review_sync_state
+    WHERE userkey = ${userkey} AND direction = ${direction}
+  `;
+
+  return result.rows[0] || null;
+}
+
+// Record a sync. The newest timestamp only moves forward, the full sync time
+// is only touched by full syncs and a known profile userkey is kept.
+export async function saveReviewSyncState(
+  userkey: string,
+  direction: 'given' | 'received',
+  newestTimestamp: Date | null,
+  totalActivities: number,
+  full: boolean,
+  profileUserkey: string | null = null
+): Promise<void> {
+  const db = await getClient();
+
+  await db.queryObject`
+    INSERT INTO review_sync_state (
+      userkey, direction, newest_timestamp, total_activities, last_synced_at, last_full_sync_at,
+      profile_userkey
+    ) VALUES (
+      ${userkey}, ${direction}, ${newestTimestamp}, ${totalActivities}, NOW(),
+      ${full ? new Date() : null}, ${profileUserkey}
+    )
+    ON CONFLICT (userkey, direction) DO UPDATE SET
+      newest_timestamp = GREATEST(review_sync_state.newest_timestamp, EXCLUDED.newest_timestamp),
+      total_activities = EXCLUDED.total_activities,
+      last_synced_at = NOW(),
+      last_full_sync_at = COALESCE(EXCLUDED.last_full_sync_at, review_sync_state.last_full_sync_at),
+      profile_userkey = COALESCE(EXCLUDED.profile_userkey, review_sync_state.profile_userkey)
+  `;
+}
+
+// After a complete (untruncated) fetch, any stored review in that direction
+// that Ethos no longer returned has been removed - mark it archived
+export async function archiveMissingReviews(
+  userkey: string,
+  direction: 'given' | 'received',
+  seenIds: string[]
+): Promise<number> {
+  const db = await getClient();
+  const column = direction === 'given' ? 'author_userkey' : 'subject_userkey';
+
+  const result = await db.queryObject(
+    `
+    UPDATE reviews SET archived = TRUE, fetched_at = NOW()
+    WHERE ${column} = $1 AND NOT archived AND NOT (id = ANY($2))
+    `,
+    [userkey, seenIds],
+  );
+
+  return result.rowCount || 0;
+}
+
+interface StoredReviewRow {
+  id: string;
+  activity_type: string | null;
+  author_userkey: string;
+  author_username: string | null;
+  subject_userkey: string;
+  subject_username: string | null;
+  rating: 'positive' | 'negative' | 'neutral' | null;
+  comment: string | null;
+  review_timestamp: Date | null;
+  archived: boolean;
+}
+
+// Rebuild the activity shape the scoring engine expects. Names, avatars and
+// scores aren't stored, so the username stands in for the name.
+function toStoredActivity(row: StoredReviewRow): EthosActivity {
+  const authorUsername = row.author_username || row.author_userkey;
+  const subjectUsername = row.subject_username || row.subject_userkey;
+  return {
+    id: row.id,
+    type: row.activity_type || 'review',
+    timestamp: row.review_timestamp ? new Date(row.review_timestamp).toISOString() : '',
+    archived: row.archived,
+    author: { userkey: row.author_userkey, name: authorUsername, username: authorUsername, avatar: '', score: 0 },
+    subject: { userkey: row.subject_userkey, name: subjectUsername, username: subjectUsername, avatar: '', score: 0 },
+    data: row.rating ? { score: row.rating, comment: row.comment || '' } : undefined,
+  };
+}
+
+// A profile's stored reviews in both directions, so it can be rescored
+// without going back to Ethos
+export async function getStoredReviewActivities(userkey: string): Promise<{
+  given: EthosActivity[];
+  received: EthosActivity[];
+}> {
+  const db = await getClient();
+
+  const result = await db.queryObject<StoredReviewRow>`
+    SELECT
+      id, activity_type, author_userkey, author_username, subject_userkey,
+      subject_username, rating, comment, review_timestamp, archived
+    FROM reviews
+    WHERE author_userkey = ${userkey} OR subject_userkey = ${userkey}
+    ORDER BY review_timestamp DESC NULLS LAST
+  `;
+
+  const given: EthosActivity[] = [];
+  const received: EthosActivity[] = [];
+  for (const row of result.rows) {
+    if (row.author_userkey === userkey) given.push(toStoredActivity(row));
+    if (row.subject_userkey === userkey) received.push(toStoredActivity(row));
+  }
+
+  return { given, received };
+}
+
+// Positive-positive reciprocal pairs with profiles whose R4R score is at or
+// above the threshold, counted from stored reviews
+export async function countHighRiskR4rs(userkey: string, threshold = 70): Promise<number> {
+  const db = await getClient();
+
+  const result = await db.queryObject<{ count: number }>`
+    SELECT COUNT(DISTINCT g.subject_userkey)::int AS count
+    FROM reviews g
+    JOIN reviews r
+      ON r.author_userkey = g.subject_userkey AND r.subject_userkey = g.author_userkey
+    JOIN leaderboard_entries l ON l.userkey = g.subject_userkey
+    WHERE g.author_userkey = ${userkey}
+      AND g.rating = 'positive' AND NOT g.archived
+      AND r.rating = 'positive' AND NOT r.archived
+      AND l.farming_score >= ${threshold}
+  `;
+
+  return result.rows[0]?.count || 0;
+}
+
+// Recount high_risk_r4rs for every leaderboard entry in one statement
+export async function refreshHighRiskR4rCounts(threshold = 70): Promise<number> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    WITH counts AS (
+      SELECT g.author_userkey AS userkey, COUNT(DISTINCT g.subject_userkey)::int AS count
+      FROM reviews g
+      JOIN reviews r
+        ON r.author_userkey = g.subject_userkey AND r.subject_userkey = g.author_userkey
+      JOIN leaderboard_entries l ON l.userkey = g.subject_userkey
+      WHERE g.rating = 'positive' AND NOT g.archived
+        AND r.rating = 'positive' AND NOT r.archived
+        AND l.farming_score >= ${threshold}
+      GROUP BY g.author_userkey
+    )
+    UPDATE leaderboard_entries e
+    SET high_risk_r4rs = COALESCE((SELECT count FROM counts WHERE counts.userkey = e.userkey), 0)
+  `;
+
+  return result.rowCount || 0;
+}
+
+interface ReviewEdgeRow {
+  id: string;
+  author_userkey: string;
+  author_username: string | null;
+  subject_userkey: string;
+  subject_username: string | null;
+  review_timestamp: Date;
+}
+
+function toReviewEdge(row: ReviewEdgeRow): ReviewEdge {
+  return {
+    id: row.id,
+    authorUserkey: row.author_userkey,
+    authorUsername: row.author_username || row.author_userkey,
+    subjectUserkey: row.subject_userkey,
+    subjectUsername: row.subject_username || row.subject_userkey,
+    timestamp: new Date(row.review_timestamp).getTime(),
+  };
+}
+
+// Positive reviews that can take part in a short cycle through `userkey`:
+// reviews written by the user or anyone they reviewed, and reviews received
+// by the user or anyone who reviewed them
+export async function getRingCandidateEdges(userkey: string): Promise<ReviewEdge[]> {
+  const db = await getClient();
+
+  const result = await db.queryObject<ReviewEdgeRow>`
+    WITH positive AS (
+      SELECT * FROM reviews
+      WHERE rating = 'positive' AND NOT archived AND review_timestamp IS NOT NULL
+    ),
+    reviewed AS (
+      SELECT DISTINCT subject_userkey AS userkey FROM positive WHERE author_userkey = ${userkey}
+    ),
+    reviewers AS (
+      SELECT DISTINCT author_userkey AS userkey FROM positive WHERE subject_userkey = ${userkey}
+    )
+    SELECT id, author_userkey, author_username, subject_userkey, subject_username, review_timestamp
+    FROM positive
+    WHERE author_userkey = ${userkey}
+      OR subject_userkey = ${userkey}
+      OR author_userkey IN (SELECT userkey FROM reviewed)
+      OR subject_userkey IN (SELECT userkey FROM reviewers)
+  `;
+
+  return result.rows.map(toReviewEdge);
+}
+
+// Every positive, non-archived stored review - input for the clustering pass
+export async function getPositiveReviewEdges(): Promise<ReviewEdge[]> {
+  const db = await getClient();
+
+  const result = await db.queryObject<ReviewEdgeRow>`
+    SELECT id, author_userkey, author_username, subject_userkey, subject_username, review_timestamp
+    FROM reviews
+    WHERE rating = 'positive' AND NOT archived AND review_timestamp IS NOT NULL
+  `;
+
+  return result.rows.map(toReviewEdge);
+}
+
+// Replace the previous clustering pass with a new one. Runs on its own
+// connection: a transaction locks its client, and the shared one serves every
+// request, the job worker and the scheduler.
+export async function saveClusters(clusters: ReviewCluster[]): Promise<void> {
+  const databaseUrl = Deno.env.get("DATABASE_URL");
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL environment variable is required");
+  }
+
+  const members = clusters.flatMap((cluster) =>
+    cluster.members.map((member) => ({ ...member, clusterId: cluster.id }))
+  );
+
+  const freshClient = new Client(databaseUrl);
+  await freshClient.connect();
+  const transaction = freshClient.createTransaction("save_clusters");
+
+  try {
+    await transaction.begin();
+    await transaction.queryObject`DELETE FROM review_clusters`;
+
+    await transaction.queryObject`
+      INSERT INTO review_clusters (
+        cluster_id, size, internal_reviews, reciprocal_pairs,
+        reciprocity_density, internal_ratio, computed_at
+      )
+      SELECT *, NOW() FROM unnest(
+        ${clusters.map((c) => c.id)}::text[],
+        ${clusters.map((c) => c.size)}::int[],
+        ${clusters.map((c) => c.internalReviews)}::int[],
+        ${clusters.map((c) => c.reciprocalPairs)}::int[],
+        ${clusters.map((c) => c.reciprocityDensity)}::float8[],
+        ${clusters.map((c) => c.internalRatio)}::float8[]
+      )
+    `;
+
+    await transaction.queryObject`
+      INSERT INTO profile_clusters (userkey, username, cluster_id)
+      SELECT * FROM unnest(
+        ${members.map((m) => m.userkey)}::text[],
+        ${members.map((m) => m.username)}::text[],
+        ${members.map((m) => m.clusterId)}::text[]
+      )
+    `;
+
+    await transaction.queryObject`UPDATE leaderboard_entries SET cluster_id = NULL`;
+    await transaction.queryObject`
+      UPDATE leaderboard_entries l
+      SET cluster_id = pc.cluster_id
+      FROM profile_clusters pc
+      WHERE pc.userkey = l.userkey
+    `;
+
+    await transaction.commit();
+  } catch (error) {
+    // A failed query already ends the transaction, so rollback may have nothing to do
+    await transaction.rollback().catch(() => {});
+    throw error;
+  } finally {
+    await freshClient.end();
+  }
+}
+
+export interface ClusterSummary {
+  cluster_id: string;
+  size: number;
+  internal_reviews: number;
+  reciprocal_pairs: number;
+  reciprocity_density: number;
+  internal_ratio: number;
+  computed_at: string;
+  // Leaderboard members that have been analyzed
+  analyzed_members: number;
+  avg_farming_score: number | null;
+  max_farming_score: number | null;
+}
+
+export async function getClusters(
+  limit = 50,
+  offset = 0,
+  minSize = 3
+): Promise<ClusterSummary[]> {
+  const db = await getClient();
+
+  const result = await db.queryObject<ClusterSummary>`
+    SELECT
+      c.cluster_id,
+      c.size,
+      c.internal_reviews,
+      c.reciprocal_pairs,
+      c.reciprocity_density::float AS reciprocity_density,
+      c.internal_ratio::float AS internal_ratio,
+      c.computed_at,
+      COUNT(l.userkey)::int AS analyzed_members,
+      ROUND(AVG(l.farming_score))::int AS avg_farming_score,
+      MAX(l.farming_score) AS max_farming_score
+    FROM review_clusters c
+    LEFT JOIN profile_clusters pc ON pc.cluster_id = c.cluster_id
+    LEFT JOIN leaderboard_entries l ON l.userkey = pc.userkey
+    WHERE c.size >= ${minSize}
+    GROUP BY c.cluster_id
+    ORDER BY c.reciprocity_density DESC, c.size DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  return result.rows;
+}
+
+export async function getClusterDetail(clusterId: string): Promise<{
+  cluster: ClusterSummary;
+  members: Array<{
+    userkey: string;
+    username: string;
+    name: string | null;
+    avatar: string | null;
+    farming_score: number | null;
+    risk_level: string | null;
+    ring_count: number | null;
+  }>;
+  reviews: ReviewEdge[];
+} | null> {
+  const db = await getClient();
+
+  const clusterResult = await db.queryObject<ClusterSummary>`
+    SELECT
+      c.cluster_id,
+      c.size,
+      c.internal_reviews,
+      c.reciprocal_pairs,
+      c.reciprocity_density::float AS reciprocity_density,
+      c.internal_ratio::float AS internal_ratio,
+      c.computed_at,
+      COUNT(l.userkey)::int AS analyzed_members,
+      ROUND(AVG(l.farming_score))::int AS avg_farming_score,
+      MAX(l.farming_score) AS max_farming_score
+    FROM review_clusters c
+    LEFT JOIN profile_clusters pc ON pc.cluster_id = c.cluster_id
+    LEFT JOIN leaderboard_entries l ON l.userkey = pc.userkey
+    WHERE c.cluster_id = ${clusterId}
+    GROUP BY c.cluster_id
+  `;
+
+  const cluster = clusterResult.rows[0];
+  if (!cluster) return null;
+
+  const membersResult = await db.queryObject<{
+    userkey: string;
+    username: string;
+    name: string | null;
+    avatar: string | null;
+    farming_score: number | null;
+    risk_level: string | null;
+    ring_count: number | null;
+  }>`
+    SELECT
+      pc.userkey,
+      COALESCE(l.username, pc.username, pc.userkey) AS username,
+      l.name,
+      l.avatar,
+      l.farming_score,
+      l.risk_level,
+      l.ring_count
+    FROM profile_clusters pc
+    LEFT JOIN leaderboard_entries l ON l.userkey = pc.userkey
+    WHERE pc.cluster_id = ${clusterId}
+    ORDER BY l.farming_score DESC NULLS LAST, username
+  `;
+
+  const reviewsResult = await db.queryObject<ReviewEdgeRow>`
+    SELECT r.id, r.author_userkey, r.author_username, r.subject_userkey, r.subject_username, r.review_timestamp
+    FROM reviews r
+    JOIN profile_clusters a ON a.userkey = r.author_userkey AND a.cluster_id = ${clusterId}
+    JOIN profile_clusters s ON s.userkey = r.subject_userkey AND s.cluster_id = ${clusterId}
+    WHERE r.rating = 'positive' AND NOT r.archived AND r.review_timestamp IS NOT NULL
+    ORDER BY r.review_timestamp
+  `;
+
+  return {
+    cluster,
+    members: membersResult.rows,
+    reviews: reviewsResult.rows.map(toReviewEdge),
+  };
+}
+
+export type DiscoverySource = 'seed' | 'activity_feed' | 'review_graph' | 'search';
+
+export interface DiscoveredProfile {
+  userkey: string;
+  username?: string | null;
+  name?: string | null;
+  avatar?: string | null;
+  score?: number | null;
+  profileId?: number | null;
+}
+
+export interface StoredProfile {
+  userkey: string;
+  username: string | null;
+  name: string | null;
+  avatar: string | null;
+  ethos_score: number | null;
+  profile_id: number | null;
+  discovered_via: DiscoverySource;
+  discovered_from: string | null;
+  crawl_depth: number;
+  first_seen_at: Date;
+  last_seen_at: Date;
+  crawled_at: Date | null;
+}
+
+// Record profiles seen by a discovery source. Known profiles get fresh
+// details and keep their first-seen time and source; returns how many were new.
+export async function upsertProfiles(
+  profiles: DiscoveredProfile[],
+  source: DiscoverySource,
+  discoveredFrom: string | null = null,
+  depth = 0
+): Promise<number> {
+  const db = await getClient();
+  const chunkSize = 200;
+  let added = 0;
+
+  // One row per userkey - ON CONFLICT can't touch the same row twice
+  const unique = Array.from(
+    new Map(profiles.filter((p) => p.userkey).map((p) => [p.userkey, p])).values(),
+  );
+
+  for (let i = 0; i < unique.length; i += chunkSize) {
+    const chunk = unique.slice(i, i + chunkSize);
+    const args: unknown[] = [];
+    const rows = chunk.map((profile) => {
+      args.push(
+        profile.userkey,
+        profile.username || null,
+        profile.name || null,
+        profile.avatar || null,
+        typeof profile.score === 'number' ? Math.round(profile.score) : null,
+        profile.profileId ?? null,
+        source,
+        discoveredFrom,
+        depth,
+      );
+      const n = args.length;
+      const params = Array.from({ length: 9 }, (_, j) => `$${n - 8 + j}`);
+      return `(${params.join(", ")})`;
+    });
+
+    const result = await db.queryObject<{ inserted: boolean }>(
+      `
+      INSERT INTO profiles (
+        userkey, username, name, avatar, ethos_score, profile_id,
+        discovered_via, discovered_from, crawl_depth
+      ) VALUES ${rows.join(", ")}
+      ON CONFLICT (userkey) DO UPDATE SET
+        username = COALESCE(EXCLUDED.username, profiles.username),
+        name = COALESCE(EXCLUDED.name, profiles.name),
+        avatar = COALESCE(EXCLUDED.avatar, profiles.avatar),
+        ethos_score = COALESCE(EXCLUDED.ethos_score, profiles.ethos_score),
+        profile_id = COALESCE(EXCLUDED.profile_id, profiles.profile_id),
+        crawl_depth = LEAST(profiles.crawl_depth, EXCLUDED.crawl_depth),
+        last_seen_at = NOW()
+      RETURNING (xmax = 0) AS inserted
+      `,
+      args,
+    );
+    added += result.rows.filter((row) => row.inserted).length;
+  }
+
+  return added;
+}
+
+// Everyone already on the leaderboard is a known profile to crawl from
+export async function seedProfilesFromLeaderboard(): Promise<number> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    INSERT INTO profiles (userkey, username, name, avatar, ethos_score, discovered_via)
+    SELECT userkey, username, name, avatar, COALESCE(NULLIF(ethos_score, 0), score), 'seed'
+    FROM leaderboard_entries
+    ON CONFLICT (userkey) DO NOTHING
+  `;
+
+  return result.rowCount || 0;
+}
+
+// Next profiles for the breadth-first review graph crawl: never-crawled ones
+// nearest the seeds first, then the longest since their last crawl
+export async function getProfilesToCrawl(
+  limit: number,
+  recrawlAfterMs: number
+): Promise<StoredProfile[]> {
+  const db = await getClient();
+
+  const result = await db.queryObject<StoredProfile>`
+    SELECT * FROM profiles
+    WHERE crawled_at IS NULL
+      OR crawled_at < NOW() - (${recrawlAfterMs}::float8 * INTERVAL '1 millisecond')
+    ORDER BY crawled_at NULLS FIRST, crawl_depth, first_seen_at
+    LIMIT ${limit}
+  `;
+
+  return result.rows;
+}
+
+export async function markProfileCrawled(userkey: string): Promise<void> {
+  const db = await getClient();
+
+  await db.queryObject`
+    UPDATE profiles SET crawled_at = NOW() WHERE userkey = ${userkey}
+  `;
+}
+
+export async function getDiscoveryCursor(name: string): Promise<number> {
+  const db = await getClient();
+
+  const result = await db.queryObject<{ position: number }>`
+    SELECT position FROM discovery_cursors WHERE name = ${name}
+  `;
+
+  return result.rows[0]?.position ?? 0;
+}
+
+export async function setDiscoveryCursor(name: string, position: number): Promise<void> {
+  const db = await getClient();
+
+  await db.queryObject`
+    INSERT INTO discovery_cursors (name, position, updated_at)
+    VALUES (${name}, ${position}, NOW())
+    ON CONFLICT (name) DO UPDATE SET position = EXCLUDED.position, updated_at = NOW()
+  `;
+}
+
+export async function getProfileStats(): Promise<{
+  total: number;
+  crawled: number;
+  analyzed: number;
+  discoveredLastDay: number;
+  bySource: Record<DiscoverySource, number>;
+}> {
+  const db = await getClient();
+
+  const totals = await db.queryObject<{
+    total: number;
+    crawled: number;
+    analyzed: number;
+    discovered_last_day: number;
+  }>`
+    SELECT
+      COUNT(*)::int AS total,
+      COUNT(p.crawled_at)::int AS crawled,
+      COUNT(le.userkey)::int AS analyzed,
+      COUNT(*) FILTER (WHERE p.first_seen_at > NOW() - INTERVAL '1 day')::int AS discovered_last_day
+    FROM profiles p
+    LEFT JOIN leaderboard_entries le ON le.userkey = p.userkey
+  `;
+
+  const sources = await db.queryObject<{ discovered_via: DiscoverySource; count: number }>`
+    SELECT discovered_via, COUNT(*)::int AS count FROM profiles GROUP BY discovered_via
+  `;
+
+  const bySource: Record<DiscoverySource, number> = {
+    seed: 0,
+    activity_feed: 0,
+    review_graph: 0,
+    search: 0,
+  };
+  for (const row of sources.rows) bySource[row.discovered_via] = row.count;
+
+  const row = totals.rows[0];
+  return {
+    total: row?.total ?? 0,
+    crawled: row?.crawled ?? 0,
+    analyzed: row?.analyzed ?? 0,
+    discoveredLastDay: row?.discovered_last_day ?? 0,
+    bySource,
+  };
+}
+
+export async function getLeaderboardEntry(userkey: string): Promise<LeaderboardEntry | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<LeaderboardEntry>`
+    SELECT * FROM leaderboard_entries WHERE userkey = ${userkey}
+  `;
+
+  return result.rows[0] || null;
+}
+
+const LEADERBOARD_SORT_COLUMNS: LeaderboardSortColumn[] = [
+  'farming_score', 'username', 'name', 'score', 'reviews_given',
+  'reviews_received', 'reciprocal_reviews', 'quick_reciprocations',
+  'avg_reciprocal_time', 'last_analyzed', 'risk_level', 'ethos_xp',
+  'high_risk_r4rs', 'ring_count'
+];
+
+// The camelCase sort keys of LeaderboardFilters
+const LEADERBOARD_SORT_ALIASES: Record<string, LeaderboardSortColumn> = {
+  farmingScore: 'farming_score',
+  reciprocalCount: 'reciprocal_reviews',
+  avgTimeGap: 'avg_reciprocal_time',
+  reviewsReceived: 'reviews_received',
+};
+
+const TIME_RANGE_DAYS = { '30d': 30, '90d': 90 } as const;
+
+// WHERE clause for the filters, with its values appended to params
+function leaderboardWhere(filters: Partial<LeaderboardFilters>, params: unknown[]): string {
+  const conditions: string[] = [];
+  const add = (condition: string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition.replace('?', `$${params.length}`));
+  };
+
+  if (filters.riskLevel && filters.riskLevel !== 'all') {
+    add('risk_level = ?', filters.riskLevel);
+  }
+  if (filters.minReviews) {
+    add('reviews_given + reviews_received >= ?', filters.minReviews);
+  }
+  if (filters.minFarmingScore !== undefined) {
+    add('farming_score >= ?', filters.minFarmingScore);
+  }
+  if (filters.maxFarmingScore !== undefined) {
+    add('farming_score <= ?', filters.maxFarmingScore);
+  }
+  if (filters.minHighRiskR4rs) {
+    add('COALESCE(high_risk_r4rs, 0) >= ?', filters.minHighRiskR4rs);
+  }
+  if (filters.timeRange && filters.timeRange !== 'all') {
+    add("last_analyzed >= NOW() - (?::int * INTERVAL '1 day')", TIME_RANGE_DAYS[filters.timeRange]);
+  }
+  if (filters.analyzedAfter) {
+    add('last_analyzed >= ?::timestamp', filters.analyzedAfter);
+  }
+  if (filters.analyzedBefore) {
+    add('last_analyzed <= ?::timestamp', filters.analyzedBefore);
+  }
+
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+// Escapes LIKE wildcards so a search matches them literally
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+// Search clause for filters.search, which narrows the ranked entries to
+// usernames starting with the query, names containing it, and trigram
+// matches for typos; best matches first
+function leaderboardSearch(search: string, params: unknown[]): { where: string; orderBy: string } {
+  params.push(search.toLowerCase(), escapeLike(search.toLowerCase()));
+  const query = `$${params.length - 1}`;
+  const pattern = `$${params.length}`;
+
+  return {
+    where: `
+      WHERE lower(username) LIKE ${pattern} || '%'
+        OR lower(name) LIKE '%' || ${pattern} || '%'
+        OR lower(username) % ${query}
+        OR lower(name) % ${query}
+    `,
+    orderBy: `
+      ORDER BY lower(username) = ${query} DESC,
+        lower(username) LIKE ${pattern} || '%' DESC,
+        GREATEST(similarity(lower(username), ${query}), similarity(lower(name), ${query})) DESC,
+        rank
+    `,
+  };
+}
+
+// The filtered, ranked entries as a `ranked` CTE, plus the clauses that select
+// and order the rows to return from it
+function leaderboardQuery(
+  filters: Partial<LeaderboardFilters>,
+  params: unknown[]
+): { ranked: string; where: string; orderBy: string } {
+  // Validate sortBy column to prevent SQL injection
+  const requested = filters.sortBy ?? 'farming_score';
+  const sortBy = LEADERBOARD_SORT_ALIASES[requested] ??
+    (LEADERBOARD_SORT_COLUMNS.includes(requested as LeaderboardSortColumn)
+      ? requested
+      : 'farming_score');
+  
+  const orderDirection = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+  
+  // Build the ORDER BY clause based on the column
+  let orderBy;
+  if (sortBy === 'risk_level') {
+    // For risk_level, we need custom ordering since it's not numeric
+    orderBy = `
+      ORDER BY CASE risk_level 
+        WHEN 'high' THEN 3 
+        WHEN 'moderate' THEN 2 
+        WHEN 'low' THEN 1 
+        ELSE 0 END ${orderDirection}, farming_score DESC
+    `;
+  } else {
+    // For other columns, use standard ordering
+    const secondarySort = sortBy !== 'farming_score' ? ', farming_score DESC' : ', reciprocal_reviews DESC';
+    orderBy = `ORDER BY ${sortBy} ${orderDirection}${secondarySort}`;
+  }
+  
+  const ranked = `
+    WITH ranked AS (
+      SELECT *, ROW_NUMBER() OVER (${orderBy})::int AS rank
+      FROM leaderboard_entries
+      ${leaderboardWhere(filters, params)}
+    )
+  `;
+  const search = filters.search?.trim()
+    ? leaderboardSearch(filters.search.trim(), params)
+    : { where: '', orderBy: 'ORDER BY rank' };
+
+  return { ranked, ...search };
+}
+
+// One page of the leaderboard, and how many entries match the filters in total.
+// Each entry carries its rank among all entries matching the filters, so a
+// search result can be found on its page of the unsearched leaderboard.
 export async function getLeaderboard(
-  limit = 50, 
-  offset = 0, 
-  sortBy = 'farming_score', 
-  sortOrder: 'asc' | 'desc' = 'desc'
-): Promise<LeaderboardEntry[]> {
+  filters: Partial<LeaderboardFilters> = {}
+): Promise<{ entries: LeaderboardEntry[]; total: number }> {
   // Use a fresh connection for leaderboard queries to avoid connection conflicts
   const databaseUrl = Deno.env.get("DATABASE_URL");
   if (!databaseUrl) {
@@ -199,51 +1527,85 @@ export async function getLeaderboard(
   try {
     await freshClient.connect();
     
-    // Validate sortBy column to prevent SQL injection
-    const validColumns = [
-      'farming_score', 'username', 'name', 'score', 'reviews_given', 
-      'reviews_received', 'reciprocal_reviews', 'quick_reciprocations', 
-      'avg_reciprocal_time', 'last_analyzed', 'risk_level', 'ethos_xp',
-      'high_risk_r4rs'
-    ];
-    
-    if (!validColumns.includes(sortBy)) {
-      sortBy = 'farming_score';
-    }
-    
-    const orderDirection = sortOrder === 'asc' ? 'ASC' : 'DESC';
+    const params: unknown[] = [];
+    const { ranked, where, orderBy } = leaderboardQuery(filters, params);
     
-    // Build the ORDER BY clause based on the column
-    let query;
-    if (sortBy === 'risk_level') {
-      // For risk_level, we need custom ordering since it's not numeric
-      query = `
-        SELECT * FROM leaderboard_entries
-        ORDER BY CASE risk_level 
-          WHEN 'high' THEN 3 
-          WHEN 'moderate' THEN 2 
-          WHEN 'low' THEN 1 
-          ELSE 0 END ${orderDirection}, farming_score DESC
-        LIMIT $1 OFFSET $2
-      `;
-    } else {
-      // For other columns, use standard ordering
-      const secondarySort = sortBy !== 'farming_score' ? ', farming_score DESC' : ', reciprocal_reviews DESC';
-      query = `
-        SELECT * FROM leaderboard_entries
-        ORDER BY ${sortBy} ${orderDirection}${secondarySort}
-        LIMIT $1 OFFSET $2
-      `;
-    }
+    const countResult = await freshClient.queryObject<{ count: number }>(
+      `${ranked} SELECT COUNT(*)::int AS count FROM ranked ${where}`,
+      params
+    );
     
-    const result = await freshClient.queryObject<LeaderboardEntry>(query, [limit, offset]);
+    const result = await freshClient.queryObject<LeaderboardEntry>(
+      `
+        ${ranked}
+        SELECT * FROM ranked
+        ${where}
+        ${orderBy}
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+      [...params, filters.limit ?? 50, filters.offset ?? 0]
+    );
     
-    return result.rows;
+    return { entries: result.rows, total: countResult.rows[0]?.count ?? 0 };
   } finally {
     await freshClient.end();
   }
 }
 
+// Every entry matching the filters (limit and offset are ignored), read
+// through a server-side cursor in batches so exports of the whole table
+// don't have to fit in memory. Connects before returning, so configuration
+// and query errors surface here rather than halfway through a download.
+// The connection closes once the batches are exhausted or the caller stops
+// iterating early.
+export async function streamLeaderboard(
+  filters: Partial<LeaderboardFilters> = {},
+  batchSize = 500
+): Promise<AsyncGenerator<LeaderboardEntry[]>> {
+  const databaseUrl = Deno.env.get("DATABASE_URL");
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL environment variable is required");
+  }
+  
+  const freshClient = new Client(databaseUrl);
+  await freshClient.connect();
+  const transaction = freshClient.createTransaction("leaderboard_export", { read_only: true });
+  
+  try {
+    await transaction.begin();
+    
+    const params: unknown[] = [];
+    const { ranked, where, orderBy } = leaderboardQuery(filters, params);
+    await transaction.queryObject(
+      `DECLARE leaderboard_export NO SCROLL CURSOR FOR ${ranked} SELECT * FROM ranked ${where} ${orderBy}`,
+      params
+    );
+  } catch (error) {
+    await freshClient.end();
+    throw error;
+  }
+  
+  const batches = (async function* () {
+    try {
+      // Parked here until the first batch is asked for, so that return()
+      // releases the connection even when no rows are ever read
+      yield [];
+      while (true) {
+        const batch = await transaction.queryObject<LeaderboardEntry>(
+          `FETCH ${batchSize} FROM leaderboard_export`
+        );
+        if (batch.rows.length === 0) break;
+        yield batch.rows;
+      }
+      await transaction.commit();
+    } finally {
+      await freshClient.end();
+    }
+  })();
+  await batches.next();
+  return batches;
+}
+
 export async function getLeaderboardStats(): Promise<{
   totalEntries: number;
   highRisk: number;
@@ -299,21 +1661,3 @@ export async function getLeaderboardStats(): Promise<{
     await freshClient.end();
   }
 }
-
-export async function clearLeaderboard(): Promise<number> {
-  const db = await getClient();
-  
-  // First get the count
-  const countResult = await db.queryObject<{ count: bigint }>`
-    SELECT COUNT(*) as count FROM leaderboard_entries
-  `;
-  
-  const count = Number(countResult.rows[0]?.count || 0);
-  
-  // Then delete all entries
-  await db.queryObject`
-    DELETE FROM leaderboard_entries
-  `;
-  
-  return count;
-} 
\ No newline at end of file
@@ -0,0 +1,263 @@
+// Profile discovery: finds Ethos profiles worth analyzing and records them in
+// the profiles table, which the R4R batch job draws from.
+//
+//   activity feed  authors and subjects of the most recent reviews
+//   review graph   breadth-first crawl outwards from known profiles through
+//                  their given and received reviews
+//   search sweep   Ethos search over every two-character prefix, a few terms
+//                  per pass, resuming where the previous pass stopped
+
+import { fetchAllReviewActivities } from "./ethos-api.ts";
+import {
+  ETHOS_LEGACY_URL,
+  ethosClient,
+  type RequestPriority,
+} from "./ethos-client.ts";
+import {
+  type DiscoveredProfile,
+  getDiscoveryCursor,
+  getProfilesToCrawl,
+  markProfileCrawled,
+  saveReviews,
+  seedProfilesFromLeaderboard,
+  setDiscoveryCursor,
+  upsertProfiles,
+} from "./database.ts";
+import type { EthosActivity, EthosUser } from "./types.ts";
+
+// Reviews fetched per direction when expanding a profile. Enough to reach
+// most of its counterparties without paging through huge histories.
+const CRAWL_MAX_ACTIVITIES = 500;
+// Crawled profiles are expanded again after this long to pick up new reviews
+const RECRAWL_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+const FEED_PAGE_SIZE = 100;
+const SEARCH_PAGE_SIZE = 50;
+const SEARCH_MAX_PAGES = 5;
+
+// "aa", "ab" ... "99" - Ethos search needs at least two characters
+const SEARCH_TERMS = (() => {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  const terms: string[] = [];
+  for (const a of chars) for (const b of chars) terms.push(a + b);
+  return terms;
+})();
+
+export interface DiscoveryOptions {
+  // Pages of the recent activity feed to read
+  feedPages?: number;
+  // Profiles to expand through their reviews
+  crawlProfiles?: number;
+  // Search prefixes to sweep
+  searchTerms?: number;
+  priority?: RequestPriority;
+  log?: (message: string) => Promise<void> | void;
+}
+
+export interface DiscoverySourceResult {
+  seen: number;
+  added: number;
+}
+
+export interface DiscoveryResult {
+  seeded: number;
+  feed: DiscoverySourceResult;
+  graph: DiscoverySourceResult & { crawled: number; failed: number };
+  search: DiscoverySourceResult & { terms: string[] };
+  added: number;
+}
+
+const activityProfiles = (activity: EthosActivity): DiscoveredProfile[] =>
+  [activity.author, activity.subject].filter(Boolean).map((user) => ({
+    userkey: user.userkey,
+    username: user.username,
+    name: user.name,
+    avatar: user.avatar,
+    score: user.score,
+  }));
+
+// Authors and subjects of the most recent reviews. The reviews themselves are
+// stored too, as they feed the activity signal of the re-analysis ranking.
+export async function discoverFromActivityFeed(
+  pages = 1,
+  priority: RequestPriority = "batch",
+): Promise<DiscoverySourceResult> {
+  const profiles: DiscoveredProfile[] = [];
+  const activities: EthosActivity[] = [];
+
+  for (let page = 0; page < pages; page++) {
+    const data = await ethosClient.post<{ values?: EthosActivity[] }>(
+      `${ETHOS_LEGACY_URL}/api/activities`,
+      {
+        limit: FEED_PAGE_SIZE,
+        offset: page * FEED_PAGE_SIZE,
+        filter: "reviews",
+      },
+      { priority },
+    );
+    const values = data.values || [];
+    activities.push(...values);
+    profiles.push(...values.flatMap(activityProfiles));
+    if (values.length < FEED_PAGE_SIZE) break;
+  }
+
+  await saveReviews(activities).catch((error) =>
+    console.warn("⚠️ Failed to store activity feed reviews:", error)
+  );
+  const added = await upsertProfiles(profiles, "activity_feed");
+  return { seen: new Set(profiles.map((p) => p.userkey)).size, added };
+}
+
+// Expand the next profiles in breadth-first order: everyone they reviewed or
+// were reviewed by becomes a profile one step further from the seeds. The
+// fetched reviews are stored too, so later analysis can start from them.
+export async function crawlReviewGraph(
+  limit = 10,
+  priority: RequestPriority = "batch",
+  log: (message: string) => Promise<void> | void = console.log,
+): Promise<DiscoverySourceResult & { crawled: number; failed: number }> {
+  const profiles = await getProfilesToCrawl(limit, RECRAWL_AFTER_MS);
+  let seen = 0;
+  let added = 0;
+  let crawled = 0;
+  let failed = 0;
+
+  for (const profile of profiles) {
+    try {
+      const [given, received] = await Promise.all([
+        fetchAllReviewActivities(profile.userkey, "given", {
+          maxActivities: CRAWL_MAX_ACTIVITIES,
+          priority,
+        }),
+        fetchAllReviewActivities(profile.userkey, "received", {
+          maxActivities: CRAWL_MAX_ACTIVITIES,
+          priority,
+        }),
+      ]);
+      const activities = [...given.values, ...received.values];
+
+      await saveReviews(activities).catch((error) =>
+        console.warn(
+          `⚠️ Failed to store reviews for ${profile.userkey}:`,
+          error,
+        )
+      );
+
+      const neighbours = activities
+        .flatMap(activityProfiles)
+        .filter((neighbour) => neighbour.userkey !== profile.userkey);
+      const newProfiles = await upsertProfiles(
+        neighbours,
+        "review_graph",
+        profile.userkey,
+        profile.crawl_depth + 1,
+      );
+
+      seen += new Set(neighbours.map((n) => n.userkey)).size;
+      added += newProfiles;
+      crawled++;
+      await log(
+        `🕸️ Crawled ${
+          profile.username || profile.userkey
+        } (depth ${profile.crawl_depth}): ${activities.length} reviews, ${newProfiles} new profiles`,
+      );
+    } catch (error) {
+      failed++;
+      await log(
+        `❌ Failed to crawl ${profile.userkey}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+
+    // Failed profiles count as crawled too, so one bad profile can't hold up
+    // the crawl - they come round again with the recrawl interval
+    await markProfileCrawled(profile.userkey);
+  }
+
+  return { seen, added, crawled, failed };
+}
+
+// Search the next `count` prefixes, paging through each one's results
+export async function sweepSearch(
+  count = 10,
+  priority: RequestPriority = "batch",
+): Promise<DiscoverySourceResult & { terms: string[] }> {
+  const start = await getDiscoveryCursor("search");
+  const terms = Array.from(
+    { length: Math.min(count, SEARCH_TERMS.length) },
+    (_, i) => SEARCH_TERMS[(start + i) % SEARCH_TERMS.length],
+  );
+  const profiles: DiscoveredProfile[] = [];
+
+  for (const term of terms) {
+    for (let page = 0; page < SEARCH_MAX_PAGES; page++) {
+      const data = await ethosClient.get<{ data?: { values?: EthosUser[] } }>(
+        `/api/v1/search?query=${
+          encodeURIComponent(term)
+        }&limit=${SEARCH_PAGE_SIZE}&offset=${page * SEARCH_PAGE_SIZE}`,
+        { priority },
+      );
+      const values = data.data?.values || [];
+      profiles.push(...values);
+      if (values.length < SEARCH_PAGE_SIZE) break;
+    }
+  }
+
+  await setDiscoveryCursor(
+    "search",
+    (start + terms.length) % SEARCH_TERMS.length,
+  );
+  const added = await upsertProfiles(profiles, "search");
+  return { seen: new Set(profiles.map((p) => p.userkey)).size, added, terms };
+}
+
+// One discovery pass over every source
+export async function runDiscovery(
+  options: DiscoveryOptions = {},
+): Promise<DiscoveryResult> {
+  const {
+    feedPages = 5,
+    crawlProfiles = 25,
+    searchTerms = 20,
+    priority = "batch",
+    log = console.log,
+  } = options;
+
+  const seeded = await seedProfilesFromLeaderboard();
+  if (seeded > 0) {
+    await log(`🌱 Seeded ${seeded} profiles from the leaderboard`);
+  }
+
+  const feed = feedPages > 0
+    ? await discoverFromActivityFeed(feedPages, priority)
+    : { seen: 0, added: 0 };
+  await log(
+    `📰 Activity feed: ${feed.seen} profiles seen, ${feed.added} new`,
+  );
+
+  const graph = crawlProfiles > 0
+    ? await crawlReviewGraph(crawlProfiles, priority, log)
+    : { seen: 0, added: 0, crawled: 0, failed: 0 };
+  await log(
+    `🕸️ Review graph: ${graph.crawled} profiles crawled (${graph.failed} failed), ${graph.added} new`,
+  );
+
+  const search = searchTerms > 0
+    ? await sweepSearch(searchTerms, priority)
+    : { seen: 0, added: 0, terms: [] };
+  if (search.terms.length > 0) {
+    await log(
+      `🔍 Search sweep ${search.terms[0]}-${
+        search.terms[search.terms.length - 1]
+      }: ${search.seen} profiles seen, ${search.added} new`,
+    );
+  }
+
+  return {
+    seeded,
+    feed,
+    graph,
+    search,
+    added: seeded + feed.added + graph.added + search.added,
+  };
+}
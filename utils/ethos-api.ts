@@ -0,0 +1,139 @@
+// Server-side helpers for the Ethos v2 activities API
+
+import { ethosClient, type RequestPriority } from "./ethos-client.ts";
+import { getActivityTime } from "./r4r-score.ts";
+import type { EthosActivity } from "./types.ts";
+
+export type ActivityDirection = "given" | "received";
+
+export interface EthosActivitiesPage {
+  values: EthosActivity[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Fetch one page of review activities given or received by a user
+export async function fetchReviewActivities(
+  userkey: string,
+  direction: ActivityDirection,
+  limit = 500,
+  offset = 0,
+  priority: RequestPriority = "interactive",
+): Promise<EthosActivitiesPage> {
+  const data = await ethosClient.post<Partial<EthosActivitiesPage>>(
+    `/api/v2/activities/profile/${direction}`,
+    {
+      userkey,
+      filter: ["review"],
+      excludeHistorical: false,
+      orderBy: { field: "timestamp", direction: "desc" },
+      limit,
+      offset,
+    },
+    { priority },
+  );
+
+  return {
+    values: data.values || [],
+    total: data.total ?? (data.values?.length || 0),
+    limit: data.limit ?? limit,
+    offset: data.offset ?? offset,
+  };
+}
+
+// Hard cap on activities fetched per user and direction
+export const MAX_ACTIVITIES_PER_USER = 5000;
+
+export interface FetchAllActivitiesOptions {
+  pageSize?: number;
+  maxActivities?: number;
+  priority?: RequestPriority;
+  // Incremental fetch: stop at the first activity older than this (ms since
+  // epoch). Activities are returned newest first, so everything after it is
+  // already known.
+  since?: number;
+  onProgress?: (progress: {
+    userkey: string;
+    direction: ActivityDirection;
+    fetched: number;
+    total: number;
+  }) => void;
+}
+
+export interface AllActivitiesResult {
+  values: EthosActivity[];
+  total: number;
+  truncated: boolean;
+}
+
+// Walk every page of a user's review activities until `total` is reached
+// (or the hard cap is hit, or `since` is passed)
+export async function fetchAllReviewActivities(
+  userkey: string,
+  direction: ActivityDirection,
+  options: FetchAllActivitiesOptions = {},
+): Promise<AllActivitiesResult> {
+  const {
+    pageSize = 100,
+    maxActivities = MAX_ACTIVITIES_PER_USER,
+    priority = "interactive",
+    since,
+    onProgress,
+  } = options;
+
+  const values: EthosActivity[] = [];
+  let total = 0;
+  let offset = 0;
+  let reachedSince = false;
+
+  while (values.length < maxActivities) {
+    const page = await fetchReviewActivities(
+      userkey,
+      direction,
+      Math.min(pageSize, maxActivities - values.length),
+      offset,
+      priority,
+    );
+    offset += page.values.length;
+    total = page.total;
+
+    if (since === undefined) {
+      values.push(...page.values);
+    } else {
+      // Activities at exactly `since` are kept - upserts dedupe them
+      for (const activity of page.values) {
+        if (getActivityTime(activity) < since) {
+          reachedSince = true;
+          break;
+        }
+        values.push(activity);
+      }
+    }
+
+    onProgress?.({ userkey, direction, fetched: values.length, total });
+
+    if (reachedSince || page.values.length === 0 || offset >= total) break;
+  }
+
+  const truncated = !reachedSince && offset < total;
+  if (truncated) {
+    console.warn(
+      `⚠️ Truncated ${direction} activities for ${userkey} at ${values.length}/${total}`,
+    );
+  }
+
+  return { values, total, truncated };
+}
+
+// Default progress reporter for server logs
+export function logActivityProgress(progress: {
+  userkey: string;
+  direction: ActivityDirection;
+  fetched: number;
+  total: number;
+}): void {
+  console.log(
+    `📥 ${progress.userkey} ${progress.direction}: ${progress.fetched}/${progress.total} activities`,
+  );
+}
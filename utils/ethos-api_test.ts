@@ -0,0 +1,70 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { calculateR4rScore } from "./r4r-score.ts";
+
+// Serve the recorded fixtures (fixtures/ethos) and point the shared client at
+// them. The mock imports the client too, so both load once the URL is set.
+const server = Deno.serve(
+  { hostname: "127.0.0.1", port: 0, onListen() {} },
+  (req) => mock.handle(req),
+);
+Deno.env.set("ETHOS_API_BASE_URL", `http://127.0.0.1:${server.addr.port}`);
+const mock = await import("../ethos-mock.ts");
+const { fetchAllReviewActivities } = await import("./ethos-api.ts");
+
+Deno.test("fetchAllReviewActivities pages through the mock's fixtures", async () => {
+  const pages: number[] = [];
+  const given = await fetchAllReviewActivities("profileId:1001", "given", {
+    pageSize: 2,
+    onProgress: ({ fetched }) => pages.push(fetched),
+  });
+
+  assertEquals(pages, [2, 3]);
+  assertEquals(given.total, 3);
+  assertEquals(given.truncated, false);
+  assertEquals(given.values.map((activity) => activity.subject.username), [
+    "dave_builder",
+    "carol_reviews",
+    "bob_r4r",
+  ]);
+});
+
+Deno.test("fetchAllReviewActivities stops at `since` on an incremental fetch", async () => {
+  const given = await fetchAllReviewActivities("profileId:1001", "given", {
+    pageSize: 1,
+    since: new Date("2025-01-02T12:00:00Z").getTime(),
+  });
+
+  assertEquals(given.values.length, 2);
+  assertEquals(given.truncated, false);
+});
+
+Deno.test("Activities fetched from the mock score like the fixtures", async () => {
+  const [given, received] = await Promise.all([
+    fetchAllReviewActivities("profileId:1001", "given"),
+    fetchAllReviewActivities("profileId:1001", "received"),
+  ]);
+
+  const breakdown = calculateR4rScore(
+    given.values,
+    received.values,
+    "v1.0",
+    new Date("2026-01-01T00:00:00Z").getTime(),
+  );
+  assertEquals(breakdown.reciprocalReviews, 2);
+  assertEquals(breakdown.finalScore, 65);
+});
+
+Deno.test("The mock reports a missing fixture as a 404", async () => {
+  const response = await mock.handle(
+    new Request("http://mock/api/v2/activities/profile/given", {
+      method: "POST",
+      body: JSON.stringify({ userkey: "profileId:404" }),
+    }),
+  );
+  assertEquals(response.status, 404);
+  await response.body?.cancel();
+});
+
+Deno.test("Shut down the Ethos mock", async () => {
+  await server.shutdown();
+});
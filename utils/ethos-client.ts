@@ -0,0 +1,322 @@
+// Shared client for the Ethos APIs. Every server-side call to Ethos goes
+// through here so requests get a timeout, retries with exponential backoff
+// (honoring Retry-After) and a single concurrency/rate budget that batch jobs
+// and interactive requests draw from.
+
+export const ETHOS_API_URL = "https://api.ethos.network";
+export const ETHOS_LEGACY_URL = "https://ethos.network";
+
+// Interactive requests are let through before queued batch requests
+export type RequestPriority = "interactive" | "batch";
+
+export interface EthosClientOptions {
+  baseUrl?: string;
+  // Swap in a stub fetch for offline runs
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Longest Retry-After we are willing to wait before giving up
+  maxRetryAfterMs?: number;
+  maxConcurrent?: number;
+  requestsPerSecond?: number;
+}
+
+export interface EthosRequestOptions {
+  method?: "GET" | "POST";
+  body?: unknown;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxRetries?: number;
+  priority?: RequestPriority;
+}
+
+export class EthosApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public url: string,
+    public body?: string,
+  ) {
+    super(message);
+    this.name = "EthosApiError";
+  }
+}
+
+export class EthosRateLimitError extends EthosApiError {
+  constructor(url: string, public retryAfterMs: number | null, body?: string) {
+    super(`Ethos API rate limit exceeded for ${url}`, 429, url, body);
+    this.name = "EthosRateLimitError";
+  }
+}
+
+export class EthosTimeoutError extends Error {
+  constructor(public url: string, public timeoutMs: number) {
+    super(`Ethos API request timed out after ${timeoutMs}ms: ${url}`);
+    this.name = "EthosTimeoutError";
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryable(error: Error): boolean {
+  if (error instanceof EthosTimeoutError) return true;
+  if (error instanceof EthosApiError) {
+    // status 0 means the request never got a response
+    return error.status === 0 || error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+export class EthosClient {
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxRetryAfterMs: number;
+  private maxConcurrent: number;
+  private minIntervalMs: number;
+
+  private active = 0;
+  private nextStartAt = 0;
+  private waiting: Array<{ priority: RequestPriority; resolve: () => void }> =
+    [];
+
+  constructor(options: EthosClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? ETHOS_API_URL;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10000;
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? 60000;
+    this.maxConcurrent = options.maxConcurrent ?? 4;
+    this.minIntervalMs = 1000 / (options.requestsPerSecond ?? 8);
+  }
+
+  get<T>(path: string, options: Omit<EthosRequestOptions, "method"> = {}) {
+    return this.request<T>(path, { ...options, method: "GET" });
+  }
+
+  post<T>(
+    path: string,
+    body: unknown,
+    options: Omit<EthosRequestOptions, "method" | "body"> = {},
+  ) {
+    return this.request<T>(path, { ...options, method: "POST", body });
+  }
+
+  // Paths are resolved against the v1/v2 API host; absolute URLs (e.g. the
+  // legacy ethos.network endpoints) are used as-is
+  async request<T>(
+    path: string,
+    options: EthosRequestOptions = {},
+  ): Promise<T> {
+    const url = /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+    const {
+      method = "GET",
+      body,
+      timeoutMs = this.timeoutMs,
+      maxRetries = this.maxRetries,
+      priority = "interactive",
+    } = options;
+
+    const headers: Record<string, string> = {
+      "Accept": "application/json",
+      ...options.headers,
+    };
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+
+    for (let attempt = 0;; attempt++) {
+      let error: Error;
+      let retryAfterMs: number | null = null;
+
+      await this.acquire(priority);
+      try {
+        const response = await this.fetchWithTimeout(url, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }, timeoutMs);
+
+        if (response.ok) {
+          try {
+            return await response.json() as T;
+          } catch {
+            throw new EthosApiError(
+              `Invalid JSON from Ethos API: ${url}`,
+              response.status,
+              url,
+            );
+          }
+        }
+
+        const text = await response.text().catch(() => "");
+        retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+
+        if (response.status === 429) {
+          error = new EthosRateLimitError(url, retryAfterMs, text);
+          // Back the whole budget off, not just this request
+          this.pause(retryAfterMs ?? this.backoffDelay(attempt));
+        } else {
+          error = new EthosApiError(
+            `Ethos API returned ${response.status} for ${url}`,
+            response.status,
+            url,
+            text,
+          );
+        }
+      } catch (caught) {
+        if (
+          caught instanceof EthosApiError || caught instanceof EthosTimeoutError
+        ) {
+          error = caught;
+        } else {
+          error = new EthosApiError(
+            `Network error calling Ethos API: ${
+              caught instanceof Error ? caught.message : String(caught)
+            }`,
+            0,
+            url,
+          );
+        }
+      } finally {
+        this.release();
+      }
+
+      if (!isRetryable(error) || attempt >= maxRetries) throw error;
+      if (retryAfterMs !== null && retryAfterMs > this.maxRetryAfterMs) {
+        throw error;
+      }
+
+      const delay = retryAfterMs ?? this.backoffDelay(attempt);
+      console.warn(
+        `🔁 ${error.message} - retrying in ${Math.round(delay)}ms (attempt ${
+          attempt + 1
+        }/${maxRetries})`,
+      );
+      await sleep(delay);
+    }
+  }
+
+  // Current budget usage, for status endpoints
+  getStatus() {
+    return {
+      active: this.active,
+      queued: this.waiting.length,
+      maxConcurrent: this.maxConcurrent,
+      requestsPerSecond: 1000 / this.minIntervalMs,
+      pausedForMs: Math.max(0, this.nextStartAt - Date.now()),
+    };
+  }
+
+  private async fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await this.fetchImpl(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new EthosTimeoutError(url, timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    const delay = Math.min(this.baseDelayMs * 2 ** attempt, this.maxDelayMs);
+    // Jitter so parallel batch requests don't retry in lockstep
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  private pause(ms: number) {
+    this.nextStartAt = Math.max(this.nextStartAt, Date.now() + ms);
+  }
+
+  // Wait for a concurrency slot, then for our turn in the rate budget
+  private async acquire(priority: RequestPriority) {
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => {
+        this.waiting.push({ priority, resolve });
+      });
+    } else {
+      this.active++;
+    }
+
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + this.minIntervalMs;
+    if (startAt > now) await sleep(startAt - now);
+  }
+
+  // Hand the slot straight to the next waiter, interactive requests first
+  private release() {
+    const index = this.waiting.findIndex((w) => w.priority === "interactive");
+    const next = this.waiting.splice(index === -1 ? 0 : index, 1)[0];
+    if (next) {
+      next.resolve();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Global client instance. Point ETHOS_API_BASE_URL at the local mock
+// (`deno task mock:ethos`) to run without the live API.
+export const ethosClient = new EthosClient({
+  baseUrl: Deno.env.get("ETHOS_API_BASE_URL") || ETHOS_API_URL,
+});
+
+// Map a client error onto the response a route should return
+export function ethosErrorResponse(
+  error: unknown,
+  message = "Failed to fetch from Ethos API",
+): Response {
+  let status = 500;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (error instanceof EthosRateLimitError) {
+    status = 429;
+    if (error.retryAfterMs !== null) {
+      headers["Retry-After"] = String(Math.ceil(error.retryAfterMs / 1000));
+    }
+  } else if (error instanceof EthosTimeoutError) {
+    status = 504;
+  } else if (error instanceof EthosApiError) {
+    // Pass client errors (bad userkey, not found) through, upstream failures
+    // become a bad gateway
+    status = error.status >= 400 && error.status < 500 ? error.status : 502;
+  }
+
+  return new Response(
+    JSON.stringify({
+      ok: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    }),
+    { status, headers },
+  );
+}
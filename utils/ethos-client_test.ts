@@ -0,0 +1,145 @@
+import {
+  assertAlmostEquals,
+  assertEquals,
+  assertRejects,
+} from "$std/assert/mod.ts";
+import {
+  EthosApiError,
+  EthosClient,
+  EthosRateLimitError,
+  EthosTimeoutError,
+  parseRetryAfter,
+} from "./ethos-client.ts";
+
+// A client whose fetch replays `responses` in order, fast enough for tests
+function stubClient(
+  responses: Array<() => Response | Promise<Response>>,
+  options: { maxRetries?: number; maxRetryAfterMs?: number } = {},
+) {
+  const calls: string[] = [];
+  const client = new EthosClient({
+    baseUrl: "https://ethos.test",
+    baseDelayMs: 1,
+    maxDelayMs: 2,
+    requestsPerSecond: 1000,
+    ...options,
+    fetch: (input) => {
+      calls.push(String(input));
+      const next = responses[Math.min(calls.length, responses.length) - 1];
+      return Promise.resolve(next());
+    },
+  });
+  return { client, calls };
+}
+
+const json = (body: unknown) => () => Response.json(body);
+const status = (code: number, headers: Record<string, string> = {}) => () =>
+  new Response("error", { status: code, headers });
+
+Deno.test("parseRetryAfter reads seconds and HTTP dates", () => {
+  assertEquals(parseRetryAfter(null), null);
+  assertEquals(parseRetryAfter("2"), 2000);
+  assertEquals(parseRetryAfter("0"), 0);
+  assertEquals(parseRetryAfter("not a date"), null);
+
+  const inAMinute = new Date(Date.now() + 60_000).toUTCString();
+  // HTTP dates only have second precision
+  assertAlmostEquals(parseRetryAfter(inAMinute)!, 60_000, 1000);
+  assertEquals(parseRetryAfter(new Date(0).toUTCString()), 0);
+});
+
+Deno.test("EthosClient retries server errors with backoff", async () => {
+  const { client, calls } = stubClient([
+    status(503),
+    status(502),
+    json({ ok: true }),
+  ]);
+
+  assertEquals(await client.get("/api/v1/ping"), { ok: true });
+  assertEquals(calls, [
+    "https://ethos.test/api/v1/ping",
+    "https://ethos.test/api/v1/ping",
+    "https://ethos.test/api/v1/ping",
+  ]);
+});
+
+Deno.test("EthosClient doesn't retry client errors", async () => {
+  const { client, calls } = stubClient([status(404), json({ ok: true })]);
+
+  const error = await assertRejects(
+    () => client.get("/api/v1/missing"),
+    EthosApiError,
+  );
+  assertEquals(error.status, 404);
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("EthosClient gives up after maxRetries", async () => {
+  const { client, calls } = stubClient([status(500)], { maxRetries: 2 });
+
+  await assertRejects(() => client.get("/api/v1/ping"), EthosApiError);
+  assertEquals(calls.length, 3);
+});
+
+Deno.test("EthosClient honors Retry-After on rate limits", async () => {
+  const { client, calls } = stubClient([
+    status(429, { "Retry-After": "0" }),
+    json({ ok: true }),
+  ]);
+
+  assertEquals(await client.get("/api/v1/ping"), { ok: true });
+  assertEquals(calls.length, 2);
+});
+
+Deno.test("EthosClient fails fast when Retry-After is too long", async () => {
+  const { client, calls } = stubClient(
+    [status(429, { "Retry-After": "120" }), json({ ok: true })],
+    { maxRetryAfterMs: 60_000 },
+  );
+
+  const error = await assertRejects(
+    () => client.get("/api/v1/ping"),
+    EthosRateLimitError,
+  );
+  assertEquals(error.retryAfterMs, 120_000);
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("EthosClient retries network errors as status 0", async () => {
+  const { client, calls } = stubClient([
+    () => {
+      throw new TypeError("connection reset");
+    },
+    json({ ok: true }),
+  ]);
+
+  assertEquals(await client.get("/api/v1/ping"), { ok: true });
+  assertEquals(calls.length, 2);
+
+  const failing = stubClient([() => {
+    throw new TypeError("connection refused");
+  }], { maxRetries: 0 });
+  const error = await assertRejects(
+    () => failing.client.get("/api/v1/ping"),
+    EthosApiError,
+  );
+  assertEquals(error.status, 0);
+});
+
+Deno.test("EthosClient times out slow requests", async () => {
+  const client = new EthosClient({
+    baseUrl: "https://ethos.test",
+    maxRetries: 0,
+    fetch: (_input, init) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () =>
+          reject(new Error("aborted")));
+      }),
+  });
+
+  const error = await assertRejects(
+    () => client.get("/api/v1/slow", { timeoutMs: 10 }),
+    EthosTimeoutError,
+  );
+  assertEquals(error.timeoutMs, 10);
+});
@@ -0,0 +1,496 @@
+// Durable job queue backed by the job_queue table.
+//
+// Jobs are claimed with FOR UPDATE SKIP LOCKED, so any number of workers
+// (or Deno Deploy isolates) can poll the same table. A claimed job is locked
+// for a visibility timeout that the worker extends while the handler runs; if
+// the worker dies, the lock expires and another worker picks the job up.
+// Failed jobs are retried with exponential backoff until max_attempts, then
+// dead-lettered (status 'dead') for manual inspection and retry. Pending jobs
+// can be held back ('paused') and released again, or cancelled outright.
+
+import { getClient } from "./database.ts";
+
+export type JobStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "dead"
+  | "paused"
+  | "cancelled";
+
+export interface QueuedJob<T = Record<string, unknown>> {
+  id: number;
+  type: string;
+  payload: T;
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_by: string | null;
+  locked_until: Date | null;
+  dedupe_key: string | null;
+  last_error: string | null;
+  result: unknown;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+  runAt?: Date;
+  maxAttempts?: number;
+  // Skip the enqueue if a job with this key is already pending, running or
+  // paused
+  dedupeKey?: string;
+}
+
+export const DEFAULT_VISIBILITY_TIMEOUT_MS = 10 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// 30s, 1m, 2m, 4m ... capped at an hour
+export function retryDelayMs(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY_MS,
+  );
+}
+
+// Returns null when a job with the same dedupe key is already queued
+export async function enqueueJob<T extends Record<string, unknown>>(
+  type: string,
+  payload: T,
+  options: EnqueueOptions = {},
+): Promise<QueuedJob<T> | null> {
+  const db = await getClient();
+  const {
+    priority = 0,
+    runAt = new Date(),
+    maxAttempts = 5,
+    dedupeKey = null,
+  } = options;
+
+  const result = await db.queryObject<QueuedJob<T>>`
+    INSERT INTO job_queue (type, payload, priority, run_at, max_attempts, dedupe_key)
+    VALUES (
+      ${type}, ${JSON.stringify(payload)}::jsonb, ${priority}, ${runAt},
+      ${maxAttempts}, ${dedupeKey}
+    )
+    ON CONFLICT (dedupe_key)
+      WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running', 'paused')
+      DO NOTHING
+    RETURNING *
+  `;
+
+  return result.rows[0] || null;
+}
+
+// Claim up to `limit` runnable jobs of the given types: pending jobs that are
+// due, and running jobs whose lock has expired
+export async function claimJobs(
+  workerId: string,
+  types: string[],
+  limit: number,
+  visibilityTimeoutMs = DEFAULT_VISIBILITY_TIMEOUT_MS,
+): Promise<QueuedJob[]> {
+  const db = await getClient();
+
+  // Jobs that timed out on their final attempt can't be claimed again
+  await db.queryObject`
+    UPDATE job_queue
+    SET status = 'dead', locked_by = NULL, locked_until = NULL, updated_at = NOW(),
+      last_error = COALESCE(last_error, 'Visibility timeout expired on final attempt')
+    WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts
+  `;
+
+  const result = await db.queryObject<QueuedJob>`
+    UPDATE job_queue
+    SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = ${workerId},
+      locked_until = NOW() + (${visibilityTimeoutMs}::float8 * INTERVAL '1 millisecond'),
+      updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM job_queue
+      WHERE type = ANY(${types})
+        AND (
+          (status = 'pending' AND run_at <= NOW())
+          OR (status = 'running' AND locked_until < NOW())
+        )
+      ORDER BY priority DESC, run_at ASC, id ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return result.rows;
+}
+
+// Push a running job's lock out while its handler is still working
+export async function extendJobLock(
+  id: number,
+  workerId: string,
+  visibilityTimeoutMs = DEFAULT_VISIBILITY_TIMEOUT_MS,
+): Promise<boolean> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE job_queue
+    SET locked_until = NOW() + (${visibilityTimeoutMs}::float8 * INTERVAL '1 millisecond'),
+      updated_at = NOW()
+    WHERE id = ${id} AND locked_by = ${workerId} AND status = 'running'
+  `;
+
+  return (result.rowCount || 0) > 0;
+}
+
+// Completion and failure only apply while this worker still holds the lock -
+// a job that timed out and was reclaimed belongs to the new worker
+export async function completeJob(
+  id: number,
+  workerId: string,
+  jobResult: unknown = null,
+): Promise<boolean> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE job_queue
+    SET status = 'completed',
+      result = ${JSON.stringify(jobResult ?? null)}::jsonb,
+      locked_by = NULL,
+      locked_until = NULL,
+      completed_at = NOW(),
+      updated_at = NOW()
+    WHERE id = ${id} AND locked_by = ${workerId} AND status = 'running'
+  `;
+
+  return (result.rowCount || 0) > 0;
+}
+
+// Reschedule with backoff, or dead-letter once attempts are used up
+export async function failJob(
+  job: QueuedJob,
+  workerId: string,
+  error: string,
+): Promise<JobStatus> {
+  const db = await getClient();
+  const status: JobStatus = job.attempts >= job.max_attempts
+    ? "dead"
+    : "pending";
+  const delayMs = retryDelayMs(job.attempts);
+
+  await db.queryObject`
+    UPDATE job_queue
+    SET status = ${status},
+      last_error = ${error},
+      run_at = CASE WHEN ${status}::varchar = 'pending'
+        THEN NOW() + (${delayMs}::float8 * INTERVAL '1 millisecond')
+        ELSE run_at END,
+      locked_by = NULL,
+      locked_until = NULL,
+      updated_at = NOW()
+    WHERE id = ${job.id} AND locked_by = ${workerId} AND status = 'running'
+  `;
+
+  return status;
+}
+
+// Put a dead-lettered job back in the queue with a fresh set of attempts
+export async function retryDeadJob(id: number): Promise<boolean> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE job_queue
+    SET status = 'pending', attempts = 0, run_at = NOW(), updated_at = NOW()
+    WHERE id = ${id} AND status = 'dead'
+  `;
+
+  return (result.rowCount || 0) > 0;
+}
+
+// Hold pending jobs whose payload contains `match` (e.g. { runId: 12 }) so no
+// worker claims them. Running jobs are left to finish.
+export async function pauseJobs(
+  match: Record<string, unknown>,
+): Promise<number> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE job_queue SET status = 'paused', updated_at = NOW()
+    WHERE status = 'pending' AND payload @> ${JSON.stringify(match)}::jsonb
+  `;
+
+  return result.rowCount || 0;
+}
+
+export async function resumeJobs(
+  match: Record<string, unknown>,
+): Promise<number> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE job_queue SET status = 'pending', updated_at = NOW()
+    WHERE status = 'paused' AND payload @> ${JSON.stringify(match)}::jsonb
+  `;
+
+  return result.rowCount || 0;
+}
+
+export async function cancelJobs(
+  match: Record<string, unknown>,
+): Promise<number> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE job_queue
+    SET status = 'cancelled', completed_at = NOW(), updated_at = NOW()
+    WHERE status IN ('pending', 'paused')
+      AND payload @> ${JSON.stringify(match)}::jsonb
+  `;
+
+  return result.rowCount || 0;
+}
+
+// Hand a claimed job back from inside its handler without running it, e.g.
+// when its run was paused after the job was claimed. A paused job gets the
+// attempt back.
+export async function releaseJob(
+  job: QueuedJob,
+  status: "paused" | "cancelled",
+): Promise<boolean> {
+  const db = await getClient();
+
+  const result = await db.queryObject`
+    UPDATE job_queue
+    SET status = ${status},
+      attempts = CASE WHEN ${status}::varchar = 'paused'
+        THEN GREATEST(attempts - 1, 0)
+        ELSE attempts END,
+      completed_at = CASE WHEN ${status}::varchar = 'cancelled'
+        THEN NOW()
+        ELSE completed_at END,
+      locked_by = NULL,
+      locked_until = NULL,
+      updated_at = NOW()
+    WHERE id = ${job.id} AND locked_by = ${job.locked_by} AND status = 'running'
+  `;
+
+  return (result.rowCount || 0) > 0;
+}
+
+export async function getJob(id: number): Promise<QueuedJob | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<QueuedJob>`
+    SELECT * FROM job_queue WHERE id = ${id}
+  `;
+
+  return result.rows[0] || null;
+}
+
+export async function listJobs(
+  filters: { status?: JobStatus; type?: string } = {},
+  limit = 50,
+  offset = 0,
+): Promise<QueuedJob[]> {
+  const db = await getClient();
+  const conditions: string[] = [];
+  const args: unknown[] = [];
+
+  if (filters.status) {
+    args.push(filters.status);
+    conditions.push(`status = $${args.length}`);
+  }
+  if (filters.type) {
+    args.push(filters.type);
+    conditions.push(`type = $${args.length}`);
+  }
+  args.push(limit, offset);
+
+  const result = await db.queryObject<QueuedJob>(
+    `
+    SELECT * FROM job_queue
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY created_at DESC, id DESC
+    LIMIT $${args.length - 1} OFFSET $${args.length}
+    `,
+    args,
+  );
+
+  return result.rows;
+}
+
+export async function getQueueStats(): Promise<Record<JobStatus, number>> {
+  const db = await getClient();
+
+  const result = await db.queryObject<{ status: JobStatus; count: number }>`
+    SELECT status, COUNT(*)::int AS count FROM job_queue GROUP BY status
+  `;
+
+  const stats: Record<JobStatus, number> = {
+    pending: 0,
+    running: 0,
+    completed: 0,
+    dead: 0,
+    paused: 0,
+    cancelled: 0,
+  };
+  for (const row of result.rows) stats[row.status] = row.count;
+  return stats;
+}
+
+export type JobHandler = (job: QueuedJob) => Promise<unknown>;
+
+export interface JobWorkerOptions {
+  workerId?: string;
+  concurrency?: number;
+  pollIntervalMs?: number;
+  visibilityTimeoutMs?: number;
+}
+
+// Polls the queue and runs claimed jobs in-process
+export class JobWorker {
+  readonly workerId: string;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private visibilityTimeoutMs: number;
+
+  private handlers = new Map<string, JobHandler>();
+  private timer: number | null = null;
+  private polling = false;
+  private active = 0;
+
+  constructor(options: JobWorkerOptions = {}) {
+    this.workerId = options.workerId ??
+      `worker-${Deno.env.get("DENO_DEPLOYMENT_ID") || Deno.pid}-${
+        crypto.randomUUID().slice(0, 8)
+      }`;
+    this.concurrency = options.concurrency ?? 2;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.visibilityTimeoutMs = options.visibilityTimeoutMs ??
+      DEFAULT_VISIBILITY_TIMEOUT_MS;
+  }
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  start(): void {
+    if (this.timer !== null) return;
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    console.log(
+      `👷 Job worker ${this.workerId} started (${
+        Array.from(this.handlers.keys()).join(", ")
+      })`,
+    );
+    this.poll();
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log(`🛑 Job worker ${this.workerId} stopped`);
+    }
+  }
+
+  getStatus() {
+    return {
+      workerId: this.workerId,
+      running: this.timer !== null,
+      active: this.active,
+      concurrency: this.concurrency,
+      types: Array.from(this.handlers.keys()),
+    };
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || this.active >= this.concurrency) return;
+    this.polling = true;
+
+    try {
+      const jobs = await claimJobs(
+        this.workerId,
+        Array.from(this.handlers.keys()),
+        this.concurrency - this.active,
+        this.visibilityTimeoutMs,
+      );
+      for (const job of jobs) this.run(job);
+    } catch (error) {
+      // Without a database there is no queue to work on
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        console.warn("⚠️ Job worker disabled - database not configured");
+        this.stop();
+      } else {
+        console.error("❌ Job worker poll failed:", error);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: QueuedJob): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+    this.active++;
+
+    const heartbeat = setInterval(() => {
+      extendJobLock(job.id, this.workerId, this.visibilityTimeoutMs).catch(
+        (error) =>
+          console.warn(`⚠️ Failed to extend lock on job ${job.id}:`, error),
+      );
+    }, this.visibilityTimeoutMs / 2);
+
+    console.log(
+      `🚀 Running job ${job.id} (${job.type}), attempt ${job.attempts}/${job.max_attempts}`,
+    );
+
+    try {
+      let result: unknown;
+      try {
+        result = await handler(job);
+      } catch (error) {
+        await this.recordFailure(job, error);
+        return;
+      }
+
+      // A failed completion is left to the lock timeout rather than counted
+      // as a failed attempt - the handler's work has already been done
+      try {
+        // Not completed if the handler released the job instead
+        if (await completeJob(job.id, this.workerId, result)) {
+          console.log(`✅ Job ${job.id} (${job.type}) completed`);
+        }
+      } catch (error) {
+        console.error(
+          `❌ Failed to record completion of job ${job.id}, it will be retried once its lock expires:`,
+          error,
+        );
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.active--;
+    }
+  }
+
+  private async recordFailure(job: QueuedJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    let status: JobStatus;
+    try {
+      status = await failJob(job, this.workerId, message);
+    } catch (failError) {
+      console.error(
+        `❌ Job ${job.id} (${job.type}) failed: ${message}; recording the failure also failed:`,
+        failError,
+      );
+      return;
+    }
+    console.error(
+      `❌ Job ${job.id} (${job.type}) failed${
+        status === "dead" ? " and was dead-lettered" : ", will retry"
+      }: ${message}`,
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { retryDelayMs } from "./job-queue.ts";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+Deno.test("retryDelayMs doubles from 30 seconds", () => {
+  assertEquals(retryDelayMs(1), 30 * SECOND);
+  assertEquals(retryDelayMs(2), MINUTE);
+  assertEquals(retryDelayMs(3), 2 * MINUTE);
+  assertEquals(retryDelayMs(4), 4 * MINUTE);
+});
+
+Deno.test("retryDelayMs is capped at an hour", () => {
+  assertEquals(retryDelayMs(8), 60 * MINUTE);
+  assertEquals(retryDelayMs(50), 60 * MINUTE);
+});
+
+Deno.test("retryDelayMs treats attempts before the first as the first", () => {
+  assertEquals(retryDelayMs(0), 30 * SECOND);
+});
@@ -0,0 +1,387 @@
+// Run history for scheduled and manually triggered jobs.
+//
+// Each time a schedule fires (or someone hits "Run now") a job_runs row is
+// created and its id travels in the queued job's payload. Handlers report
+// back through it: the batch job sets how many profiles it fanned out to,
+// each analysis job counts itself as processed or failed, and both append
+// log lines. The run finishes once every item is accounted for.
+//
+// A run can be paused, resumed or cancelled while it is in progress. Pausing
+// holds its queued jobs in the queue; jobs already being worked on finish and
+// still count. Resuming releases the held jobs, so the run carries on with the
+// profiles it hasn't analyzed yet. Cancelling drops them.
+
+import { getClient } from "./database.ts";
+import {
+  cancelJobs,
+  enqueueJob,
+  type EnqueueOptions,
+  pauseJobs,
+  type QueuedJob,
+  releaseJob,
+  resumeJobs,
+} from "./job-queue.ts";
+
+export type JobRunTrigger = "schedule" | "catch_up" | "manual";
+export type JobRunStatus =
+  | "queued"
+  | "running"
+  | "paused"
+  | "succeeded"
+  | "partial"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+export interface JobRunLogLine {
+  at: string;
+  message: string;
+}
+
+export interface JobRunError {
+  at: string;
+  item: string | null;
+  error: string;
+}
+
+export interface JobRun {
+  id: number;
+  job_id: string;
+  triggered_by: JobRunTrigger;
+  queue_job_id: number | null;
+  status: JobRunStatus;
+  total: number | null;
+  processed: number;
+  failed: number;
+  errors: JobRunError[];
+  logs: JobRunLogLine[];
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+export type JobRunSummary = Omit<JobRun, "logs"> & { log_count: number };
+
+// Keep a runaway batch from growing a single row without bound
+const MAX_LOG_LINES = 500;
+const MAX_ERRORS = 200;
+
+async function createJobRun(
+  jobId: string,
+  triggeredBy: JobRunTrigger,
+): Promise<JobRun> {
+  const db = await getClient();
+
+  const result = await db.queryObject<JobRun>`
+    INSERT INTO job_runs (job_id, triggered_by) VALUES (${jobId}, ${triggeredBy})
+    RETURNING *
+  `;
+
+  return result.rows[0];
+}
+
+// Create a run and queue its job, passing the run id in the payload. If the
+// previous run is still queued the new one is recorded as skipped.
+export async function enqueueJobRun<T extends Record<string, unknown>>(
+  jobId: string,
+  triggeredBy: JobRunTrigger,
+  type: string,
+  payload: T,
+  options: EnqueueOptions = {},
+): Promise<{ run: JobRun; job: QueuedJob<T & { runId: number }> | null }> {
+  const db = await getClient();
+  const run = await createJobRun(jobId, triggeredBy);
+
+  const job = await enqueueJob(type, { ...payload, runId: run.id }, options);
+
+  if (job) {
+    await db.queryObject`
+      UPDATE job_runs SET queue_job_id = ${job.id} WHERE id = ${run.id}
+    `;
+    run.queue_job_id = job.id;
+    await appendJobRunLog(run.id, `Queued as job #${job.id} (${triggeredBy})`);
+  } else {
+    await skipJobRun(run.id, "Previous run is still queued, running or paused");
+    run.status = "skipped";
+  }
+
+  return { run, job };
+}
+
+// Record a run that was deliberately not executed
+export async function skipJobRun(runId: number, reason: string): Promise<void> {
+  console.log(`⏭️ ${reason}`);
+  const db = await getClient();
+  const at = new Date().toISOString();
+
+  await db.queryObject`
+    UPDATE job_runs
+    SET status = 'skipped', finished_at = NOW(),
+      logs = logs || jsonb_build_array(
+        jsonb_build_object('at', ${at}::text, 'message', ${reason}::text)
+      )
+    WHERE id = ${runId}
+  `;
+}
+
+// A run that never got queued, e.g. a missed slot under the "skip" policy
+export async function recordSkippedRun(
+  jobId: string,
+  triggeredBy: JobRunTrigger,
+  reason: string,
+): Promise<void> {
+  const run = await createJobRun(jobId, triggeredBy);
+  await skipJobRun(run.id, reason);
+}
+
+// Mark a run as started. Called on every attempt, so the start time is kept
+// from the first one.
+export async function startJobRun(runId: number): Promise<void> {
+  const db = await getClient();
+
+  await db.queryObject`
+    UPDATE job_runs
+    SET status = 'running', started_at = COALESCE(started_at, NOW())
+    WHERE id = ${runId} AND status IN ('queued', 'running')
+  `;
+}
+
+// Log to the console and to the run
+export async function appendJobRunLog(
+  runId: number,
+  message: string,
+): Promise<void> {
+  console.log(message);
+  const db = await getClient();
+  const at = new Date().toISOString();
+
+  await db.queryObject`
+    UPDATE job_runs
+    SET logs = logs || jsonb_build_array(
+      jsonb_build_object('at', ${at}::text, 'message', ${message}::text)
+    )
+    WHERE id = ${runId} AND jsonb_array_length(logs) < ${MAX_LOG_LINES}
+  `;
+}
+
+// How many items (profiles) the run fanned out to
+export async function setJobRunTotal(
+  runId: number,
+  total: number,
+): Promise<void> {
+  const db = await getClient();
+
+  await db.queryObject`
+    UPDATE job_runs SET total = ${total} WHERE id = ${runId}
+  `;
+  await finishIfDone(runId);
+}
+
+// Count one item as processed, or failed when `error` is set
+export async function recordJobRunItem(
+  runId: number,
+  item: string,
+  message: string,
+  error?: string,
+): Promise<void> {
+  console.log(message);
+  const db = await getClient();
+  const at = new Date().toISOString();
+  const failed = error !== undefined;
+  const errorText = error ?? "";
+
+  await db.queryObject`
+    UPDATE job_runs
+    SET processed = processed + ${failed ? 0 : 1},
+      failed = failed + ${failed ? 1 : 0},
+      errors = CASE
+        WHEN ${failed} AND jsonb_array_length(errors) < ${MAX_ERRORS}
+        THEN errors || jsonb_build_array(
+          jsonb_build_object('at', ${at}::text, 'item', ${item}::text, 'error', ${errorText}::text)
+        )
+        ELSE errors END,
+      logs = CASE
+        WHEN jsonb_array_length(logs) < ${MAX_LOG_LINES}
+        THEN logs || jsonb_build_array(
+          jsonb_build_object('at', ${at}::text, 'message', ${message}::text)
+        )
+        ELSE logs END
+    WHERE id = ${runId}
+  `;
+  await finishIfDone(runId);
+}
+
+// End a run whose job failed outright (not a single item)
+export async function failJobRun(runId: number, error: string): Promise<void> {
+  const db = await getClient();
+  const at = new Date().toISOString();
+
+  await db.queryObject`
+    UPDATE job_runs
+    SET status = 'failed', finished_at = NOW(),
+      errors = errors || jsonb_build_array(
+        jsonb_build_object('at', ${at}::text, 'item', NULL, 'error', ${error}::text)
+      )
+    WHERE id = ${runId} AND status IN ('queued', 'running')
+  `;
+}
+
+// Hold the run's queued jobs until it is resumed
+export async function pauseJobRun(runId: number): Promise<JobRun | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<JobRun>`
+    UPDATE job_runs SET status = 'paused'
+    WHERE id = ${runId} AND status IN ('queued', 'running')
+    RETURNING *
+  `;
+  const run = result.rows[0];
+  if (!run) return null;
+
+  const held = await pauseJobs({ runId });
+  await appendJobRunLog(runId, `⏸️ Paused, ${held} queued jobs held`);
+  return run;
+}
+
+export async function resumeJobRun(runId: number): Promise<JobRun | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<JobRun>`
+    UPDATE job_runs
+    SET status = CASE WHEN started_at IS NULL THEN 'queued' ELSE 'running' END
+    WHERE id = ${runId} AND status = 'paused'
+    RETURNING *
+  `;
+  const run = result.rows[0];
+  if (!run) return null;
+
+  const released = await resumeJobs({ runId });
+  await appendJobRunLog(runId, `▶️ Resumed, ${released} jobs released`);
+  // Everything may have finished while the run was paused
+  await finishIfDone(runId);
+  return run;
+}
+
+export async function cancelJobRun(runId: number): Promise<JobRun | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<JobRun>`
+    UPDATE job_runs SET status = 'cancelled', finished_at = NOW()
+    WHERE id = ${runId} AND status IN ('queued', 'running', 'paused')
+    RETURNING *
+  `;
+  const run = result.rows[0];
+  if (!run) return null;
+
+  const dropped = await cancelJobs({ runId });
+  await appendJobRunLog(runId, `⏹️ Cancelled, ${dropped} queued jobs dropped`);
+  return run;
+}
+
+// Handlers call this before doing any work. A job claimed after its run was
+// paused or cancelled is handed back to the queue instead of being run.
+export async function releaseIfStopped(
+  job: QueuedJob,
+  runId: number,
+): Promise<boolean> {
+  const db = await getClient();
+
+  const result = await db.queryObject<{ status: JobRunStatus }>`
+    SELECT status FROM job_runs WHERE id = ${runId}
+  `;
+  const status = result.rows[0]?.status;
+  if (status !== "paused" && status !== "cancelled") return false;
+
+  await releaseJob(job, status);
+  console.log(`⏸️ Job ${job.id} handed back, run ${runId} is ${status}`);
+  return true;
+}
+
+async function finishIfDone(runId: number): Promise<void> {
+  const db = await getClient();
+
+  await db.queryObject`
+    UPDATE job_runs
+    SET status = CASE
+        WHEN failed = 0 THEN 'succeeded'
+        WHEN processed = 0 THEN 'failed'
+        ELSE 'partial' END,
+      finished_at = NOW()
+    WHERE id = ${runId} AND status = 'running'
+      AND total IS NOT NULL AND processed + failed >= total
+  `;
+}
+
+// Newest first, without log lines
+export async function listJobRuns(
+  jobId: string,
+  limit = 20,
+  offset = 0,
+): Promise<JobRunSummary[]> {
+  const db = await getClient();
+
+  const result = await db.queryObject<JobRunSummary>`
+    SELECT id, job_id, triggered_by, queue_job_id, status, total, processed,
+      failed, errors, jsonb_array_length(logs) AS log_count,
+      created_at, started_at, finished_at
+    FROM job_runs
+    WHERE job_id = ${jobId}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  return result.rows;
+}
+
+export interface JobRunProgress {
+  status: JobRunStatus;
+  total: number | null;
+  processed: number;
+  failed: number;
+  finished_at: Date | null;
+  // Log lines and errors after the ones the caller already has
+  logs: JobRunLogLine[];
+  errors: JobRunError[];
+}
+
+// Counts plus the log lines and errors added since `logsSeen` / `errorsSeen`,
+// for following a run while it is in progress
+export async function getJobRunProgress(
+  jobId: string,
+  runId: number,
+  logsSeen = 0,
+  errorsSeen = 0,
+): Promise<JobRunProgress | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<JobRunProgress>`
+    SELECT status, total, processed, failed, finished_at,
+      COALESCE((
+        SELECT jsonb_agg(line ORDER BY i) FROM jsonb_array_elements(logs)
+          WITH ORDINALITY AS t(line, i)
+        WHERE i > ${logsSeen}
+      ), '[]'::jsonb) AS logs,
+      COALESCE((
+        SELECT jsonb_agg(error ORDER BY i) FROM jsonb_array_elements(errors)
+          WITH ORDINALITY AS t(error, i)
+        WHERE i > ${errorsSeen}
+      ), '[]'::jsonb) AS errors
+    FROM job_runs
+    WHERE id = ${runId} AND job_id = ${jobId}
+  `;
+
+  return result.rows[0] || null;
+}
+
+export async function getJobRun(
+  jobId: string,
+  runId: number,
+): Promise<JobRun | null> {
+  const db = await getClient();
+
+  const result = await db.queryObject<JobRun>`
+    SELECT * FROM job_runs WHERE id = ${runId} AND job_id = ${jobId}
+  `;
+
+  return result.rows[0] || null;
+}
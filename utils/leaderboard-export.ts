@@ -0,0 +1,77 @@
+// Leaderboard exports as CSV, JSON or NDJSON text, for
+// /api/leaderboard/export
+
+import type { LeaderboardEntry } from "./database.ts";
+
+export const EXPORT_FORMATS = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+} as const;
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+// CSV columns, in order
+const COLUMNS: (keyof LeaderboardEntry)[] = [
+  "rank",
+  "userkey",
+  "username",
+  "name",
+  "farming_score",
+  "risk_level",
+  "score",
+  "ethos_score",
+  "ethos_xp",
+  "reviews_given",
+  "reviews_received",
+  "reciprocal_reviews",
+  "quick_reciprocations",
+  "avg_reciprocal_time",
+  "high_risk_r4rs",
+  "ring_count",
+  "cluster_id",
+  "last_analyzed",
+  "analysis_version",
+  "processing_time",
+  "avatar",
+];
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+const csvRow = (values: unknown[]) => values.map(csvValue).join(",") + "\r\n";
+
+// Text chunks of the export, one per batch of entries. Returning early (a
+// client that went away) also returns `batches`, which releases the export's
+// database connection.
+export async function* exportChunks(
+  format: ExportFormat,
+  batches: AsyncGenerator<LeaderboardEntry[]>,
+): AsyncGenerator<string> {
+  try {
+    if (format === "csv") yield csvRow(COLUMNS);
+    if (format === "json") yield "[\n";
+
+    let first = true;
+    for await (const entries of batches) {
+      if (format === "csv") {
+        yield entries.map((entry) => csvRow(COLUMNS.map((c) => entry[c])))
+          .join("");
+      } else if (format === "ndjson") {
+        yield entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+      } else {
+        yield entries.map((entry) => {
+          const line = (first ? "" : ",\n") + JSON.stringify(entry);
+          first = false;
+          return line;
+        }).join("");
+      }
+    }
+
+    if (format === "json") yield "\n]\n";
+  } finally {
+    await batches.return(undefined);
+  }
+}
@@ -0,0 +1,99 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { LeaderboardEntry } from "./database.ts";
+import { exportChunks, type ExportFormat } from "./leaderboard-export.ts";
+
+const entry = (rank: number, username: string) =>
+  ({
+    rank,
+    userkey: `profileId:${1000 + rank}`,
+    username,
+    name: `${username}, Example`,
+    farming_score: 80 - rank,
+    risk_level: "high",
+  }) as unknown as LeaderboardEntry;
+
+// Batches shaped like streamLeaderboard's: parked inside the try before the
+// first batch, so `released` records whether the connection would be ended
+function fakeBatches(batches: LeaderboardEntry[][]) {
+  const state = { released: false, fetched: 0 };
+  const generator = (async function* () {
+    try {
+      yield [];
+      for (const batch of batches) {
+        state.fetched++;
+        yield batch;
+      }
+    } finally {
+      state.released = true;
+    }
+  })();
+  return { state, generator };
+}
+
+async function exportText(
+  format: ExportFormat,
+  batches: LeaderboardEntry[][],
+): Promise<string> {
+  const { generator } = fakeBatches(batches);
+  await generator.next();
+  let text = "";
+  for await (const chunk of exportChunks(format, generator)) text += chunk;
+  return text;
+}
+
+const BATCHES = [[entry(1, "alice_r4r")], [entry(2, "bob_r4r")]];
+
+Deno.test("exportChunks writes CSV with quoted values", async () => {
+  const lines = (await exportText("csv", BATCHES)).split("\r\n");
+  assertEquals(lines[0].split(",").slice(0, 4), [
+    "rank",
+    "userkey",
+    "username",
+    "name",
+  ]);
+  assertEquals(
+    lines[1].split(",").slice(0, 5),
+    ["1", "profileId:1001", "alice_r4r", '"alice_r4r', ' Example"'],
+  );
+  assertEquals(lines.length, 4);
+  assertEquals(lines[3], "");
+});
+
+Deno.test("exportChunks writes a JSON array and NDJSON lines", async () => {
+  const json = JSON.parse(await exportText("json", BATCHES));
+  assertEquals(json.map((e: LeaderboardEntry) => e.username), [
+    "alice_r4r",
+    "bob_r4r",
+  ]);
+  assertEquals(JSON.parse(await exportText("json", [])), []);
+
+  const lines = (await exportText("ndjson", BATCHES)).trimEnd().split("\n");
+  assertEquals(lines.map((line) => JSON.parse(line).rank), [1, 2]);
+});
+
+Deno.test("exportChunks releases the batches when cancelled before the first batch", async () => {
+  for (const format of ["csv", "json"] as const) {
+    const { state, generator } = fakeBatches(BATCHES);
+    await generator.next();
+
+    const chunks = exportChunks(format, generator);
+    // Only the header or the opening bracket
+    await chunks.next();
+    await chunks.return(undefined);
+
+    assertEquals(state.fetched, 0);
+    assertEquals(state.released, true);
+  }
+});
+
+Deno.test("exportChunks releases the batches when cancelled mid-export", async () => {
+  const { state, generator } = fakeBatches(BATCHES);
+  await generator.next();
+
+  const chunks = exportChunks("ndjson", generator);
+  await chunks.next();
+  await chunks.return(undefined);
+
+  assertEquals(state.fetched, 1);
+  assertEquals(state.released, true);
+});
@@ -0,0 +1,85 @@
+// Query params shared by /api/leaderboard and /api/leaderboard/export
+
+import type { LeaderboardFilters } from "./types.ts";
+
+const TIME_RANGES = ["30d", "90d", "all"];
+const RISK_LEVELS = ["high", "moderate", "low", "all"];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// A whole number param, or the default when it's missing or not a number
+function parseIntParam(value: string | null, fallback: number): number {
+  const number = parseInt(value || "");
+  return isNaN(number) ? fallback : number;
+}
+
+// Query params -> filters, or an error message for an invalid value
+export function parseLeaderboardFilters(
+  params: URLSearchParams,
+): Partial<LeaderboardFilters> | string {
+  const filters: Partial<LeaderboardFilters> = {
+    limit: Math.min(
+      Math.max(parseIntParam(params.get("limit"), DEFAULT_LIMIT), 1),
+      MAX_LIMIT,
+    ),
+    offset: Math.max(parseIntParam(params.get("offset"), 0), 0),
+    sortBy:
+      (params.get("sortBy") || "farming_score") as LeaderboardFilters["sortBy"],
+    sortOrder: (params.get("sortOrder") || "desc") as "asc" | "desc",
+  };
+
+  const timeRange = params.get("timeRange");
+  if (timeRange) {
+    if (!TIME_RANGES.includes(timeRange)) {
+      return `timeRange must be one of ${TIME_RANGES.join(", ")}`;
+    }
+    filters.timeRange = timeRange as LeaderboardFilters["timeRange"];
+  }
+
+  const riskLevel = params.get("riskLevel");
+  if (riskLevel) {
+    if (!RISK_LEVELS.includes(riskLevel)) {
+      return `riskLevel must be one of ${RISK_LEVELS.join(", ")}`;
+    }
+    filters.riskLevel = riskLevel as LeaderboardFilters["riskLevel"];
+  }
+
+  for (
+    const name of [
+      "minReviews",
+      "minFarmingScore",
+      "maxFarmingScore",
+      "minHighRiskR4rs",
+    ] as const
+  ) {
+    const value = params.get(name);
+    if (!value) continue;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      return `${name} must be a non-negative integer`;
+    }
+    filters[name] = number;
+  }
+
+  const search = params.get("search")?.trim();
+  if (search) {
+    if (search.length > 100) return "search must be at most 100 characters";
+    filters.search = search;
+  }
+
+  for (const name of ["analyzedAfter", "analyzedBefore"] as const) {
+    const value = params.get(name);
+    if (!value) continue;
+    if (isNaN(Date.parse(value))) {
+      return `${name} must be a date, e.g. 2025-01-31`;
+    }
+    // A date without a time covers that whole day, so the end of a range is
+    // the last microsecond of its day (last_analyzed is a TIMESTAMP)
+    filters[name] =
+      name === "analyzedBefore" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? `${value}T23:59:59.999999Z`
+        : new Date(value).toISOString();
+  }
+
+  return filters;
+}
@@ -0,0 +1,100 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { parseLeaderboardFilters } from "./leaderboard-filters.ts";
+
+const parse = (query: string) =>
+  parseLeaderboardFilters(new URLSearchParams(query));
+
+Deno.test("parseLeaderboardFilters defaults", () => {
+  assertEquals(parse(""), {
+    limit: 100,
+    offset: 0,
+    sortBy: "farming_score",
+    sortOrder: "desc",
+  });
+});
+
+Deno.test("parseLeaderboardFilters reads every filter", () => {
+  assertEquals(
+    parse(
+      "limit=25&offset=50&sortBy=ethos_xp&sortOrder=asc&timeRange=30d" +
+        "&riskLevel=high&minReviews=10&minFarmingScore=40&maxFarmingScore=90" +
+        "&minHighRiskR4rs=2&search=%20alice%20" +
+        "&analyzedAfter=2025-01-01T00:00:00Z&analyzedBefore=2025-02-01T12:00:00Z",
+    ),
+    {
+      limit: 25,
+      offset: 50,
+      sortBy: "ethos_xp",
+      sortOrder: "asc",
+      timeRange: "30d",
+      riskLevel: "high",
+      minReviews: 10,
+      minFarmingScore: 40,
+      maxFarmingScore: 90,
+      minHighRiskR4rs: 2,
+      search: "alice",
+      analyzedAfter: "2025-01-01T00:00:00.000Z",
+      analyzedBefore: "2025-02-01T12:00:00.000Z",
+    },
+  );
+});
+
+Deno.test("parseLeaderboardFilters rejects invalid values", () => {
+  assertEquals(
+    parse("timeRange=7d"),
+    "timeRange must be one of 30d, 90d, all",
+  );
+  assertEquals(
+    parse("riskLevel=extreme"),
+    "riskLevel must be one of high, moderate, low, all",
+  );
+  assertEquals(
+    parse("minReviews=-1"),
+    "minReviews must be a non-negative integer",
+  );
+  assertEquals(
+    parse("maxFarmingScore=9.5"),
+    "maxFarmingScore must be a non-negative integer",
+  );
+  assertEquals(
+    parse(`search=${"a".repeat(101)}`),
+    "search must be at most 100 characters",
+  );
+  assertEquals(
+    parse("analyzedAfter=last-week"),
+    "analyzedAfter must be a date, e.g. 2025-01-31",
+  );
+});
+
+Deno.test("parseLeaderboardFilters ignores empty values", () => {
+  assertEquals(parse("riskLevel=&minReviews=&search=%20%20&analyzedAfter="), {
+    limit: 100,
+    offset: 0,
+    sortBy: "farming_score",
+    sortOrder: "desc",
+  });
+});
+
+Deno.test("parseLeaderboardFilters clamps limit and offset", () => {
+  const page = (query: string) => {
+    const filters = parse(query);
+    if (typeof filters === "string") throw new Error(filters);
+    return [filters.limit, filters.offset];
+  };
+
+  assertEquals(page("limit=0&offset=-10"), [1, 0]);
+  assertEquals(page("limit=-5"), [1, 0]);
+  assertEquals(page("limit=10000&offset=20"), [500, 20]);
+  assertEquals(page("limit=abc&offset=xyz"), [100, 0]);
+});
+
+Deno.test("parseLeaderboardFilters includes the whole end day of a date range", () => {
+  assertEquals(parse("analyzedAfter=2025-01-01&analyzedBefore=2025-01-31"), {
+    limit: 100,
+    offset: 0,
+    sortBy: "farming_score",
+    sortOrder: "desc",
+    analyzedAfter: "2025-01-01T00:00:00.000Z",
+    analyzedBefore: "2025-01-31T23:59:59.999999Z",
+  });
+});
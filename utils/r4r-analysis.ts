@@ -0,0 +1,268 @@
+// Server-side profile analysis: sync a profile's reviews into Postgres, then
+// score it from the stored reviews. Shared by the batch routes and scheduler.
+
+import {
+  archiveMissingReviews,
+  countHighRiskR4rs,
+  getLeaderboardEntry,
+  getReviewSyncState,
+  getRingCandidateEdges,
+  getStoredReviewActivities,
+  saveLeaderboardEntry,
+  saveReviews,
+  saveReviewSyncState,
+} from "./database.ts";
+import {
+  type ActivityDirection,
+  type AllActivitiesResult,
+  fetchAllReviewActivities,
+  logActivityProgress,
+} from "./ethos-api.ts";
+import type { RequestPriority } from "./ethos-client.ts";
+import {
+  calculateR4rScore,
+  getActivityTime,
+  type RiskLevel,
+} from "./r4r-score.ts";
+import { findReviewRings } from "./review-graph.ts";
+import type { EthosActivity } from "./types.ts";
+
+// How often an incremental sync is replaced by a full re-download, which is
+// what picks up reviews archived since the last full sync
+export const FULL_SYNC_INTERVAL_MS =
+  parseFloat(Deno.env.get("REVIEW_FULL_SYNC_DAYS") || "7") * 24 * 60 * 60 *
+  1000;
+
+export interface ReviewSyncOptions {
+  priority?: RequestPriority;
+  // Skip the incremental path and re-download everything
+  forceFull?: boolean;
+}
+
+export interface ReviewSyncResult {
+  direction: ActivityDirection;
+  mode: "full" | "incremental";
+  fetched: number;
+  total: number;
+  truncated: boolean;
+  archived: number;
+  // The userkey form Ethos uses for the profile, null until a sync has seen
+  // one of its reviews
+  profileUserkey: string | null;
+  activities: EthosActivity[];
+}
+
+// The profile's own userkey as Ethos returns it: from the fetched activities,
+// else from the last sync that saw any. Incremental syncs often fetch nothing.
+export function resolveProfileUserkey(
+  direction: ActivityDirection,
+  fetched: EthosActivity[],
+  state: { profile_userkey: string | null } | null,
+): string | null {
+  const first = fetched[0];
+  if (first) {
+    return direction === "given" ? first.author.userkey : first.subject.userkey;
+  }
+  return state?.profile_userkey ?? null;
+}
+
+// Store a fetched activity list and move the sync state forward. Full,
+// untruncated fetches also archive stored reviews Ethos no longer returns.
+async function recordReviewSync(
+  userkey: string,
+  direction: ActivityDirection,
+  result: AllActivitiesResult,
+  full: boolean,
+  profileUserkey: string | null,
+): Promise<number> {
+  await saveReviews(result.values);
+
+  let archived = 0;
+  if (full && !result.truncated && result.values.length > 0) {
+    // Stored rows use the userkey form Ethos returned
+    archived = await archiveMissingReviews(
+      profileUserkey!,
+      direction,
+      result.values.map((activity) => String(activity.id)),
+    );
+  }
+
+  const newest = result.values.reduce((max, activity) => {
+    const time = getActivityTime(activity);
+    return isNaN(time) ? max : Math.max(max, time);
+  }, -Infinity);
+
+  await saveReviewSyncState(
+    userkey,
+    direction,
+    newest === -Infinity ? null : new Date(newest),
+    result.total,
+    // A truncated walk never reached the oldest reviews, so it isn't a full sync
+    full && !result.truncated,
+    profileUserkey,
+  );
+
+  return archived;
+}
+
+// Pull only activities newer than the last sync, or everything when there is
+// no sync state yet or the last full sync is older than FULL_SYNC_INTERVAL_MS.
+// Sync state from before profile userkeys were recorded gets one full sync.
+export async function syncReviews(
+  userkey: string,
+  direction: ActivityDirection,
+  options: ReviewSyncOptions = {},
+): Promise<ReviewSyncResult> {
+  const { priority = "batch", forceFull = false } = options;
+
+  const state = await getReviewSyncState(userkey, direction);
+  const full = forceFull || !state?.newest_timestamp ||
+    !state.last_full_sync_at ||
+    (!state.profile_userkey && state.total_activities > 0) ||
+    Date.now() - new Date(state.last_full_sync_at).getTime() >=
+      FULL_SYNC_INTERVAL_MS;
+
+  const result = await fetchAllReviewActivities(userkey, direction, {
+    priority,
+    since: full ? undefined : new Date(state!.newest_timestamp!).getTime(),
+    onProgress: logActivityProgress,
+  });
+
+  const profileUserkey = resolveProfileUserkey(direction, result.values, state);
+  const archived = await recordReviewSync(
+    userkey,
+    direction,
+    result,
+    full,
+    profileUserkey,
+  );
+
+  console.log(
+    `🔄 ${
+      full ? "Full" : "Incremental"
+    } ${direction} sync for ${userkey}: ${result.values.length} activities${
+      archived > 0 ? `, ${archived} archived` : ""
+    }`,
+  );
+
+  return {
+    direction,
+    mode: full ? "full" : "incremental",
+    fetched: result.values.length,
+    total: result.total,
+    truncated: result.truncated,
+    archived,
+    profileUserkey,
+    activities: result.values,
+  };
+}
+
+export interface UserAnalysis {
+  userkey: string;
+  username: string;
+  name: string;
+  avatar: string;
+  score: number;
+  r4rScore: number;
+  reviewsGiven: number;
+  reviewsReceived: number;
+  reciprocalReviews: number;
+  quickReciprocations: number;
+  avgReciprocalTime: number;
+  riskLevel: RiskLevel;
+  ringCount: number;
+  highRiskR4rs: number;
+  analysisVersion: string;
+  processingTime: number;
+  sync: Array<Omit<ReviewSyncResult, "activities">>;
+}
+
+// Sync a profile's reviews, then score it from everything stored for it.
+// Returns null when the profile has no reviews at all.
+export async function analyzeUser(
+  userkey: string,
+  options: ReviewSyncOptions = {},
+): Promise<UserAnalysis | null> {
+  const startTime = Date.now();
+
+  const [givenSync, receivedSync] = await Promise.all([
+    syncReviews(userkey, "given", options),
+    syncReviews(userkey, "received", options),
+  ]);
+
+  // Prefer profile details from freshly fetched activities - stored reviews
+  // only keep usernames. Ethos may also hand back a different userkey form
+  // (profileId vs address), and the stored reviews use its form.
+  const fetchedInfo = givenSync.activities[0]?.author ||
+    receivedSync.activities[0]?.subject;
+  const profileKey = givenSync.profileUserkey ||
+    receivedSync.profileUserkey || userkey;
+
+  const { given, received } = await getStoredReviewActivities(profileKey);
+  const existing = fetchedInfo ? null : await getLeaderboardEntry(profileKey);
+  const storedInfo = given[0]?.author || received[0]?.subject;
+
+  const userInfo = fetchedInfo ||
+    (existing && {
+      username: existing.username,
+      name: existing.name,
+      avatar: existing.avatar,
+      score: existing.score,
+    }) ||
+    storedInfo;
+  if (!userInfo) {
+    console.warn(`No user info found for ${userkey}`);
+    return null;
+  }
+
+  // Score with the shared R4R engine (archived reviews are ignored there)
+  const breakdown = calculateR4rScore(given, received);
+  const rings = findReviewRings(
+    profileKey,
+    await getRingCandidateEdges(profileKey),
+  );
+  const highRiskR4rs = await countHighRiskR4rs(profileKey);
+
+  return {
+    userkey: profileKey,
+    username: userInfo.username,
+    name: userInfo.name,
+    avatar: userInfo.avatar,
+    score: userInfo.score,
+    r4rScore: breakdown.finalScore,
+    reviewsGiven: breakdown.reviewsGiven,
+    reviewsReceived: breakdown.reviewsReceived,
+    reciprocalReviews: breakdown.reciprocalReviews,
+    quickReciprocations: breakdown.quickReciprocations,
+    avgReciprocalTime: Math.round(breakdown.avgReciprocalTime * 100) / 100,
+    riskLevel: breakdown.riskLevel,
+    ringCount: rings.length,
+    highRiskR4rs,
+    analysisVersion: breakdown.version,
+    processingTime: Date.now() - startTime,
+    sync: [givenSync, receivedSync].map(({ activities: _, ...rest }) => rest),
+  };
+}
+
+// Write an analysis to the leaderboard (and its score history)
+export async function saveUserAnalysis(result: UserAnalysis): Promise<void> {
+  await saveLeaderboardEntry({
+    userkey: result.userkey,
+    username: result.username,
+    name: result.name,
+    avatar: result.avatar,
+    score: result.score,
+    reviews_given: result.reviewsGiven,
+    reviews_received: result.reviewsReceived,
+    reciprocal_reviews: result.reciprocalReviews,
+    farming_score: result.r4rScore,
+    risk_level: result.riskLevel,
+    quick_reciprocations: result.quickReciprocations,
+    avg_reciprocal_time: result.avgReciprocalTime,
+    last_analyzed: new Date().toISOString(),
+    analysis_version: result.analysisVersion,
+    ring_count: result.ringCount,
+    high_risk_r4rs: result.highRiskR4rs,
+    processing_time: result.processingTime,
+  });
+}
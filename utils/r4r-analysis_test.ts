@@ -0,0 +1,51 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { resolveProfileUserkey } from "./r4r-analysis.ts";
+import type { EthosActivity } from "./types.ts";
+
+async function loadActivities(
+  profileId: number,
+  direction: "given" | "received",
+): Promise<EthosActivity[]> {
+  const url = new URL(
+    `../fixtures/ethos/activities/profileId_${profileId}.${direction}.json`,
+    import.meta.url,
+  );
+  return JSON.parse(await Deno.readTextFile(url)).values;
+}
+
+Deno.test("resolveProfileUserkey takes the profile's key from fetched activities", async () => {
+  assertEquals(
+    resolveProfileUserkey("given", await loadActivities(1001, "given"), null),
+    "profileId:1001",
+  );
+  assertEquals(
+    resolveProfileUserkey(
+      "received",
+      await loadActivities(1001, "received"),
+      { profile_userkey: "profileId:9999" },
+    ),
+    "profileId:1001",
+  );
+});
+
+Deno.test("resolveProfileUserkey keeps the stored key when an incremental sync finds nothing new", () => {
+  // Synced as an address, but Ethos returned the profileId form last time
+  assertEquals(
+    resolveProfileUserkey("given", [], { profile_userkey: "profileId:1001" }),
+    "profileId:1001",
+  );
+  assertEquals(
+    resolveProfileUserkey("received", [], {
+      profile_userkey: "profileId:1001",
+    }),
+    "profileId:1001",
+  );
+});
+
+Deno.test("resolveProfileUserkey is null before any review has been seen", () => {
+  assertEquals(resolveProfileUserkey("given", [], null), null);
+  assertEquals(
+    resolveProfileUserkey("given", [], { profile_userkey: null }),
+    null,
+  );
+});
@@ -0,0 +1,252 @@
+// R4R background jobs and the in-process worker that runs them.
+//
+//   r4r-batch         rank profiles by how likely they are to have changed
+//                     (utils/analysis-priority.ts) and queue an r4r-analyze
+//                     job for the top ones
+//   r4r-analyze       sync one profile's reviews, score it and save it to the
+//                     leaderboard
+//   profile-discover  one discovery pass to find more profiles
+//                     (utils/discovery.ts)
+
+import { rankProfilesForAnalysis } from "./analysis-priority.ts";
+import {
+  discoverFromActivityFeed,
+  type DiscoveryOptions,
+  runDiscovery,
+} from "./discovery.ts";
+import { enqueueJob, JobWorker, type QueuedJob } from "./job-queue.ts";
+import {
+  appendJobRunLog,
+  failJobRun,
+  recordJobRunItem,
+  releaseIfStopped,
+  setJobRunTotal,
+  startJobRun,
+} from "./job-runs.ts";
+import { analyzeUser, saveUserAnalysis } from "./r4r-analysis.ts";
+
+export const R4R_BATCH_JOB = "r4r-batch";
+export const R4R_ANALYZE_JOB = "r4r-analyze";
+export const PROFILE_DISCOVERY_JOB = "profile-discover";
+
+export interface R4rBatchPayload extends Record<string, unknown> {
+  maxUsers?: number;
+  // Only queue profiles with an Ethos score above 50
+  onlyHighActivity?: boolean;
+  // Skip profiles whose re-analysis priority (0-100) is below this
+  minPriority?: number;
+  // Queue priority for the per-profile jobs
+  priority?: number;
+  // job_runs row to report progress to, set when queued by a schedule
+  runId?: number;
+}
+
+export interface R4rAnalyzePayload extends Record<string, unknown> {
+  userkey: string;
+  fullSync?: boolean;
+  runId?: number;
+}
+
+export interface ProfileDiscoveryPayload extends Record<string, unknown> {
+  feedPages?: number;
+  crawlProfiles?: number;
+  searchTerms?: number;
+  runId?: number;
+}
+
+// Run history is bookkeeping - failing to write it shouldn't fail (and
+// retry) the job itself
+function track(update: Promise<void>): Promise<void> {
+  return update.catch((error) =>
+    console.warn("⚠️ Failed to update job run:", error)
+  );
+}
+
+// Log to the job's run when it has one
+function runLog(runId: number | undefined, message: string): Promise<void> {
+  if (runId === undefined) {
+    console.log(message);
+    return Promise.resolve();
+  }
+  return track(appendJobRunLog(runId, message));
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const isFinalAttempt = (job: QueuedJob) => job.attempts >= job.max_attempts;
+
+// The queue retries failed attempts, so only the last one fails the run
+function recordAttemptFailure(job: QueuedJob, runId: number, error: unknown) {
+  return track(
+    isFinalAttempt(job)
+      ? failJobRun(runId, errorMessage(error))
+      : appendJobRunLog(
+        runId,
+        `⚠️ Attempt ${job.attempts}/${job.max_attempts} failed, will retry: ${
+          errorMessage(error)
+        }`,
+      ),
+  );
+}
+
+async function runR4rBatchJob(job: QueuedJob) {
+  const {
+    maxUsers = 200,
+    onlyHighActivity = true,
+    minPriority = 0,
+    priority = 0,
+    runId,
+  } = job.payload as R4rBatchPayload;
+
+  if (runId !== undefined && await releaseIfStopped(job, runId)) {
+    return { released: true };
+  }
+  if (runId !== undefined) await track(startJobRun(runId));
+
+  try {
+    // Pull in the latest reviews first so recent activity counts towards the
+    // ranking
+    const feed = await discoverFromActivityFeed(1, "batch");
+    await runLog(
+      runId,
+      `📰 ${feed.seen} profiles in recent activity, ${feed.added} newly discovered`,
+    );
+
+    const users = await rankProfilesForAnalysis(maxUsers, {
+      minEthosScore: onlyHighActivity ? 50 : null,
+      minPriority,
+    });
+    await runLog(
+      runId,
+      `📋 Selected ${users.length} profiles due for analysis${
+        onlyHighActivity ? " (score > 50)" : ""
+      }`,
+    );
+    for (const user of users.slice(0, 5)) {
+      const analyzed = user.last_analyzed
+        ? `analyzed ${user.last_analyzed.toISOString()}`
+        : "never analyzed";
+      await runLog(
+        runId,
+        `   ${user.priority} ${
+          user.username || user.userkey
+        }: ${analyzed}, risk ${
+          user.farming_score ?? "?"
+        }, ${user.new_reviews} new reviews, ${user.changed_counterparties} counterparties re-analyzed`,
+      );
+    }
+
+    let queued = 0;
+    for (const user of users) {
+      // Within a run, higher-ranked profiles are analyzed first
+      const analyzeJob = await enqueueJob<R4rAnalyzePayload>(
+        R4R_ANALYZE_JOB,
+        { userkey: user.userkey, runId },
+        {
+          priority: priority + Math.round(user.priority / 10),
+          dedupeKey: `${R4R_ANALYZE_JOB}:${user.userkey}`,
+        },
+      );
+      if (analyzeJob) queued++;
+    }
+
+    await runLog(
+      runId,
+      `📦 Queued ${queued} profiles for analysis (${
+        users.length - queued
+      } already queued)`,
+    );
+    if (runId !== undefined) await track(setJobRunTotal(runId, queued));
+
+    return { found: users.length, queued };
+  } catch (error) {
+    if (runId !== undefined) await recordAttemptFailure(job, runId, error);
+    throw error;
+  }
+}
+
+async function runR4rAnalyzeJob(job: QueuedJob) {
+  const { userkey, fullSync = false, runId } = job.payload as R4rAnalyzePayload;
+
+  if (runId !== undefined && await releaseIfStopped(job, runId)) {
+    return { released: true };
+  }
+  let result;
+  try {
+    result = await analyzeUser(userkey, {
+      priority: "batch",
+      forceFull: fullSync,
+    });
+    if (result) await saveUserAnalysis(result);
+  } catch (error) {
+    // Earlier attempts are retried by the queue, so only the last one counts
+    // against the run
+    if (runId !== undefined && isFinalAttempt(job)) {
+      await track(recordJobRunItem(
+        runId,
+        userkey,
+        `❌ Failed to process ${userkey}: ${errorMessage(error)}`,
+        errorMessage(error),
+      ));
+    }
+    throw error;
+  }
+
+  if (!result) {
+    const message = `⏭️ Skipped ${userkey}: no reviews found`;
+    if (runId === undefined) console.log(message);
+    else await track(recordJobRunItem(runId, userkey, message));
+    return { userkey, skipped: "No reviews found" };
+  }
+
+  const message =
+    `✅ Processed ${result.username} (${result.r4rScore}% R4R score)`;
+  if (runId === undefined) console.log(message);
+  else await track(recordJobRunItem(runId, userkey, message));
+
+  return {
+    userkey: result.userkey,
+    username: result.username,
+    r4rScore: result.r4rScore,
+    processingTime: result.processingTime,
+  };
+}
+
+async function runProfileDiscoveryJob(job: QueuedJob) {
+  const { runId, ...options } = job.payload as ProfileDiscoveryPayload;
+
+  if (runId !== undefined && await releaseIfStopped(job, runId)) {
+    return { released: true };
+  }
+  if (runId !== undefined) await track(startJobRun(runId));
+
+  try {
+    const result = await runDiscovery({
+      ...options as DiscoveryOptions,
+      priority: "batch",
+      log: (message) => runLog(runId, message),
+    });
+    await runLog(runId, `✅ Discovered ${result.added} new profiles`);
+    // A discovery pass has no per-profile items to wait for
+    if (runId !== undefined) await track(setJobRunTotal(runId, 0));
+
+    return result;
+  } catch (error) {
+    if (runId !== undefined) await recordAttemptFailure(job, runId, error);
+    throw error;
+  }
+}
+
+// Global worker instance
+export const jobWorker = new JobWorker({
+  concurrency: parseInt(Deno.env.get("JOB_WORKER_CONCURRENCY") || "2"),
+});
+jobWorker.register(R4R_BATCH_JOB, runR4rBatchJob);
+jobWorker.register(R4R_ANALYZE_JOB, runR4rAnalyzeJob);
+jobWorker.register(PROFILE_DISCOVERY_JOB, runProfileDiscoveryJob);
+
+// Start polling the queue (call this in main.ts)
+export function startJobWorker(): void {
+  jobWorker.start();
+}
@@ -0,0 +1,401 @@
+// Shared R4R (Review for Review) scoring engine.
+// Pure functions only - used by the analysis island, the batch routes and
+// anything else that needs to turn review activities into a farming score.
+
+export type ReviewRating = "positive" | "negative" | "neutral";
+export type RiskLevel = "low" | "moderate" | "high";
+
+// Minimal shape of an Ethos review activity. Covers both the v2 activities API
+// (`timestamp`) and the legacy activities API (`createdAt`).
+export interface ScoringActivity {
+  timestamp?: string | number;
+  createdAt?: string;
+  archived?: boolean;
+  author: {
+    userkey: string;
+    username: string;
+  };
+  subject: {
+    userkey: string;
+    username: string;
+  };
+  content?: {
+    rating?: ReviewRating;
+  };
+  data?: {
+    score?: string;
+  };
+}
+
+export interface ReciprocalPair<T extends ScoringActivity = ScoringActivity> {
+  username: string;
+  givenReview: T;
+  receivedReview: T;
+  isPositivePair: boolean;
+  timeDifferenceHours: number;
+  isQuick: boolean;
+}
+
+export interface R4rScoreBreakdown<
+  T extends ScoringActivity = ScoringActivity,
+> {
+  version: string;
+  reviewsGiven: number;
+  reviewsReceived: number;
+  reciprocalReviews: number;
+  baseScore: number;
+  volumeMultiplier: number;
+  volumeReason: string;
+  accountAgeMultiplier: number;
+  accountAgeReason: string;
+  accountAgeDays: number;
+  reviewsPerDay: number;
+  scoreAfterMultipliers: number;
+  timePenalty: number;
+  timePenaltyReason: string;
+  quickReciprocations: number;
+  suspiciousRatio: number;
+  avgReciprocalTime: number; // in hours, positive-positive pairs only
+  finalScore: number;
+  riskLevel: RiskLevel;
+  pairs: ReciprocalPair<T>[];
+}
+
+// A named, versioned set of scoring thresholds. Every stored score is stamped
+// with the version that produced it, so changing a threshold means registering
+// a new version rather than editing an existing one.
+export interface ScoringAlgorithm {
+  version: string;
+  description: string;
+  // Reviews reciprocated within this window count as "quick"
+  quickReciprocationHours: number;
+  // Base reciprocal percentage is capped so multipliers can still reach 100%
+  baseScoreCap: number;
+  volumeTiers: Array<{
+    minReciprocals: number;
+    multiplier: number;
+    reason: string;
+  }>;
+  accountAgeTiers: Array<{
+    minReviewsPerDay: number;
+    maxAccountAgeDays: number;
+    multiplier: number;
+    label: string;
+  }>;
+  timePenaltyTiers: Array<{
+    minRatio: number;
+    minQuickReciprocations: number;
+    basePenalty: number;
+    ratioWeight: number;
+    label: string;
+    range: string;
+  }>;
+}
+
+export const SCORING_ALGORITHMS: Record<string, ScoringAlgorithm> = {
+  "v1.0": {
+    version: "v1.0",
+    description:
+      "Positive-positive pairs, base capped at 65%, quick = under 30 minutes",
+    quickReciprocationHours: 0.5,
+    baseScoreCap: 65,
+    volumeTiers: [
+      {
+        minReciprocals: 50,
+        multiplier: 1.2,
+        reason: "Very high volume (≥50 reciprocals)",
+      },
+      {
+        minReciprocals: 20,
+        multiplier: 1.15,
+        reason: "High volume (20-49 reciprocals)",
+      },
+      {
+        minReciprocals: 10,
+        multiplier: 1.05,
+        reason: "Moderate volume (10-19 reciprocals)",
+      },
+    ],
+    accountAgeTiers: [
+      {
+        minReviewsPerDay: 10,
+        maxAccountAgeDays: 30,
+        multiplier: 1.4,
+        label: "Very high activity",
+      },
+      {
+        minReviewsPerDay: 5,
+        maxAccountAgeDays: 60,
+        multiplier: 1.25,
+        label: "High activity",
+      },
+      {
+        minReviewsPerDay: 2,
+        maxAccountAgeDays: 90,
+        multiplier: 1.1,
+        label: "Moderate activity",
+      },
+    ],
+    timePenaltyTiers: [
+      {
+        minRatio: 0.8,
+        minQuickReciprocations: 3,
+        basePenalty: 10,
+        ratioWeight: 5,
+        label: "Major penalty",
+        range: "≥80%",
+      },
+      {
+        minRatio: 0.6,
+        minQuickReciprocations: 3,
+        basePenalty: 8,
+        ratioWeight: 4,
+        label: "High penalty",
+        range: "60-79%",
+      },
+      {
+        minRatio: 0.4,
+        minQuickReciprocations: 2,
+        basePenalty: 5,
+        ratioWeight: 3,
+        label: "Moderate penalty",
+        range: "40-59%",
+      },
+      {
+        minRatio: 0.2,
+        minQuickReciprocations: 2,
+        basePenalty: 2,
+        ratioWeight: 2,
+        label: "Small penalty",
+        range: "20-39%",
+      },
+    ],
+  },
+};
+
+// Version used for new analyses
+export const CURRENT_SCORING_VERSION = "v1.0";
+
+export function isScoringVersion(version: unknown): version is string {
+  return typeof version === "string" && version in SCORING_ALGORITHMS;
+}
+
+export function getScoringAlgorithm(
+  version = CURRENT_SCORING_VERSION,
+): ScoringAlgorithm {
+  const algorithm = SCORING_ALGORITHMS[version];
+  if (!algorithm) {
+    throw new Error(`Unknown scoring version: ${version}`);
+  }
+  return algorithm;
+}
+
+export function parseActivityTimestamp(timestamp: string | number): Date {
+  const timestampStr = timestamp.toString();
+
+  // ISO strings
+  if (timestampStr.includes("T") || timestampStr.includes("-")) {
+    return new Date(timestamp);
+  }
+
+  // Unix timestamps - 10 digits means seconds, otherwise milliseconds
+  const numTimestamp = typeof timestamp === "number"
+    ? timestamp
+    : parseInt(timestampStr);
+  if (numTimestamp.toString().length === 10) {
+    return new Date(numTimestamp * 1000);
+  }
+  return new Date(numTimestamp);
+}
+
+export function getActivityTime(activity: ScoringActivity): number {
+  const timestamp = activity.timestamp ?? activity.createdAt;
+  if (timestamp === undefined) return NaN;
+  return parseActivityTimestamp(timestamp).getTime();
+}
+
+export function getActivityRating(
+  activity: ScoringActivity,
+): ReviewRating | undefined {
+  const rating = activity.data?.score || activity.content?.rating;
+  if (rating === "positive" || rating === "negative" || rating === "neutral") {
+    return rating;
+  }
+  return undefined;
+}
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= 70) return "high";
+  if (score >= 40) return "moderate";
+  return "low";
+}
+
+// Match each given review with a review received back from the same user.
+// Only positive-positive pairs count as true R4R.
+export function findReciprocalPairs<T extends ScoringActivity>(
+  given: T[],
+  received: T[],
+  quickReciprocationHours = getScoringAlgorithm().quickReciprocationHours,
+): ReciprocalPair<T>[] {
+  const pairs: ReciprocalPair<T>[] = [];
+
+  for (const givenReview of given) {
+    const targetUsername = givenReview.subject.username;
+    const receivedReview = received.find((r) =>
+      r.author.username === targetUsername
+    );
+    if (!receivedReview) continue;
+
+    const isPositivePair = getActivityRating(givenReview) === "positive" &&
+      getActivityRating(receivedReview) === "positive";
+    const timeDifferenceHours = Math.abs(
+      getActivityTime(givenReview) - getActivityTime(receivedReview),
+    ) / (1000 * 60 * 60);
+
+    pairs.push({
+      username: targetUsername,
+      givenReview,
+      receivedReview,
+      isPositivePair,
+      timeDifferenceHours,
+      isQuick: timeDifferenceHours < quickReciprocationHours,
+    });
+  }
+
+  return pairs;
+}
+
+// Calculate the R4R score for a user from their given and received reviews
+// using the given algorithm version. Archived reviews are ignored.
+export function calculateR4rScore<T extends ScoringActivity>(
+  givenReviews: T[],
+  receivedReviews: T[],
+  version = CURRENT_SCORING_VERSION,
+  now = Date.now(),
+): R4rScoreBreakdown<T> {
+  const algorithm = getScoringAlgorithm(version);
+  const given = givenReviews.filter((r) => !r.archived);
+  const received = receivedReviews.filter((r) => !r.archived);
+
+  const pairs = findReciprocalPairs(
+    given,
+    received,
+    algorithm.quickReciprocationHours,
+  );
+  const positivePairs = pairs.filter((p) => p.isPositivePair);
+  const reciprocalCount = positivePairs.length;
+  const avgReciprocalTime = reciprocalCount > 0
+    ? positivePairs.reduce((sum, p) => sum + p.timeDifferenceHours, 0) /
+      reciprocalCount
+    : 0;
+
+  if (received.length === 0) {
+    return {
+      version: algorithm.version,
+      reviewsGiven: given.length,
+      reviewsReceived: 0,
+      reciprocalReviews: reciprocalCount,
+      baseScore: 0,
+      volumeMultiplier: 1,
+      volumeReason: "No reviews received",
+      accountAgeMultiplier: 1,
+      accountAgeReason: "No reviews to analyze",
+      accountAgeDays: 0,
+      reviewsPerDay: 0,
+      scoreAfterMultipliers: 0,
+      timePenalty: 0,
+      timePenaltyReason: "No time penalty",
+      quickReciprocations: 0,
+      suspiciousRatio: 0,
+      avgReciprocalTime,
+      finalScore: 0,
+      riskLevel: "low",
+      pairs,
+    };
+  }
+
+  const baseScore = Math.min(
+    (reciprocalCount / received.length) * 100,
+    algorithm.baseScoreCap,
+  );
+
+  const quickReciprocations = positivePairs.filter((p) => p.isQuick).length;
+  const suspiciousRatio = reciprocalCount > 0
+    ? quickReciprocations / reciprocalCount
+    : 0;
+
+  // Volume-based scoring - higher volume of reciprocals is more suspicious
+  const volumeTier = algorithm.volumeTiers.find((tier) =>
+    reciprocalCount >= tier.minReciprocals
+  );
+  const volumeMultiplier = volumeTier?.multiplier ?? 1;
+  const volumeReason = volumeTier?.reason ??
+    `Low volume (<${
+      Math.min(...algorithm.volumeTiers.map((t) => t.minReciprocals))
+    } reciprocals)`;
+
+  // Account age estimated from the earliest review
+  const totalReviews = given.length + received.length;
+  const timestamps = [...given, ...received]
+    .map(getActivityTime)
+    .filter((t) => !isNaN(t));
+  const earliestReview = timestamps.length > 0 ? Math.min(...timestamps) : now;
+  const accountAgeDays = (now - earliestReview) / (1000 * 60 * 60 * 24);
+  const reviewsPerDay = totalReviews / Math.max(accountAgeDays, 1);
+
+  const accountAgeTier = algorithm.accountAgeTiers.find((tier) =>
+    reviewsPerDay > tier.minReviewsPerDay &&
+    accountAgeDays < tier.maxAccountAgeDays
+  );
+  const accountAgeMultiplier = accountAgeTier?.multiplier ?? 1;
+  const accountAgeReason = accountAgeTier
+    ? `${accountAgeTier.label}: ${reviewsPerDay.toFixed(1)} reviews/day on ${
+      accountAgeDays.toFixed(0)
+    }-day account`
+    : "Normal activity rate";
+
+  const scoreAfterMultipliers = baseScore * volumeMultiplier *
+    accountAgeMultiplier;
+
+  // Time-based penalties on top of the multiplied score
+  const penaltyTier = algorithm.timePenaltyTiers.find((tier) =>
+    suspiciousRatio >= tier.minRatio &&
+    quickReciprocations >= tier.minQuickReciprocations
+  );
+  const timePenalty = penaltyTier
+    ? penaltyTier.basePenalty + (suspiciousRatio * penaltyTier.ratioWeight)
+    : 0;
+  const timePenaltyReason = penaltyTier
+    ? `${penaltyTier.label}: ${
+      (suspiciousRatio * 100).toFixed(0)
+    }% quick reciprocals (${penaltyTier.range})`
+    : "No time penalty";
+
+  const finalScore = Math.min(
+    Math.round(scoreAfterMultipliers + timePenalty),
+    100,
+  );
+
+  return {
+    version: algorithm.version,
+    reviewsGiven: given.length,
+    reviewsReceived: received.length,
+    reciprocalReviews: reciprocalCount,
+    baseScore,
+    volumeMultiplier,
+    volumeReason,
+    accountAgeMultiplier,
+    accountAgeReason,
+    accountAgeDays,
+    reviewsPerDay,
+    scoreAfterMultipliers,
+    timePenalty,
+    timePenaltyReason,
+    quickReciprocations,
+    suspiciousRatio,
+    avgReciprocalTime,
+    finalScore,
+    riskLevel: getRiskLevel(finalScore),
+    pairs,
+  };
+}
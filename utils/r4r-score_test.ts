@@ -0,0 +1,173 @@
+import { assertAlmostEquals, assertEquals } from "$std/assert/mod.ts";
+import {
+  calculateR4rScore,
+  findReciprocalPairs,
+  getRiskLevel,
+  parseActivityTimestamp,
+  type ScoringActivity,
+} from "./r4r-score.ts";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Review activities served by the Ethos mock (ethos-mock.ts)
+async function loadActivities(
+  profileId: number,
+  direction: "given" | "received",
+): Promise<ScoringActivity[]> {
+  const url = new URL(
+    `../fixtures/ethos/activities/profileId_${profileId}.${direction}.json`,
+    import.meta.url,
+  );
+  return JSON.parse(await Deno.readTextFile(url)).values;
+}
+
+// Reviews between `user` and each of `others`, the reply `gapHours` later
+function reviewRing(
+  user: string,
+  others: string[],
+  gapHours: number,
+  start: number,
+): { given: ScoringActivity[]; received: ScoringActivity[] } {
+  const profile = (username: string) => ({
+    userkey: `service:x.com:username:${username}`,
+    username,
+  });
+  const review = (author: string, subject: string, time: number) => ({
+    timestamp: new Date(time).toISOString(),
+    author: profile(author),
+    subject: profile(subject),
+    data: { score: "positive" },
+  });
+
+  return {
+    given: others.map((other, i) => review(user, other, start + i * DAY)),
+    received: others.map((other, i) =>
+      review(other, user, start + i * DAY + gapHours * HOUR)
+    ),
+  };
+}
+
+Deno.test("parseActivityTimestamp accepts seconds, milliseconds and ISO strings", () => {
+  const expected = new Date("2025-01-01T12:00:00Z").getTime();
+  assertEquals(parseActivityTimestamp(1735732800).getTime(), expected);
+  assertEquals(parseActivityTimestamp("1735732800").getTime(), expected);
+  assertEquals(parseActivityTimestamp(1735732800000).getTime(), expected);
+  assertEquals(
+    parseActivityTimestamp("2025-01-01T12:00:00Z").getTime(),
+    expected,
+  );
+});
+
+Deno.test("getRiskLevel thresholds", () => {
+  assertEquals(getRiskLevel(0), "low");
+  assertEquals(getRiskLevel(39), "low");
+  assertEquals(getRiskLevel(40), "moderate");
+  assertEquals(getRiskLevel(69), "moderate");
+  assertEquals(getRiskLevel(70), "high");
+});
+
+Deno.test("findReciprocalPairs only counts positive-positive pairs as R4R", async () => {
+  const pairs = findReciprocalPairs(
+    await loadActivities(1001, "given"),
+    await loadActivities(1001, "received"),
+  );
+
+  assertEquals(
+    pairs.map((p) => [p.username, p.isPositivePair, p.isQuick]),
+    [
+      ["dave_builder", false, false],
+      ["carol_reviews", true, false],
+      ["bob_r4r", true, true],
+    ],
+  );
+  assertAlmostEquals(pairs[1].timeDifferenceHours, 5);
+  assertAlmostEquals(pairs[2].timeDifferenceHours, 10 / 60);
+});
+
+Deno.test("calculateR4rScore scores the fixture profile", async () => {
+  const given = await loadActivities(1001, "given");
+  const received = await loadActivities(1001, "received");
+  // Long enough after the reviews that account age doesn't matter
+  const now = new Date("2026-01-01T00:00:00Z").getTime();
+
+  const breakdown = calculateR4rScore(given, received, "v1.0", now);
+
+  assertEquals(breakdown.version, "v1.0");
+  assertEquals(breakdown.reviewsGiven, 3);
+  assertEquals(breakdown.reviewsReceived, 3);
+  assertEquals(breakdown.reciprocalReviews, 2);
+  // 2 of 3 received reviews reciprocated, capped at 65%
+  assertEquals(breakdown.baseScore, 65);
+  assertEquals(breakdown.volumeMultiplier, 1);
+  assertEquals(breakdown.accountAgeMultiplier, 1);
+  assertEquals(breakdown.quickReciprocations, 1);
+  assertEquals(breakdown.suspiciousRatio, 0.5);
+  // One quick reciprocation isn't enough for a penalty
+  assertEquals(breakdown.timePenalty, 0);
+  assertAlmostEquals(breakdown.avgReciprocalTime, (5 + 10 / 60) / 2);
+  assertEquals(breakdown.finalScore, 65);
+  assertEquals(breakdown.riskLevel, "moderate");
+});
+
+Deno.test("calculateR4rScore is 0 without received reviews", async () => {
+  const breakdown = calculateR4rScore(await loadActivities(1001, "given"), []);
+  assertEquals(breakdown.finalScore, 0);
+  assertEquals(breakdown.riskLevel, "low");
+  assertEquals(breakdown.reviewsGiven, 3);
+});
+
+Deno.test("calculateR4rScore ignores archived reviews", async () => {
+  const given = await loadActivities(1001, "given");
+  const received = (await loadActivities(1001, "received")).map((review) =>
+    review.author.username === "bob_r4r"
+      ? { ...review, archived: true }
+      : review
+  );
+
+  const breakdown = calculateR4rScore(given, received);
+  assertEquals(breakdown.reviewsReceived, 2);
+  assertEquals(breakdown.reciprocalReviews, 1);
+  assertEquals(breakdown.quickReciprocations, 0);
+});
+
+Deno.test("calculateR4rScore applies volume, account age and time penalties", () => {
+  const now = new Date("2026-01-31T00:00:00Z").getTime();
+  const others = Array.from({ length: 25 }, (_, i) => `farmer_${i}`);
+  // 25 reviews each way within 25 days, every one returned in 10 minutes
+  const { given, received } = reviewRing(
+    "ring_leader",
+    others,
+    1 / 6,
+    now - 25 * DAY,
+  );
+
+  const breakdown = calculateR4rScore(given, received, "v1.0", now);
+
+  assertEquals(breakdown.reciprocalReviews, 25);
+  assertEquals(breakdown.baseScore, 65);
+  assertEquals(breakdown.volumeMultiplier, 1.15);
+  // 50 reviews over 25 days is 2 a day - not above the 2/day tier
+  assertEquals(breakdown.accountAgeMultiplier, 1);
+  assertEquals(breakdown.quickReciprocations, 25);
+  assertEquals(breakdown.timePenalty, 10 + 5);
+  assertEquals(breakdown.finalScore, 90);
+  assertEquals(breakdown.riskLevel, "high");
+  // Stored in hours
+  assertAlmostEquals(breakdown.avgReciprocalTime, 1 / 6);
+});
+
+Deno.test("calculateR4rScore doesn't penalise slow reciprocation", () => {
+  const now = new Date("2026-06-01T00:00:00Z").getTime();
+  const { given, received } = reviewRing(
+    "patient",
+    ["a", "b", "c"],
+    72,
+    now - 200 * DAY,
+  );
+
+  const breakdown = calculateR4rScore(given, received, "v1.0", now);
+  assertEquals(breakdown.quickReciprocations, 0);
+  assertEquals(breakdown.timePenalty, 0);
+  assertAlmostEquals(breakdown.avgReciprocalTime, 72);
+});
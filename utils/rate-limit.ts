@@ -0,0 +1,103 @@
+// Per-client rate limits for the public API, shared by every server instance
+// through Postgres. Each client (an API key, or an IP address without one)
+// gets a counter per one-minute window; once it passes the client's limit,
+// requests are refused with 429 until the window ends. The same statement
+// bumps the client's daily usage counters.
+
+import { getClient } from "./database.ts";
+
+export const ANONYMOUS_RATE_LIMIT = parseInt(
+  Deno.env.get("ANONYMOUS_RATE_LIMIT_PER_MINUTE") || "120",
+);
+
+const WINDOW_MS = 60 * 1000;
+// Old windows are swept at most this often per instance
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the current window ends
+  resetIn: number;
+}
+
+export interface ClientUsage {
+  client: string;
+  requests: number;
+  throttled: number;
+}
+
+let lastCleanup = 0;
+
+// Count one request against `client`
+export async function hitRateLimit(
+  client: string,
+  limit: number,
+): Promise<RateLimitResult> {
+  const db = await getClient();
+
+  const result = await db.queryObject<{ requests: number; reset_in: number }>`
+    WITH hit AS (
+      INSERT INTO rate_limit_windows (client, window_start, requests)
+      VALUES (${client}, date_trunc('minute', NOW()), 1)
+      ON CONFLICT (client, window_start)
+        DO UPDATE SET requests = rate_limit_windows.requests + 1
+      RETURNING requests, window_start
+    ), usage AS (
+      INSERT INTO api_usage (client, day, requests, throttled)
+      SELECT ${client}, CURRENT_DATE, 1, CASE WHEN requests > ${limit} THEN 1 ELSE 0 END
+      FROM hit
+      ON CONFLICT (client, day) DO UPDATE SET
+        requests = api_usage.requests + 1,
+        throttled = api_usage.throttled + EXCLUDED.throttled
+    )
+    SELECT requests,
+      EXTRACT(EPOCH FROM window_start + INTERVAL '1 minute' - NOW())::float AS reset_in
+    FROM hit
+  `;
+
+  if (Date.now() - lastCleanup > CLEANUP_INTERVAL_MS) {
+    lastCleanup = Date.now();
+    db.queryObject`
+      DELETE FROM rate_limit_windows
+      WHERE window_start < NOW() - (${WINDOW_MS}::float8 * INTERVAL '1 millisecond')
+    `.catch((error) =>
+      console.warn("⚠️ Failed to clean up rate limit windows:", error)
+    );
+  }
+
+  const { requests, reset_in } = result.rows[0];
+  return {
+    allowed: requests <= limit,
+    limit,
+    remaining: Math.max(limit - requests, 0),
+    resetIn: Math.max(Math.ceil(reset_in), 1),
+  };
+}
+
+// Busiest keyless clients today
+export async function getTopAnonymousClients(limit = 10): Promise<
+  ClientUsage[]
+> {
+  const db = await getClient();
+
+  const result = await db.queryObject<ClientUsage>`
+    SELECT client, requests, throttled FROM api_usage
+    WHERE day = CURRENT_DATE AND client LIKE 'ip:%'
+    ORDER BY requests DESC
+    LIMIT ${limit}
+  `;
+
+  return result.rows;
+}
+
+export function rateLimitHeaders(
+  result: RateLimitResult,
+): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(result.resetIn),
+  };
+}
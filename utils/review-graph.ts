@@ -0,0 +1,284 @@
+// Review graph analysis over stored reviews.
+// Pure functions only - callers load the edges from database.ts and pass them in.
+
+// A positive, non-archived review from author to subject
+export interface ReviewEdge {
+  id: string;
+  authorUserkey: string;
+  authorUsername: string;
+  subjectUserkey: string;
+  subjectUsername: string;
+  timestamp: number; // ms since epoch
+}
+
+export interface ReviewRing {
+  // Members in cycle order, starting with the profile the search started from
+  members: Array<{ userkey: string; username: string }>;
+  edges: ReviewEdge[];
+  length: number;
+  spanHours: number;
+  score: number;
+}
+
+export interface RingDetectionOptions {
+  // Longest cycle to look for. Length 2 is a plain reciprocal pair and is
+  // already covered by the R4R score, so rings start at 3.
+  maxLength?: number;
+  // All reviews in a ring must fall within this many hours of each other
+  windowHours?: number;
+  maxRings?: number;
+}
+
+export const DEFAULT_RING_MAX_LENGTH = 4;
+export const DEFAULT_RING_WINDOW_HOURS = 24 * 30;
+
+// 0-100: tighter rings (fewer members, reviews closer together in time) score
+// higher. A 3-member ring completed within an hour scores close to 100.
+export function scoreRing(
+  length: number,
+  spanHours: number,
+  windowHours = DEFAULT_RING_WINDOW_HOURS,
+): number {
+  const timeScore = Math.max(0, 1 - spanHours / windowHours);
+  const sizeScore = 3 / Math.max(length, 3);
+  return Math.round(100 * (0.6 * timeScore + 0.4 * sizeScore));
+}
+
+// Find directed cycles of length 3..maxLength that pass through `userkey`.
+// Only the most recent review per (author, subject) pair is used.
+export function findReviewRings(
+  userkey: string,
+  edges: ReviewEdge[],
+  options: RingDetectionOptions = {},
+): ReviewRing[] {
+  const {
+    maxLength = DEFAULT_RING_MAX_LENGTH,
+    windowHours = DEFAULT_RING_WINDOW_HOURS,
+    maxRings = 50,
+  } = options;
+  const windowMs = windowHours * 60 * 60 * 1000;
+
+  const latestByPair = new Map<string, ReviewEdge>();
+  for (const edge of edges) {
+    if (edge.authorUserkey === edge.subjectUserkey) continue;
+    const key = `${edge.authorUserkey}→${edge.subjectUserkey}`;
+    const existing = latestByPair.get(key);
+    if (!existing || edge.timestamp > existing.timestamp) {
+      latestByPair.set(key, edge);
+    }
+  }
+
+  const outgoing = new Map<string, ReviewEdge[]>();
+  for (const edge of latestByPair.values()) {
+    const list = outgoing.get(edge.authorUserkey) || [];
+    list.push(edge);
+    outgoing.set(edge.authorUserkey, list);
+  }
+
+  const rings: ReviewRing[] = [];
+  const path: ReviewEdge[] = [];
+  const visited = new Set<string>([userkey]);
+
+  const walk = (current: string, minTime: number, maxTime: number) => {
+    for (const edge of outgoing.get(current) || []) {
+      const lo = Math.min(minTime, edge.timestamp);
+      const hi = Math.max(maxTime, edge.timestamp);
+      if (hi - lo > windowMs) continue;
+
+      if (edge.subjectUserkey === userkey) {
+        if (path.length + 1 >= 3) {
+          const ringEdges = [...path, edge];
+          const spanHours = (hi - lo) / (1000 * 60 * 60);
+          rings.push({
+            members: ringEdges.map((e) => ({
+              userkey: e.authorUserkey,
+              username: e.authorUsername,
+            })),
+            edges: ringEdges,
+            length: ringEdges.length,
+            spanHours,
+            score: scoreRing(ringEdges.length, spanHours, windowHours),
+          });
+        }
+        continue;
+      }
+
+      if (visited.has(edge.subjectUserkey) || path.length + 1 >= maxLength) {
+        continue;
+      }
+
+      visited.add(edge.subjectUserkey);
+      path.push(edge);
+      walk(edge.subjectUserkey, lo, hi);
+      path.pop();
+      visited.delete(edge.subjectUserkey);
+    }
+  };
+
+  walk(userkey, Infinity, -Infinity);
+
+  return rings
+    .sort((a, b) => b.score - a.score || a.spanHours - b.spanHours)
+    .slice(0, maxRings);
+}
+
+export interface ReviewCluster {
+  id: string;
+  members: Array<{ userkey: string; username: string }>;
+  size: number;
+  // Positive reviews between members
+  internalReviews: number;
+  // Member pairs that reviewed each other
+  reciprocalPairs: number;
+  // Reciprocal pairs out of all possible member pairs (0-1)
+  reciprocityDensity: number;
+  // Share of members' positive reviews that stay inside the cluster (0-1)
+  internalRatio: number;
+}
+
+export interface ClusterDetectionOptions {
+  minSize?: number;
+  maxIterations?: number;
+}
+
+// FNV-1a - short, stable cluster ids that don't depend on pass order
+function stableHash(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// Label propagation over the undirected review graph. A pair that reviewed
+// each other is weighted twice as heavily as a one-way review. Nodes are
+// visited in a fixed order and ties go to the smallest label, so the same
+// edges always give the same clusters.
+export function detectClusters(
+  edges: ReviewEdge[],
+  options: ClusterDetectionOptions = {},
+): ReviewCluster[] {
+  const { minSize = 3, maxIterations = 20 } = options;
+
+  const usernames = new Map<string, string>();
+  const directed = new Set<string>();
+  const weights = new Map<string, Map<string, number>>();
+
+  const addWeight = (a: string, b: string) => {
+    const neighbours = weights.get(a) || new Map<string, number>();
+    neighbours.set(b, (neighbours.get(b) || 0) + 1);
+    weights.set(a, neighbours);
+  };
+
+  for (const edge of edges) {
+    if (edge.authorUserkey === edge.subjectUserkey) continue;
+    usernames.set(edge.authorUserkey, edge.authorUsername);
+    usernames.set(edge.subjectUserkey, edge.subjectUsername);
+
+    // Repeat reviews of the same subject count once
+    const key = `${edge.authorUserkey}→${edge.subjectUserkey}`;
+    if (directed.has(key)) continue;
+    directed.add(key);
+
+    addWeight(edge.authorUserkey, edge.subjectUserkey);
+    addWeight(edge.subjectUserkey, edge.authorUserkey);
+  }
+
+  const nodes = Array.from(weights.keys()).sort();
+  const labels = new Map(nodes.map((node) => [node, node]));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+
+    for (const node of nodes) {
+      const labelWeights = new Map<string, number>();
+      for (const [neighbour, weight] of weights.get(node)!) {
+        const label = labels.get(neighbour)!;
+        labelWeights.set(label, (labelWeights.get(label) || 0) + weight);
+      }
+
+      const current = labels.get(node)!;
+      let best = current;
+      let bestWeight = labelWeights.get(current) ?? -1;
+      for (const [label, weight] of labelWeights) {
+        if (weight > bestWeight || (weight === bestWeight && label < best)) {
+          best = label;
+          bestWeight = weight;
+        }
+      }
+
+      if (best !== current) {
+        labels.set(node, best);
+        changed = true;
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const node of nodes) {
+    const label = labels.get(node)!;
+    const members = groups.get(label) || [];
+    members.push(node);
+    groups.set(label, members);
+  }
+
+  // One pass over the edges, tallied by the label of the endpoints
+  const stats = new Map<
+    string,
+    { internal: number; touching: number; reciprocal: number }
+  >();
+  const tally = (label: string) => {
+    let entry = stats.get(label);
+    if (!entry) {
+      entry = { internal: 0, touching: 0, reciprocal: 0 };
+      stats.set(label, entry);
+    }
+    return entry;
+  };
+
+  for (const key of directed) {
+    const [author, subject] = key.split("→");
+    const authorLabel = labels.get(author)!;
+    const subjectLabel = labels.get(subject)!;
+
+    tally(authorLabel).touching++;
+    if (authorLabel !== subjectLabel) {
+      tally(subjectLabel).touching++;
+      continue;
+    }
+
+    const entry = tally(authorLabel);
+    entry.internal++;
+    // Count each reciprocal pair once, from its smaller end
+    if (author < subject && directed.has(`${subject}→${author}`)) {
+      entry.reciprocal++;
+    }
+  }
+
+  const clusters: ReviewCluster[] = [];
+  for (const [label, members] of groups) {
+    if (members.length < minSize) continue;
+
+    const { internal, touching, reciprocal } = tally(label);
+    const possiblePairs = (members.length * (members.length - 1)) / 2;
+    clusters.push({
+      id: `cluster-${stableHash(members[0])}`,
+      members: members.map((userkey) => ({
+        userkey,
+        username: usernames.get(userkey) || userkey,
+      })),
+      size: members.length,
+      internalReviews: internal,
+      reciprocalPairs: reciprocal,
+      reciprocityDensity: possiblePairs > 0 ? reciprocal / possiblePairs : 0,
+      internalRatio: touching > 0 ? internal / touching : 0,
+    });
+  }
+
+  return clusters.sort((a, b) =>
+    b.reciprocityDensity - a.reciprocityDensity || b.size - a.size
+  );
+}
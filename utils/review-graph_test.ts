@@ -0,0 +1,169 @@
+import { assertAlmostEquals, assertEquals } from "$std/assert/mod.ts";
+import {
+  detectClusters,
+  findReviewRings,
+  type ReviewEdge,
+  scoreRing,
+} from "./review-graph.ts";
+
+const HOUR = 60 * 60 * 1000;
+
+let nextId = 0;
+// A positive review from `author` to `subject`, `hours` after the epoch
+function review(author: string, subject: string, hours = 0): ReviewEdge {
+  return {
+    id: `review-${++nextId}`,
+    authorUserkey: `profileId:${author}`,
+    authorUsername: author,
+    subjectUserkey: `profileId:${subject}`,
+    subjectUsername: subject,
+    timestamp: hours * HOUR,
+  };
+}
+
+const usernames = (members: Array<{ username: string }>) =>
+  members.map((member) => member.username);
+
+Deno.test("scoreRing favours small, fast rings", () => {
+  assertEquals(scoreRing(3, 0), 100);
+  // Spanning the whole window leaves only the size score
+  assertEquals(scoreRing(4, 24 * 30), 30);
+  assertEquals(scoreRing(3, 12, 24), 70);
+});
+
+Deno.test("findReviewRings finds a three-way ring through the profile", () => {
+  const rings = findReviewRings("profileId:alice", [
+    review("alice", "bob", 0),
+    review("bob", "carol", 1),
+    review("carol", "alice", 3),
+    // Not part of any ring
+    review("dave", "alice", 2),
+  ]);
+
+  assertEquals(rings.length, 1);
+  assertEquals(usernames(rings[0].members), ["alice", "bob", "carol"]);
+  assertEquals(rings[0].length, 3);
+  assertAlmostEquals(rings[0].spanHours, 3);
+  assertEquals(rings[0].score, scoreRing(3, 3));
+});
+
+Deno.test("findReviewRings leaves reciprocal pairs to the R4R score", () => {
+  const rings = findReviewRings("profileId:alice", [
+    review("alice", "bob"),
+    review("bob", "alice"),
+  ]);
+  assertEquals(rings, []);
+});
+
+Deno.test("findReviewRings respects maxLength and the time window", () => {
+  const square = [
+    review("alice", "bob", 0),
+    review("bob", "carol", 1),
+    review("carol", "dave", 2),
+    review("dave", "alice", 3),
+  ];
+
+  assertEquals(
+    findReviewRings("profileId:alice", square).map((ring) => ring.length),
+    [4],
+  );
+  assertEquals(
+    findReviewRings("profileId:alice", square, { maxLength: 3 }),
+    [],
+  );
+  assertEquals(
+    findReviewRings("profileId:alice", square, { windowHours: 2 }),
+    [],
+  );
+});
+
+Deno.test("findReviewRings uses the latest review between a pair", () => {
+  const rings = findReviewRings(
+    "profileId:alice",
+    [
+      review("alice", "bob", 0),
+      review("bob", "carol", 1),
+      // A year-old review would put the ring outside the window on its own
+      review("carol", "alice", -24 * 365),
+      review("carol", "alice", 2),
+    ],
+  );
+
+  assertEquals(rings.length, 1);
+  assertAlmostEquals(rings[0].spanHours, 2);
+});
+
+Deno.test("findReviewRings ranks tighter rings first", () => {
+  const rings = findReviewRings("profileId:alice", [
+    review("alice", "bob", 0),
+    review("bob", "carol", 1),
+    review("carol", "alice", 2),
+    review("alice", "erin", 0),
+    review("erin", "frank", 200),
+    review("frank", "alice", 400),
+  ]);
+
+  assertEquals(rings.map((ring) => usernames(ring.members)), [
+    ["alice", "bob", "carol"],
+    ["alice", "erin", "frank"],
+  ]);
+});
+
+// Both reviewed each other
+const mutual = (a: string, b: string) => [review(a, b), review(b, a)];
+
+// Two fully reciprocal triangles joined by a single one-way review, plus a
+// hanger-on and a pair too small to count as a cluster
+const TWO_RINGS = [
+  ...mutual("alice", "bob"),
+  ...mutual("bob", "carol"),
+  ...mutual("alice", "carol"),
+  ...mutual("xena", "yuri"),
+  ...mutual("yuri", "zoe"),
+  ...mutual("xena", "zoe"),
+  review("carol", "xena"),
+  review("dave", "alice"),
+  review("erin", "frank"),
+];
+
+Deno.test("detectClusters separates densely connected groups", () => {
+  const clusters = detectClusters(TWO_RINGS);
+
+  assertEquals(
+    clusters.map((cluster) => usernames(cluster.members)),
+    [["xena", "yuri", "zoe"], ["alice", "bob", "carol", "dave"]],
+  );
+
+  const [ring, withHangerOn] = clusters;
+  assertEquals(ring.internalReviews, 6);
+  assertEquals(ring.reciprocalPairs, 3);
+  assertEquals(ring.reciprocityDensity, 1);
+  // carol's review of xena crosses clusters
+  assertAlmostEquals(ring.internalRatio, 6 / 7);
+
+  assertEquals(withHangerOn.internalReviews, 7);
+  assertEquals(withHangerOn.reciprocalPairs, 3);
+  assertEquals(withHangerOn.reciprocityDensity, 0.5);
+  assertAlmostEquals(withHangerOn.internalRatio, 7 / 8);
+});
+
+Deno.test("detectClusters gives the same clusters whatever the edge order", () => {
+  const ids = detectClusters(TWO_RINGS).map((cluster) => cluster.id);
+  assertEquals(
+    detectClusters([...TWO_RINGS].reverse()).map((cluster) => cluster.id),
+    ids,
+  );
+});
+
+Deno.test("detectClusters drops groups below minSize and repeat reviews", () => {
+  const edges = [...TWO_RINGS, review("erin", "frank", 48)];
+
+  const pairs = detectClusters(edges, { minSize: 2 });
+  const erinAndFrank = pairs.find((cluster) =>
+    usernames(cluster.members).includes("erin")
+  )!;
+  assertEquals(erinAndFrank.size, 2);
+  assertEquals(erinAndFrank.internalReviews, 1);
+
+  assertEquals(detectClusters([review("erin", "frank")]), []);
+});
@@ -1,254 +1,448 @@
-// Simple job scheduler for R4R calculations
-export class JobScheduler {
-  private jobs: Map<string, {
-    id: string;
-    name: string;
-    intervalMs: number;
-    lastRun: Date | null;
-    nextRun: Date;
-    isRunning: boolean;
-    handler: () => Promise<void>;
-  }> = new Map();
-
-  private timers: Map<string, number> = new Map();
+// Cron scheduler for recurring jobs.
+//
+// Schedules live in the scheduled_jobs table: a cron expression evaluated in
+// a timezone, the job type and payload to enqueue, and the computed next run.
+// Because next_run_at is persisted, schedules keep their place across
+// restarts instead of starting a fresh interval. A run that was due while no
+// scheduler was alive follows the schedule's catch-up policy: "skip" drops it
+// and waits for the next slot, "run_once" fires a single catch-up run however
+// many slots were missed.
+//
+// Firing a schedule only enqueues a durable job - the work itself runs in the
+// job worker (utils/r4r-jobs.ts).
+//
+// Every server instance runs a scheduler, so each run is guarded three ways:
+// an instance fires a schedule only while holding its lease (locked_by /
+// locked_until on the schedule row), the queue accepts one pending or running
+// job per schedule id, and workers claim jobs with SKIP LOCKED. A lease left
+// behind by a crashed instance expires after SCHEDULE_LEASE_MS.
+
+import { getClient } from "./database.ts";
+import { nextCronRun, parseCron } from "./cron.ts";
+import type { QueuedJob } from "./job-queue.ts";
+import {
+  enqueueJobRun,
+  type JobRunTrigger,
+  recordSkippedRun,
+} from "./job-runs.ts";
+import {
+  PROFILE_DISCOVERY_JOB,
+  type ProfileDiscoveryPayload,
+  R4R_BATCH_JOB,
+  type R4rBatchPayload,
+} from "./r4r-jobs.ts";
+
+export type CatchUpPolicy = "skip" | "run_once";
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ["skip", "run_once"];
+
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  cron_expression: string;
+  timezone: string;
+  job_type: string;
+  payload: Record<string, unknown>;
+  catch_up: CatchUpPolicy;
+  enabled: boolean;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  locked_by: string | null;
+  locked_until: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
 
-  constructor() {
-    console.log("🕐 JobScheduler initialized");
-  }
+export interface ScheduledJobStatus extends ScheduledJob {
+  // A job enqueued by this schedule is still pending or running
+  is_running: boolean;
+  // A scheduler instance is firing this schedule right now
+  lock_held: boolean;
+  // The queued job for the current run, and the worker running it
+  queue_job_id: number | null;
+  queue_status: "pending" | "running" | null;
+  runner: string | null;
+}
 
-  // Schedule a job to run periodically
-  scheduleJob(
-    id: string,
-    name: string,
-    intervalMs: number,
-    handler: () => Promise<void>
-  ): void {
-    // Clear existing job if it exists
-    this.clearJob(id);
-
-    const job = {
-      id,
-      name,
-      intervalMs,
-      lastRun: null,
-      nextRun: new Date(Date.now() + intervalMs),
-      isRunning: false,
-      handler
-    };
-
-    this.jobs.set(id, job);
-
-    // Schedule the job
-    const timer = setInterval(async () => {
-      await this.runJob(id);
-    }, intervalMs);
-
-    this.timers.set(id, timer);
-
-    console.log(`📅 Scheduled job "${name}" (${id}) to run every ${intervalMs / 1000}s`);
-  }
+export interface ScheduleUpdate {
+  cronExpression?: string;
+  timezone?: string;
+  catchUp?: CatchUpPolicy;
+  enabled?: boolean;
+}
 
-  // Schedule a job to run at specific intervals (cron-like)
-  scheduleHourlyJob(id: string, name: string, handler: () => Promise<void>): void {
-    this.scheduleJob(id, name, 60 * 60 * 1000, handler); // 1 hour
-  }
+interface DefaultSchedule {
+  id: string;
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  jobType: string;
+  payload: Record<string, unknown>;
+  catchUp: CatchUpPolicy;
+}
 
-  scheduleDailyJob(id: string, name: string, handler: () => Promise<void>): void {
-    this.scheduleJob(id, name, 24 * 60 * 60 * 1000, handler); // 24 hours
+// Seeded on startup if missing. Edits made from the admin page are kept.
+const DEFAULT_SCHEDULES: DefaultSchedule[] = [
+  {
+    id: "r4r-batch-6h",
+    name: "R4R Batch Analysis (6h)",
+    cronExpression: "0 */6 * * *",
+    timezone: "UTC",
+    jobType: R4R_BATCH_JOB,
+    payload: { maxUsers: 150, onlyHighActivity: true } as R4rBatchPayload,
+    catchUp: "run_once",
+  },
+  {
+    // Smaller hourly run for profiles that most likely changed
+    id: "r4r-priority-1h",
+    name: "R4R Priority Analysis (1h)",
+    cronExpression: "0 * * * *",
+    timezone: "UTC",
+    jobType: R4R_BATCH_JOB,
+    payload: {
+      maxUsers: 50,
+      onlyHighActivity: true,
+      minPriority: 50,
+      priority: 10,
+    } as R4rBatchPayload,
+    catchUp: "skip",
+  },
+  {
+    id: "profile-discovery",
+    name: "Profile Discovery (1h)",
+    cronExpression: "30 * * * *",
+    timezone: "UTC",
+    jobType: PROFILE_DISCOVERY_JOB,
+    payload: {
+      feedPages: 5,
+      crawlProfiles: 25,
+      searchTerms: 20,
+    } as ProfileDiscoveryPayload,
+    catchUp: "skip",
+  },
+];
+
+const TICK_INTERVAL_MS = 30 * 1000;
+// Long enough to enqueue a run, short enough that a crashed instance doesn't
+// hold a schedule up for long
+export const SCHEDULE_LEASE_MS = 60 * 1000;
+// A run firing later than this was missed (server down, redeploy) rather than
+// just picked up on the next tick
+const MISSED_RUN_GRACE_MS = 2 * 60 * 1000;
+
+export class JobScheduler {
+  readonly instanceId: string;
+  private timer: number | null = null;
+  private ticking = false;
+
+  constructor() {
+    this.instanceId = `scheduler-${
+      Deno.env.get("DENO_DEPLOYMENT_ID") || Deno.pid
+    }-${crypto.randomUUID().slice(0, 8)}`;
+    console.log(`🕐 JobScheduler ${this.instanceId} initialized`);
   }
 
-  // Run a job immediately
-  async runJob(id: string): Promise<boolean> {
-    const job = this.jobs.get(id);
-    if (!job) {
-      console.error(`❌ Job ${id} not found`);
-      return false;
-    }
+  start(): void {
+    if (this.timer !== null) return;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.tick();
+  }
 
-    if (job.isRunning) {
-      console.log(`⏳ Job "${job.name}" is already running, skipping...`);
-      return false;
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log("🛑 Job scheduler stopped");
     }
+  }
 
-    job.isRunning = true;
-    job.lastRun = new Date();
-    job.nextRun = new Date(Date.now() + job.intervalMs);
-
-    console.log(`🚀 Starting job "${job.name}" (${id})`);
+  // Fire every enabled schedule whose next run has come
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
 
     try {
-      await job.handler();
-      console.log(`✅ Job "${job.name}" completed successfully`);
-      return true;
+      const db = await getClient();
+      const result = await db.queryObject<ScheduledJob>`
+        SELECT * FROM scheduled_jobs WHERE enabled = TRUE
+      `;
+
+      for (const { id, next_run_at } of result.rows) {
+        if (next_run_at && next_run_at > new Date()) continue;
+
+        const schedule = await this.acquireLease(id);
+        // Another instance is firing it
+        if (!schedule) continue;
+
+        try {
+          // Re-check against the row as it is now that we hold the lease
+          const now = new Date();
+          if (
+            schedule.enabled &&
+            (!schedule.next_run_at || schedule.next_run_at <= now)
+          ) {
+            await this.fireDue(schedule, now);
+          }
+        } catch (error) {
+          console.error(`❌ Schedule "${schedule.name}" failed:`, error);
+        } finally {
+          await this.releaseLease(id);
+        }
+      }
     } catch (error) {
-      console.error(`❌ Job "${job.name}" failed:`, error);
-      return false;
+      // Without a database there is nothing to schedule
+      if (error instanceof Error && error.message.includes("DATABASE_URL")) {
+        console.warn("⚠️ Job scheduler disabled - database not configured");
+        this.stop();
+      } else {
+        console.error("❌ Job scheduler tick failed:", error);
+      }
     } finally {
-      job.isRunning = false;
+      this.ticking = false;
     }
   }
 
-  // Clear a scheduled job
-  clearJob(id: string): void {
-    const timer = this.timers.get(id);
-    if (timer) {
-      clearInterval(timer);
-      this.timers.delete(id);
+  private async fireDue(schedule: ScheduledJob, now: Date): Promise<void> {
+    const nextRun = nextCronRun(
+      schedule.cron_expression,
+      now,
+      schedule.timezone,
+    );
+
+    // A schedule that was just created or re-enabled has no slot yet
+    if (!schedule.next_run_at) {
+      await this.advance(schedule, nextRun, false);
+      return;
     }
-    this.jobs.delete(id);
-    console.log(`🗑️ Cleared job ${id}`);
-  }
 
-  // Get job status
-  getJobStatus(id: string): {
-    exists: boolean;
-    name?: string;
-    lastRun?: Date | null;
-    nextRun?: Date;
-    isRunning?: boolean;
-    intervalMs?: number;
-  } {
-    const job = this.jobs.get(id);
-    if (!job) {
-      return { exists: false };
+    const lateMs = now.getTime() - schedule.next_run_at.getTime();
+    const missed = lateMs > MISSED_RUN_GRACE_MS;
+    const shouldRun = !missed || schedule.catch_up === "run_once";
+
+    // Move next_run_at before enqueueing, so a crash in between loses at
+    // most this run instead of repeating it
+    if (!await this.advance(schedule, nextRun, shouldRun)) return;
+
+    if (!shouldRun) {
+      await recordSkippedRun(
+        schedule.id,
+        "schedule",
+        `Skipped missed run of "${schedule.name}" (due ${schedule.next_run_at.toISOString()}), next run ${nextRun.toISOString()}`,
+      );
+      return;
     }
 
-    return {
-      exists: true,
-      name: job.name,
-      lastRun: job.lastRun,
-      nextRun: job.nextRun,
-      isRunning: job.isRunning,
-      intervalMs: job.intervalMs
-    };
+    if (missed) {
+      console.log(
+        `🔁 Catching up missed run of "${schedule.name}" (due ${schedule.next_run_at.toISOString()})`,
+      );
+    }
+    await this.enqueue(schedule, missed ? "catch_up" : "schedule");
   }
 
-  // Get all jobs status
-  getAllJobsStatus(): Array<{
-    id: string;
-    name: string;
-    lastRun: Date | null;
-    nextRun: Date;
-    isRunning: boolean;
-    intervalMs: number;
-  }> {
-    return Array.from(this.jobs.values());
+  // Take the schedule's lease unless another instance holds an unexpired one.
+  // Returns the locked row, or null when the lease is taken.
+  private async acquireLease(id: string): Promise<ScheduledJob | null> {
+    const db = await getClient();
+
+    const result = await db.queryObject<ScheduledJob>`
+      UPDATE scheduled_jobs
+      SET locked_by = ${this.instanceId},
+        locked_until = NOW() + (${SCHEDULE_LEASE_MS}::float8 * INTERVAL '1 millisecond')
+      WHERE id = ${id}
+        AND (locked_until IS NULL OR locked_until < NOW() OR locked_by = ${this.instanceId})
+      RETURNING *
+    `;
+
+    return result.rows[0] || null;
   }
 
-  // Clear all jobs
-  clearAllJobs(): void {
-    for (const id of this.jobs.keys()) {
-      this.clearJob(id);
-    }
-    console.log("🧹 Cleared all jobs");
+  // locked_by is kept so job-status shows which instance fired last
+  private async releaseLease(id: string): Promise<void> {
+    const db = await getClient();
+
+    await db.queryObject`
+      UPDATE scheduled_jobs SET locked_until = NULL
+      WHERE id = ${id} AND locked_by = ${this.instanceId}
+    `;
   }
-}
 
-// Global scheduler instance
-export const globalScheduler = new JobScheduler();
+  // Returns false if the schedule moved on since it was read
+  private async advance(
+    schedule: ScheduledJob,
+    nextRun: Date,
+    ran: boolean,
+  ): Promise<boolean> {
+    const db = await getClient();
+
+    const result = await db.queryObject`
+      UPDATE scheduled_jobs
+      SET next_run_at = ${nextRun},
+        last_run_at = ${ran ? new Date() : schedule.last_run_at},
+        updated_at = NOW()
+      WHERE id = ${schedule.id}
+        AND next_run_at IS NOT DISTINCT FROM ${schedule.next_run_at}
+    `;
+
+    return (result.rowCount || 0) > 0;
+  }
 
-// R4R job handlers
-export async function runR4rBatchJob(): Promise<void> {
-  console.log("🔄 Starting R4R batch job...");
-  
-  try {
-    // Fetch active users and process them
-    const response = await fetch(`${getBaseUrl()}/api/schedule-r4r-jobs`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+  // Queue the schedule's job along with a job_runs row tracking it
+  private async enqueue(
+    schedule: ScheduledJob,
+    triggeredBy: JobRunTrigger,
+  ): Promise<QueuedJob | null> {
+    const payload = schedule.payload ?? {};
+    const { job } = await enqueueJobRun(
+      schedule.id,
+      triggeredBy,
+      schedule.job_type,
+      payload,
+      {
+        priority: typeof payload.priority === "number" ? payload.priority : 0,
+        dedupeKey: schedule.id,
       },
-      body: JSON.stringify({
-        batchSize: 15,
-        maxUsers: 150,
-        onlyHighActivity: true
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Job request failed: ${response.status}`);
+    );
+
+    console.log(
+      job
+        ? `✅ Queued job ${job.id} for "${schedule.name}"`
+        : `⏳ "${schedule.name}" already queued, skipping`,
+    );
+    return job;
+  }
+
+  // Run a schedule immediately, outside its cron slots. Returns null if the
+  // schedule doesn't exist, another instance is firing it or its previous run
+  // is still queued.
+  async runJob(id: string): Promise<QueuedJob | null> {
+    const schedule = await this.getJob(id);
+    if (!schedule) {
+      console.error(`❌ Scheduled job ${id} not found`);
+      return null;
+    }
+
+    if (!await this.acquireLease(id)) {
+      console.log(`⏳ "${schedule.name}" is being fired by another instance`);
+      return null;
     }
 
-    const result = await response.json();
-    
-    if (result.ok) {
-      const data = result.data;
-      console.log(`✅ R4R batch job completed: ${data.processedUsers}/${data.totalUsers} users processed`);
-      console.log(`📊 Successful batches: ${data.successfulBatches}/${data.totalBatches}`);
-      
-      if (data.errors.length > 0) {
-        console.warn(`⚠️ Job had ${data.errors.length} errors`);
+    try {
+      console.log(`🚀 Manually running "${schedule.name}" (${id})`);
+      const job = await this.enqueue(schedule, "manual");
+
+      if (job) {
+        const db = await getClient();
+        await db.queryObject`
+          UPDATE scheduled_jobs SET last_run_at = ${new Date()}, updated_at = NOW()
+          WHERE id = ${id}
+        `;
       }
-    } else {
-      throw new Error(`Job failed: ${result.error}`);
+      return job;
+    } finally {
+      await this.releaseLease(id);
     }
+  }
 
-  } catch (error) {
-    console.error("❌ R4R batch job failed:", error);
-    throw error;
+  async getJob(id: string): Promise<ScheduledJobStatus | null> {
+    const jobs = await this.loadStatus(id);
+    return jobs[0] || null;
   }
-}
 
-// Utility to get base URL
-function getBaseUrl(): string {
-  // Check if we're in Deno Deploy
-  if (Deno.env.get("DENO_DEPLOYMENT_ID")) {
-    return "https://ethos-r4r-analyzer.deno.dev";
+  async getAllJobsStatus(): Promise<ScheduledJobStatus[]> {
+    return await this.loadStatus(null);
   }
-  return "http://localhost:8000";
-}
 
-// Initialize default jobs
-export function initializeDefaultJobs(): void {
-  console.log("🎯 Initializing default R4R jobs...");
+  private async loadStatus(id: string | null): Promise<ScheduledJobStatus[]> {
+    const db = await getClient();
+
+    const result = await db.queryObject<ScheduledJobStatus>`
+      SELECT s.*,
+        q.id IS NOT NULL AS is_running,
+        COALESCE(s.locked_until > NOW(), FALSE) AS lock_held,
+        q.id AS queue_job_id,
+        q.status AS queue_status,
+        q.locked_by AS runner
+      FROM scheduled_jobs s
+      LEFT JOIN LATERAL (
+        SELECT id, status, locked_by FROM job_queue
+        WHERE dedupe_key = s.id AND status IN ('pending', 'running')
+        ORDER BY id DESC
+        LIMIT 1
+      ) q ON TRUE
+      WHERE ${id}::varchar IS NULL OR s.id = ${id}
+      ORDER BY s.id
+    `;
+
+    return result.rows;
+  }
 
-  // Schedule R4R batch job to run every 6 hours
-  globalScheduler.scheduleJob(
-    "r4r-batch-6h",
-    "R4R Batch Analysis (6h)",
-    6 * 60 * 60 * 1000, // 6 hours
-    runR4rBatchJob
-  );
-
-  // Schedule a smaller job to run every hour for high-priority users
-  globalScheduler.scheduleJob(
-    "r4r-priority-1h", 
-    "R4R Priority Analysis (1h)",
-    60 * 60 * 1000, // 1 hour
-    async () => {
-      console.log("🔥 Starting priority R4R job...");
-      
-      try {
-        const response = await fetch(`${getBaseUrl()}/api/schedule-r4r-jobs`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            batchSize: 10,
-            maxUsers: 50,
-            onlyHighActivity: true
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Priority job request failed: ${response.status}`);
-        }
+  // Change a schedule's timing. The next run is recomputed from now, so
+  // re-enabling a schedule doesn't count the disabled period as missed.
+  // Throws CronParseError for an invalid expression.
+  async updateJob(
+    id: string,
+    update: ScheduleUpdate,
+  ): Promise<ScheduledJobStatus | null> {
+    const current = await this.getJob(id);
+    if (!current) return null;
+
+    const cronExpression = update.cronExpression !== undefined
+      ? parseCron(update.cronExpression).expression
+      : current.cron_expression;
+    const timezone = update.timezone ?? current.timezone;
+    const catchUp = update.catchUp ?? current.catch_up;
+    const enabled = update.enabled ?? current.enabled;
+    const nextRun = nextCronRun(cronExpression, new Date(), timezone);
+
+    const db = await getClient();
+    await db.queryObject`
+      UPDATE scheduled_jobs
+      SET cron_expression = ${cronExpression},
+        timezone = ${timezone},
+        catch_up = ${catchUp},
+        enabled = ${enabled},
+        next_run_at = ${enabled ? nextRun : null},
+        updated_at = NOW()
+      WHERE id = ${id}
+    `;
+
+    console.log(
+      `📅 Updated "${current.name}": ${cronExpression} (${timezone}), catch-up ${catchUp}, ${
+        enabled ? `next run ${nextRun.toISOString()}` : "disabled"
+      }`,
+    );
+    return await this.getJob(id);
+  }
+}
 
-        const result = await response.json();
-        
-        if (result.ok) {
-          console.log(`✅ Priority R4R job completed: ${result.data.processedUsers} users processed`);
-        } else {
-          throw new Error(`Priority job failed: ${result.error}`);
-        }
+// Global scheduler instance
+export const globalScheduler = new JobScheduler();
 
-      } catch (error) {
-        console.error("❌ Priority R4R job failed:", error);
-        throw error;
-      }
-    }
-  );
+// Insert the default schedules that don't exist yet
+export async function initializeDefaultJobs(): Promise<void> {
+  console.log("🎯 Initializing default R4R jobs...");
+  const db = await getClient();
+  const now = new Date();
+
+  for (const schedule of DEFAULT_SCHEDULES) {
+    const nextRun = nextCronRun(
+      schedule.cronExpression,
+      now,
+      schedule.timezone,
+    );
+    await db.queryObject`
+      INSERT INTO scheduled_jobs (
+        id, name, cron_expression, timezone, job_type, payload, catch_up, next_run_at
+      ) VALUES (
+        ${schedule.id}, ${schedule.name}, ${schedule.cronExpression},
+        ${schedule.timezone}, ${schedule.jobType},
+        ${
+      JSON.stringify(schedule.payload)
+    }::jsonb, ${schedule.catchUp}, ${nextRun}
+      )
+      ON CONFLICT (id) DO NOTHING
+    `;
+  }
 
   console.log("✅ Default jobs initialized");
 }
@@ -256,17 +450,35 @@ export function initializeDefaultJobs(): void {
 // Start the scheduler (call this in main.ts)
 export function startScheduler(): void {
   console.log("🚀 Starting job scheduler...");
-  initializeDefaultJobs();
-  
+
+  initializeDefaultJobs()
+    .catch((error) => {
+      if (!(error instanceof Error && error.message.includes("DATABASE_URL"))) {
+        console.error("❌ Failed to initialize default jobs:", error);
+      }
+    })
+    .finally(() => globalScheduler.start());
+
   // Log scheduler status
-  setInterval(() => {
-    const jobs = globalScheduler.getAllJobsStatus();
-    console.log(`📊 Scheduler status: ${jobs.length} jobs running`);
-    
-    for (const job of jobs) {
-      const nextRunIn = job.nextRun.getTime() - Date.now();
-      const nextRunMinutes = Math.round(nextRunIn / (1000 * 60));
-      console.log(`  - ${job.name}: next run in ${nextRunMinutes}m ${job.isRunning ? '(RUNNING)' : ''}`);
+  setInterval(async () => {
+    try {
+      const jobs = await globalScheduler.getAllJobsStatus();
+      console.log(`📊 Scheduler status: ${jobs.length} scheduled jobs`);
+
+      for (const job of jobs) {
+        const next = job.enabled && job.next_run_at
+          ? `next run in ${
+            Math.round((job.next_run_at.getTime() - Date.now()) / (1000 * 60))
+          }m`
+          : "disabled";
+        console.log(
+          `  - ${job.name} [${job.cron_expression} ${job.timezone}]: ${next} ${
+            job.is_running ? "(RUNNING)" : ""
+          }`,
+        );
+      }
+    } catch {
+      // Database not configured - the scheduler has already stopped
     }
   }, 30 * 60 * 1000); // Log every 30 minutes
-} 
\ No newline at end of file
+}
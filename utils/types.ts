@@ -34,6 +34,10 @@ export interface EthosActivity {
     text: string;
     rating?: "positive" | "negative" | "neutral";
   };
+  data?: {
+    score: "positive" | "negative" | "neutral";
+    comment: string;
+  };
 }
 
 // Leaderboard specific types
@@ -83,14 +87,27 @@ export interface BatchProcessingJob {
   processedCount: number;
 }
 
+// leaderboard_entries columns the leaderboard can be sorted by
+export type LeaderboardSortColumn =
+  | 'farming_score' | 'username' | 'name' | 'score' | 'reviews_given'
+  | 'reviews_received' | 'reciprocal_reviews' | 'quick_reciprocations'
+  | 'avg_reciprocal_time' | 'last_analyzed' | 'risk_level' | 'ethos_xp'
+  | 'high_risk_r4rs' | 'ring_count';
+
 export interface LeaderboardFilters {
-  minReviews: number;
-  timeRange: '30d' | '90d' | 'all';
+  minReviews: number; // reviews given + received
+  timeRange: '30d' | '90d' | 'all'; // analyzed within
   riskLevel: 'high' | 'moderate' | 'low' | 'all';
-  sortBy: 'farmingScore' | 'reciprocalCount' | 'avgTimeGap' | 'reviewsReceived';
+  sortBy: 'farmingScore' | 'reciprocalCount' | 'avgTimeGap' | 'reviewsReceived' | LeaderboardSortColumn;
   sortOrder: 'asc' | 'desc';
   limit: number;
   offset: number;
+  minFarmingScore?: number;
+  maxFarmingScore?: number;
+  minHighRiskR4rs?: number;
+  analyzedAfter?: string; // ISO date
+  analyzedBefore?: string;
+  search?: string; // username prefix or part of the name
 }
 
 // API Response types